@@ -0,0 +1,113 @@
+import { StringDecoder } from 'string_decoder';
+import * as vscode from 'vscode';
+import { Utils } from 'vscode-uri';
+import { debug } from './configuration';
+import { getAttackReference, log, writeFileAtomic } from './helpers';
+
+// bump this whenever indexedFields or the indexed objects change, so indexes built by older releases are rebuilt
+export const indexFormat = 6;
+// the only STIX fields the extension reads - everything else (e.g. citations) is dropped from the index
+const indexedFields: Array<keyof AttackObject> = [
+    'aliases',
+    'created',
+    'description',
+    'first_seen',
+    'id',
+    'kill_chain_phases',
+    'last_seen',
+    'modified',
+    'name',
+    'relationship_type',
+    'revoked',
+    'source_ref',
+    'target_ref',
+    'type',
+    'x_mitre_aliases',
+    'x_mitre_data_source_ref',
+    'x_mitre_data_sources',
+    'x_mitre_defense_bypassed',
+    'x_mitre_deprecated',
+    'x_mitre_detection',
+    'x_mitre_domains',
+    'x_mitre_is_subtechnique',
+    'x_mitre_permissions_required',
+    'x_mitre_platforms',
+    'x_mitre_version',
+];
+
+/*
+    Reduce an object to the fields the extension reads
+*/
+function compactObject(obj: AttackObject): AttackObject {
+    const compact: Record<string, unknown> = {};
+    indexedFields.forEach((field: keyof AttackObject) => {
+        if (obj[field] !== undefined) { compact[field] = obj[field]; }
+    });
+    // only the references identifying the object are used, not the citations in its description
+    const reference: ExternalReference|undefined = getAttackReference(obj);
+    if (reference !== undefined) { compact['external_references'] = [reference]; }
+    return compact as unknown as AttackObject;
+}
+
+/*
+    Build a compact index of an ATT&CK map: every object the extension reads, with only the fields it reads
+    Lookups by ID and name are left to the parsers, which build them from the objects anyway
+*/
+export function buildIndex(attackMap: AttackMap, source: {mtime: number, size: number}): AttackIndex {
+    const objects: Array<AttackObject> = attackMap.objects.filter((obj: AttackObject) => {
+        // retired relationships no longer hold, so there is no need to keep them around
+        return obj.type !== 'relationship' || (!obj.revoked && !obj.x_mitre_deprecated);
+    }).map<AttackObject>(compactObject);
+    return { format: indexFormat, objects: objects, source: source };
+}
+
+/*
+    Turn an index back into an ATT&CK map, so everything that parses ATT&CK maps can use it
+*/
+export function indexToAttackMap(index: AttackIndex): AttackMap {
+    return { type: 'bundle', id: 'bundle--indexed', spec_version: '2.0', objects: index.objects };
+}
+
+/*
+    Get the path of the index built from a cached ATT&CK map
+    Example: enterprise-attack.9.0.json => index/enterprise-attack.9.0.json
+*/
+export function getIndexPath(cacheUri: vscode.Uri, fileUri: vscode.Uri): vscode.Uri {
+    return vscode.Uri.joinPath(cacheUri, 'index', Utils.basename(fileUri));
+}
+
+/*
+    Read the index of a cached ATT&CK map, as long as it was built from the current version of that file
+*/
+export async function readIndex(cacheUri: vscode.Uri, fileUri: vscode.Uri): Promise<AttackIndex|undefined> {
+    try {
+        const stat: vscode.FileStat = await vscode.workspace.fs.stat(fileUri);
+        const contents: Uint8Array = await vscode.workspace.fs.readFile(getIndexPath(cacheUri, fileUri));
+        const index: AttackIndex = JSON.parse(new StringDecoder('utf8').end(Buffer.from(contents))) as AttackIndex;
+        if (index.format === indexFormat && index.source !== undefined && index.source.mtime === stat.mtime && index.source.size === stat.size) {
+            return index;
+        }
+        if (debug) { log(`Index of '${fileUri}' is out of date`); }
+    } catch (err) {
+        if (debug) { log(`No usable index of '${fileUri}': ${err}`); }
+    }
+    return undefined;
+}
+
+/*
+    Build the index of a cached ATT&CK map and store it in the cache
+*/
+export async function writeIndex(cacheUri: vscode.Uri, fileUri: vscode.Uri, attackMap: AttackMap): Promise<AttackIndex|undefined> {
+    try {
+        const stat: vscode.FileStat = await vscode.workspace.fs.stat(fileUri);
+        const index: AttackIndex = buildIndex(attackMap, { mtime: stat.mtime, size: stat.size });
+        await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(cacheUri, 'index'));
+        await writeFileAtomic(getIndexPath(cacheUri, fileUri), Buffer.from(JSON.stringify(index), 'utf-8'));
+        if (debug) { log(`Indexed '${fileUri}' @ '${getIndexPath(cacheUri, fileUri)}'`); }
+        return index;
+    } catch (err) {
+        // the raw file is still usable, it will just be slower to load
+        log(`Could not index '${fileUri}': ${err}`);
+    }
+    return undefined;
+}
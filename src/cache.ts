@@ -0,0 +1,282 @@
+import { StringDecoder } from 'string_decoder';
+import * as vscode from 'vscode';
+import { getIndexPath } from './attackIndex';
+import { debug } from './configuration';
+import * as helpers from './helpers';
+import { log } from './helpers';
+
+export interface CacheEntry {
+    domain: string;
+    mtime: number;
+    path: vscode.Uri;
+    size: number;
+    version: string;
+}
+
+interface CacheEntryQuickPickItem extends vscode.QuickPickItem {
+    entry: CacheEntry;
+}
+
+interface CacheActionQuickPickItem extends vscode.QuickPickItem {
+    action: (storageUri: vscode.Uri) => Promise<boolean>;
+}
+
+// subdirectories of the cache that hold indexes, HTTP responses and data from somewhere other than GitHub
+const cacheSubdirectories: Array<string> = ['http', 'index', 'local', 'quarantine', 'taxii'];
+
+/*
+    Display a file size the way a file manager would
+    Example: 41943040 => 40.0 MB
+*/
+export function formatSize(bytes: number): string {
+    const units: Array<string> = ['B', 'KB', 'MB', 'GB'];
+    let size: number = bytes;
+    let unit = 0;
+    while (size >= 1024 && unit < units.length - 1) {
+        size /= 1024;
+        unit++;
+    }
+    return unit === 0 ? `${size} ${units[unit]}` : `${size.toFixed(1)} ${units[unit]}`;
+}
+
+/*
+    Collect every cached ATT&CK map of every domain, newest version first
+*/
+export async function listCacheEntries(storageUri: vscode.Uri): Promise<Array<CacheEntry>> {
+    const entries: Array<CacheEntry> = new Array<CacheEntry>();
+    for (const domain of Object.keys(helpers.domainNames)) {
+        const versions: Array<string> = (await helpers.getCachedVersions(storageUri, domain)).reverse();
+        for (const version of versions) {
+            const cachedPath: vscode.Uri = helpers.getCachePath(storageUri, version, domain);
+            try {
+                const stat: vscode.FileStat = await vscode.workspace.fs.stat(cachedPath);
+                entries.push({ domain: domain, mtime: stat.mtime, path: cachedPath, size: stat.size, version: version });
+            } catch (err) {
+                log(`listCacheEntries() could not read '${cachedPath}': ${err}`);
+            }
+        }
+    }
+    return entries;
+}
+
+/*
+    Delete the given cached ATT&CK maps, returning how many were deleted
+*/
+export async function deleteCacheEntries(entries: Array<CacheEntry>): Promise<number> {
+    let deleted = 0;
+    for (const entry of entries) {
+        try {
+            await vscode.workspace.fs.delete(entry.path, {useTrash: false});
+            deleted++;
+            // the index is useless without the map it was built from
+            await vscode.workspace.fs.delete(getIndexPath(vscode.Uri.joinPath(entry.path, '..'), entry.path)).then(undefined, () => { /* never indexed */ });
+            if (debug) { log(`Deleted cached ${helpers.domainNames[entry.domain]} ATT&CK v${entry.version} @ '${entry.path}'`); }
+        } catch (err) {
+            log(`Could not delete cached ${helpers.domainNames[entry.domain]} ATT&CK v${entry.version}: ${err}`);
+        }
+    }
+    return deleted;
+}
+
+/*
+    Delete all but the newest N versions of each domain, returning the entries that were deleted
+*/
+export async function pruneCache(storageUri: vscode.Uri, keep: number): Promise<Array<CacheEntry>> {
+    const entries: Array<CacheEntry> = await listCacheEntries(storageUri);
+    // entries are already sorted newest first within each domain
+    const stale: Array<CacheEntry> = Object.keys(helpers.domainNames).map((domain: string) => {
+        return entries.filter((entry: CacheEntry) => { return entry.domain === domain; }).slice(keep);
+    }).reduce((all: Array<CacheEntry>, domainEntries: Array<CacheEntry>) => { return all.concat(domainEntries); }, new Array<CacheEntry>());
+    await deleteCacheEntries(stale);
+    return stale;
+}
+
+/*
+    Delete everything in the cache, including copies of local data sources and TAXII collections
+*/
+export async function purgeCache(storageUri: vscode.Uri): Promise<void> {
+    await deleteCacheEntries(await listCacheEntries(storageUri));
+    for (const subdirectory of cacheSubdirectories) {
+        const subdirectoryUri: vscode.Uri = vscode.Uri.joinPath(storageUri, subdirectory);
+        await vscode.workspace.fs.delete(subdirectoryUri, {recursive: true, useTrash: false}).then(undefined, () => { /* never created */ });
+    }
+    log(`Purged the ATT&CK cache @ '${storageUri}'`);
+}
+
+/*
+    Copy an ATT&CK release from disk into the cache, so it can be used like any downloaded version
+    The domain and version are read from the bundle when possible
+    Throws if the file is not a usable ATT&CK release, and returns undefined if its version or domain is unknown
+*/
+export async function importBundle(storageUri: vscode.Uri, fileUri: vscode.Uri, version?: string, domain?: string): Promise<CacheEntry|undefined> {
+    let contents: Uint8Array = new Uint8Array();
+    let data: unknown = undefined;
+    if (version !== undefined && !helpers.versionRegex.test(version)) {
+        throw new Error(`'${version}' is not an ATT&CK version`);
+    }
+    try {
+        contents = await vscode.workspace.fs.readFile(fileUri);
+        data = JSON.parse(new StringDecoder('utf8').end(Buffer.from(contents)));
+    } catch (err) {
+        log(`Could not read '${fileUri}': ${err}`);
+        throw new Error(`Could not read the file: ${err}`);
+    }
+    // only complete releases are allowed in, or the next startup would quarantine the file anyway
+    const problem: string|undefined = helpers.validateAttackMap(data);
+    if (problem !== undefined) {
+        log(`Refusing to import '${fileUri}': ${problem}`);
+        throw new Error(`Not an ATT&CK release: ${problem}`);
+    }
+    const attackMap: AttackMap = data as AttackMap;
+    const bundleVersion: string|undefined = version !== undefined ? version : helpers.getAttackVersion(attackMap);
+    const bundleDomain: string|undefined = domain !== undefined ? domain : getBundleDomain(attackMap);
+    if (bundleVersion === undefined || bundleDomain === undefined) {
+        log(`Could not determine the ATT&CK version and domain of '${fileUri}'`);
+        return undefined;
+    }
+    const cachedPath: vscode.Uri = helpers.getCachePath(storageUri, bundleVersion, bundleDomain);
+    await vscode.workspace.fs.createDirectory(storageUri);
+    await helpers.writeFileAtomic(cachedPath, contents);
+    log(`Imported '${fileUri}' as ${helpers.domainNames[bundleDomain]} ATT&CK v${bundleVersion} @ '${cachedPath}'`);
+    const stat: vscode.FileStat = await vscode.workspace.fs.stat(cachedPath);
+    return { domain: bundleDomain, mtime: stat.mtime, path: cachedPath, size: stat.size, version: bundleVersion };
+}
+
+/*
+    Determine which domain a bundle was released for from its matrix
+    Returns undefined if the bundle does not say, or if it covers several domains
+*/
+export function getBundleDomain(attackMap: AttackMap): string|undefined {
+    const domains: Set<string> = new Set<string>();
+    attackMap.objects.filter((obj: AttackObject) => { return obj.type === 'x-mitre-matrix'; }).forEach((matrix: AttackObject) => {
+        const reference: ExternalReference|undefined = helpers.getAttackReference(matrix);
+        // Example: the Enterprise matrix is identified as 'enterprise-attack'
+        if (reference !== undefined && reference.external_id in helpers.domainNames) {
+            domains.add(reference.external_id);
+        }
+    });
+    return domains.size === 1 ? [...domains][0] : undefined;
+}
+
+/*
+    Show the cached versions and delete the ones the user selects
+*/
+async function deleteVersions(storageUri: vscode.Uri): Promise<boolean> {
+    const entries: Array<CacheEntry> = await listCacheEntries(storageUri);
+    if (entries.length === 0) {
+        vscode.window.showInformationMessage('ATT&CK: The cache is empty.');
+        return false;
+    }
+    const totalSize: number = entries.reduce((total: number, entry: CacheEntry) => { return total + entry.size; }, 0);
+    const items: Array<CacheEntryQuickPickItem> = entries.map<CacheEntryQuickPickItem>((entry: CacheEntry) => {
+        return {
+            description: `${formatSize(entry.size)}, downloaded ${new Date(entry.mtime).toLocaleString()}`,
+            detail: entry.path.fsPath,
+            entry: entry,
+            label: `${helpers.domainNames[entry.domain]} ATT&CK v${entry.version}`,
+        };
+    });
+    const selection: Array<CacheEntryQuickPickItem>|undefined = await vscode.window.showQuickPick(items, {
+        canPickMany: true,
+        placeHolder: `${entries.length} cached versions using ${formatSize(totalSize)}. Select the versions to delete`,
+    });
+    if (selection === undefined || selection.length === 0) {
+        return false;
+    }
+    const deleted: number = await deleteCacheEntries(selection.map<CacheEntry>((item: CacheEntryQuickPickItem) => { return item.entry; }));
+    vscode.window.showInformationMessage(`ATT&CK: Deleted ${deleted} cached version(s).`);
+    return deleted > 0;
+}
+
+/*
+    Ask how many versions to keep and delete the rest
+*/
+async function keepNewest(storageUri: vscode.Uri): Promise<boolean> {
+    const input: string|undefined = await vscode.window.showInputBox({
+        placeHolder: '1',
+        prompt: 'Number of versions to keep for each ATT&CK domain',
+        validateInput: (value: string) => { return /^\d+$/.test(value.trim()) ? undefined : 'Enter a whole number'; },
+    });
+    if (input === undefined) {
+        return false;
+    }
+    const deleted: Array<CacheEntry> = await pruneCache(storageUri, parseInt(input.trim()));
+    vscode.window.showInformationMessage(`ATT&CK: Deleted ${deleted.length} cached version(s).`);
+    return deleted.length > 0;
+}
+
+/*
+    Delete the whole cache after confirming with the user
+*/
+async function purge(storageUri: vscode.Uri): Promise<boolean> {
+    const confirmation: string|undefined = await vscode.window.showWarningMessage(
+        'ATT&CK: Delete every cached ATT&CK version and download the data again?',
+        {modal: true},
+        'Purge'
+    );
+    if (confirmation !== 'Purge') {
+        return false;
+    }
+    await purgeCache(storageUri);
+    return true;
+}
+
+/*
+    Ask the user for a bundle on disk and import it into the cache
+*/
+async function importFromDisk(storageUri: vscode.Uri): Promise<boolean> {
+    const files: Array<vscode.Uri>|undefined = await vscode.window.showOpenDialog({
+        canSelectMany: false,
+        filters: {'STIX bundles': ['json']},
+        openLabel: 'Import',
+    });
+    if (files === undefined || files.length === 0) {
+        return false;
+    }
+    let entry: CacheEntry|undefined = undefined;
+    try {
+        entry = await importBundle(storageUri, files[0]);
+        if (entry === undefined) {
+            // older releases don't carry their version, so let the user fill in the blanks
+            const version: string|undefined = await vscode.window.showInputBox({
+                placeHolder: '9.0',
+                prompt: 'ATT&CK version of this bundle',
+                validateInput: (value: string) => { return helpers.versionRegex.test(value.trim()) ? undefined : 'Enter a version like 9.0'; },
+            });
+            const domain: string|undefined = version !== undefined ? await vscode.window.showQuickPick(Object.keys(helpers.domainNames), {placeHolder: 'ATT&CK domain of this bundle'}) : undefined;
+            if (version === undefined || domain === undefined) {
+                if (debug) { log('importFromDisk: Import cancelled'); }
+                return false;
+            }
+            entry = await importBundle(storageUri, files[0], version.trim(), domain);
+        }
+    } catch (err) {
+        vscode.window.showErrorMessage(`ATT&CK: Could not import '${files[0].fsPath}'. ${err instanceof Error ? err.message : err}`);
+        return false;
+    }
+    if (entry === undefined) {
+        vscode.window.showErrorMessage(`ATT&CK: Could not import '${files[0].fsPath}'. Check the MITRE ATT&CK output channel for details.`);
+        return false;
+    }
+    vscode.window.showInformationMessage(`ATT&CK: Imported ${helpers.domainNames[entry.domain]} ATT&CK v${entry.version} into the cache.`);
+    return true;
+}
+
+/*
+    Let the user pick a cache management action and run it
+    Returns true if the cache was changed and the data should be reloaded
+*/
+export async function manageCache(storageUri: vscode.Uri): Promise<boolean> {
+    const actions: Array<CacheActionQuickPickItem> = [
+        { action: deleteVersions, description: 'List cached versions with their size and date, and delete the selected ones', label: 'Delete Versions' },
+        { action: keepNewest, description: 'Delete all but the newest versions', label: 'Keep Newest' },
+        { action: purge, description: 'Delete everything and download the data again', label: 'Purge' },
+        { action: importFromDisk, description: 'Copy an ATT&CK release from disk into the cache', label: 'Import Bundle' },
+    ];
+    const selection: CacheActionQuickPickItem|undefined = await vscode.window.showQuickPick(actions, {placeHolder: `ATT&CK cache @ ${storageUri.fsPath}`});
+    if (selection === undefined) {
+        if (debug) { log('manageCache: Cancelled'); }
+        return false;
+    }
+    return selection.action(storageUri);
+}
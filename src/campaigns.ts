@@ -0,0 +1,230 @@
+import * as vscode from 'vscode';
+import { additionalDomains, completionFormat, configSection, debug, domainSuffix } from './configuration';
+import { campaignRegex, formatDomains, getAttackReference, getDomains, indexBy, log, lookupByLabel, minTermLength } from './helpers';
+import { getAttributedGroups, getObject, relationshipGraph } from './relationships';
+
+const monthNames: Array<string> = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+/*
+    Build a completion item's insertion text based on settings
+    TODO: Generalize this across object types
+*/
+export function buildInsertionText(campaign: Campaign): string {
+    let insertionText: string = campaign.id;
+    if (completionFormat === 'id-name' || completionFormat === 'id-fullname') {
+        insertionText = `${campaign.id} ${campaign.name}`;
+    }
+    else if (completionFormat === 'name' || completionFormat === 'fullname') {
+        insertionText = campaign.name;
+    }
+    else if (completionFormat === 'link') {
+        insertionText = campaign.url;
+    }
+    return insertionText;
+}
+
+/*
+    Build a completion item out of a campaign
+*/
+function buildCompletionItem(label: string, campaign: Campaign): vscode.CompletionItem {
+    const completionItem: vscode.CompletionItem = new vscode.CompletionItem(label, vscode.CompletionItemKind.Value);
+    const insertionText: string = buildInsertionText(campaign);
+    completionItem.detail = `${insertionText}${domainSuffix(campaign.domains)}`;
+    completionItem.insertText = insertionText;
+    return completionItem;
+}
+
+/*
+    Format a first or last seen timestamp the way the ATT&CK site does, e.g. 'December 2015'
+*/
+export function formatSeenDate(timestamp: string): string {
+    const date: Date = new Date(timestamp);
+    if (isNaN(date.getTime())) { return timestamp; }
+    return `${monthNames[date.getUTCMonth()]} ${date.getUTCFullYear()}`;
+}
+
+/*
+    Counterpart to buildTechniqueDescription ... but for campaigns
+    TODO: Generalize this across object types
+*/
+function buildCampaignDescription(campaign: Campaign, descriptionType: string|undefined = undefined): vscode.MarkdownString {
+    if (descriptionType === undefined) { descriptionType = vscode.workspace.getConfiguration(configSection).get('description'); }
+    const mdBuilder: vscode.MarkdownString = new vscode.MarkdownString(undefined);
+    // title
+    mdBuilder.appendMarkdown(`### ${campaign.name}\n`);
+    // source link
+    if (campaign.url !== undefined) { mdBuilder.appendMarkdown(`[Source Link](${campaign.url})\n\n`); }
+    else { mdBuilder.appendMarkdown(`No source link available\n\n`); }
+    // domains, but only when more than one is loaded
+    if (additionalDomains.length > 0) { mdBuilder.appendMarkdown(`**Domain**: ${formatDomains(campaign.domains)}\n\n`); }
+    // when the campaign was active
+    if (campaign.firstSeen !== undefined) { mdBuilder.appendMarkdown(`**First Seen**: ${formatSeenDate(campaign.firstSeen)}\n\n`); }
+    if (campaign.lastSeen !== undefined) { mdBuilder.appendMarkdown(`**Last Seen**: ${formatSeenDate(campaign.lastSeen)}\n\n`); }
+    // who ran it
+    const attributed: Array<string> = getAttributedGroups(relationshipGraph, campaign.id).map<string>((id: string) => {
+        const group: RelatedObject|undefined = getObject(relationshipGraph, id, ['intrusion-set']);
+        return group !== undefined ? `${id} ${group.name}` : id;
+    });
+    if (attributed.length > 0) { mdBuilder.appendMarkdown(`**Attributed To**: ${attributed.join(', ')}\n\n`); }
+    // description
+    if (descriptionType && descriptionType === 'long') { mdBuilder.appendMarkdown(campaign.description.long); }
+    else if (descriptionType && descriptionType === 'short') { mdBuilder.appendMarkdown(campaign.description.short); }
+    return mdBuilder;
+}
+
+export async function init(attackData: AttackMap): Promise<Array<Campaign>> {
+    return new Promise((resolve) => {
+        let campaigns: Array<Campaign> = new Array<Campaign>();
+        campaigns = attackData.objects.filter((item: AttackObject) => {
+            return item.type === 'campaign';
+        }).map<Campaign>((item: AttackObject) => {
+            const description: string = item.description !== undefined ? item.description : 'No description available.';
+            const aliases: Array<string> = item.aliases !== undefined ? item.aliases : new Array<string>();
+            const campaign: Campaign = {
+                aliases: aliases,
+                description: {
+                    short: description.split("\n")[0],
+                    long: description
+                },
+                domains: getDomains(item),
+                firstSeen: item.first_seen,
+                id: '<unknown>',
+                lastSeen: item.last_seen,
+                name: item.name,
+                url: '<unknown>'
+            };
+            // custom objects may be identified by a source other than 'mitre-attack'
+            const reference: ExternalReference|undefined = getAttackReference(item);
+            if (reference !== undefined) {
+                campaign.id = reference.external_id;
+                campaign.url = reference.url;
+            }
+            return campaign;
+        });
+        if (debug) { log(`Parsed out ${campaigns.length} campaigns`); }
+        resolve(campaigns);
+    });
+}
+
+export class CampaignHoverProvider implements vscode.HoverProvider {
+    public campaigns: Array<Campaign> = new Array<Campaign>();
+    public campaignsById: Map<string, Array<Campaign>> = new Map<string, Array<Campaign>>();
+
+    public provideHover(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken): vscode.ProviderResult<vscode.Hover> {
+        try {
+            return new Promise((resolve) => {
+                token.onCancellationRequested(() => {
+                    // if this process is cancelled, just return nothing
+                    if (debug) { log('CampaignHoverProvider: Task cancelled!'); }
+                    resolve(undefined);
+                });
+                let hover: vscode.Hover | undefined = undefined;
+                let hoverRange: vscode.Range | undefined = undefined;
+                hoverRange = document.getWordRangeAtPosition(position, campaignRegex);
+                if (hoverRange !== undefined) {
+                    const hoverTerm: string = document.getText(hoverRange);
+                    // the same ID can belong to different objects in different domains, so show every match
+                    const currentCampaigns: Array<Campaign> = this.campaignsById.get(hoverTerm) || new Array<Campaign>();
+                    if (currentCampaigns.length > 0) {
+                        if (debug) { log(`CampaignHoverProvider: Found exact Campaign ID '${hoverTerm}'`); }
+                        hover = new vscode.Hover(currentCampaigns.map<vscode.MarkdownString>((c: Campaign) => { return buildCampaignDescription(c); }), hoverRange);
+                    }
+                }
+                resolve(hover);
+            });
+        } catch (error) {
+            log(`CampaignHoverProvider error: ${error}`);
+        }
+    }
+}
+
+export class CampaignCompletionProvider implements vscode.CompletionItemProvider {
+    public campaigns: Array<Campaign> = new Array<Campaign>();
+    public campaignsById: Map<string, Array<Campaign>> = new Map<string, Array<Campaign>>();
+    public campaignsByName: Map<string, Array<Campaign>> = new Map<string, Array<Campaign>>();
+
+    public provideCompletionItems(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken): vscode.ProviderResult<vscode.CompletionItem[] | vscode.CompletionList> {
+        try {
+            return new Promise((resolve) => {
+                token.onCancellationRequested(() => {
+                    // if this process is cancelled, just return nothing
+                    if (debug) { log('CampaignCompletionProvider: Task cancelled!'); }
+                    resolve(undefined);
+                });
+                let completionItems: Array<vscode.CompletionItem> = new Array<vscode.CompletionItem>();
+                // custom IDs (e.g. 'RC-C0001') may contain characters that are not part of a regular word
+                const completionRange: vscode.Range | undefined = document.getWordRangeAtPosition(position, campaignRegex) || document.getWordRangeAtPosition(position);
+                if (completionRange === undefined) {
+                    if (debug) { log('CampaignCompletionProvider: No completion item range provided.'); }
+                }
+                else {
+                    const completionTerm: string = document.getText(completionRange);
+                    // only return everything if this is a "long" term
+                    if (completionTerm.length >= minTermLength) {
+                        // if the user is trying to complete something that matches an exact campaign ID, just return the matching item(s)
+                        const exactCampaigns: Array<Campaign> = this.campaignsById.get(completionTerm.toUpperCase()) || new Array<Campaign>();
+                        if (exactCampaigns.length > 0) {
+                            if (debug) { log(`CampaignCompletionProvider: Found exact Campaign ID '${completionTerm.toUpperCase()}'`); }
+                            completionItems = exactCampaigns.map<vscode.CompletionItem>((c: Campaign) => { return buildCompletionItem(c.id, c); });
+                        }
+                        else {
+                            // if the user is trying to complete a campaign by name
+                            const possibleCampaigns: Array<Campaign> | undefined = this.campaigns.filter((c: Campaign) => {
+                                return c.name.toLowerCase().includes(completionTerm.toLowerCase());
+                            });
+                            if (possibleCampaigns !== undefined) {
+                                completionItems = possibleCampaigns.map<vscode.CompletionItem>((c: Campaign) => {
+                                    if (debug) { log(`CampaignCompletionProvider: Found possible Campaign '${c.name}'`); }
+                                    return buildCompletionItem(c.name, c);
+                                });
+                            }
+                        }
+                    }
+                }
+                resolve(completionItems);
+            });
+        } catch (error) {
+            log(`CampaignCompletionProvider error: ${error}`);
+        }
+    }
+
+    public resolveCompletionItem(item: vscode.CompletionItem, token: vscode.CancellationToken): vscode.ProviderResult<vscode.CompletionItem> {
+        try {
+            return new Promise((resolve) => {
+                token.onCancellationRequested(() => {
+                    // if this process is cancelled, just return nothing
+                    if (debug) { log('CampaignCompletionProvider: Resolution task cancelled!'); }
+                    resolve(undefined);
+                });
+                if (debug) { log(`CampaignCompletionProvider: Resolving completion item for '${item.label}'`); }
+                item.keepWhitespace = true;
+                const campaign: Campaign | undefined = lookupByLabel(item.label, this.campaignsById, this.campaignsByName).find((c: Campaign) => {
+                    // the detail tells apart objects sharing an ID across domains
+                    return ((c.id === item.label) || (c.name === item.label)) && (item.detail === undefined || item.detail.endsWith(domainSuffix(c.domains)));
+                });
+                if (campaign !== undefined) {
+                    item.documentation = buildCampaignDescription(campaign);
+                }
+                resolve(item);
+            });
+        } catch (error) {
+            log(`CampaignCompletionProvider error: ${error}`);
+        }
+    }
+}
+
+export function register(filters: vscode.DocumentSelector, campaigns: Array<Campaign>): Array<vscode.Disposable> {
+    log('Registering providers for Campaigns');
+    // hover provider
+    const campaignHovers: CampaignHoverProvider = new CampaignHoverProvider();
+    const campaignHoverDisposable: vscode.Disposable = vscode.languages.registerHoverProvider(filters, campaignHovers);
+    campaignHovers.campaigns = campaigns;
+    campaignHovers.campaignsById = indexBy(campaigns, (c: Campaign) => { return [c.id]; });
+    // completion provider
+    const campaignCompletions: CampaignCompletionProvider = new CampaignCompletionProvider();
+    campaignCompletions.campaigns = campaigns;
+    campaignCompletions.campaignsById = indexBy(campaigns, (c: Campaign) => { return [c.id]; });
+    campaignCompletions.campaignsByName = indexBy(campaigns, (c: Campaign) => { return [c.name]; });
+    const campaignCompletionDisposable: vscode.Disposable = vscode.languages.registerCompletionItemProvider(filters, campaignCompletions);
+    return [campaignHoverDisposable, campaignCompletionDisposable];
+}
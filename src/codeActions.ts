@@ -0,0 +1,208 @@
+import * as vscode from 'vscode';
+import { buildInsertionText as buildCampaignText } from './campaigns';
+import { completionFormat, debug } from './configuration';
+import { buildInsertionText as buildDataSourceText } from './dataSources';
+import { DiagnosticCategory, DiagnosticContext, FoundId, IdCheck, buildDiagnosticContext, diagnosticSource, findIds } from './diagnostics';
+import { buildInsertionText as buildGroupText } from './groups';
+import { log } from './helpers';
+import { LinkEdit, buildDefinitionBlockEdit, generateLink, generateReferenceLink, usesReferenceLinks } from './insertLink';
+import { buildInsertionText as buildMitigationText } from './mitigations';
+import { buildInsertionText as buildSoftwareText } from './software';
+import { buildInsertionText as buildTacticText } from './tactics';
+import { buildInsertionText as buildTechniqueText, getReplacement } from './techniques';
+
+// lets "editor.codeActionsOnSave" fix every ATT&CK ID in a file that has exactly one fix
+export const fixAllKind: vscode.CodeActionKind = vscode.CodeActionKind.SourceFixAll.append('attack');
+// the diagnostics with a fix that is safe to apply without looking at it
+const fixAllCategories: Array<DiagnosticCategory> = ['revoked', 'slashNotation'];
+// typos are only corrected to IDs this close to them
+const maxDistance = 2;
+const maxSuggestions = 3;
+
+// a replacement for the text of a diagnostic
+interface Fix {
+    newText: string;
+    preferred: boolean;
+    title: string;
+}
+
+/*
+    Count the single character insertions, deletions and substitutions needed to turn one string into another
+*/
+export function getEditDistance(a: string, b: string): number {
+    let previous: Array<number> = new Array<number>(b.length + 1).fill(0).map<number>((_value: number, i: number) => { return i; });
+    for (let i = 1; i <= a.length; i++) {
+        const current: Array<number> = [i];
+        for (let j = 1; j <= b.length; j++) {
+            const cost: number = a.charAt(i - 1) === b.charAt(j - 1) ? 0 : 1;
+            current.push(Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost));
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+/*
+    Find the current objects whose IDs are closest to an ID that does not exist, closest first
+*/
+export function findClosestObjects(text: string, context: DiagnosticContext): Array<AttackDataSource|Campaign|Group|Mitigation|Software|Tactic|Technique> {
+    const candidates: Array<{ distance: number; obj: AttackDataSource|Campaign|Group|Mitigation|Software|Tactic|Technique }> = new Array<{ distance: number; obj: AttackDataSource|Campaign|Group|Mitigation|Software|Tactic|Technique }>();
+    const normalized: string = text.replace('/', '.');
+    context.checks.forEach((check: IdCheck) => {
+        // only suggest objects of the type the ID looks like
+        if (!new RegExp(`^(?:${check.regex.source})$`).test(text)) { return; }
+        check.objects.forEach((obj: AttackDataSource|Campaign|Group|Mitigation|Software|Tactic|Technique) => {
+            if ((obj as Technique).revoked) { return; }
+            const distance: number = getEditDistance(normalized, obj.id);
+            if (distance <= maxDistance) { candidates.push({ distance: distance, obj: obj }); }
+        });
+    });
+    return candidates.sort((a, b) => { return a.distance - b.distance || a.obj.id.localeCompare(b.obj.id); }).slice(0, maxSuggestions).map((c) => { return c.obj; });
+}
+
+/*
+    Work out the replacements for the text a diagnostic was raised for
+*/
+function getFixes(text: string, category: DiagnosticCategory, context: DiagnosticContext): Array<Fix> {
+    const normalized: string = text.replace('/', '.');
+    if (category === 'revoked') {
+        const techniques: Array<Technique> = context.techniquesById.get(normalized) || new Array<Technique>();
+        const replacement: Technique|undefined = techniques.length > 0 ? getReplacement(techniques[0], context.techniquesById) : undefined;
+        if (replacement === undefined) { return []; }
+        return [{ newText: replacement.id, preferred: true, title: `Replace with ${replacement.id} (${replacement.name})` }];
+    }
+    if (category === 'slashNotation') {
+        return [{ newText: normalized, preferred: true, title: `Change to ${normalized}` }];
+    }
+    if (category === 'unknown') {
+        const closest: Array<AttackDataSource|Campaign|Group|Mitigation|Software|Tactic|Technique> = findClosestObjects(text, context);
+        return closest.map<Fix>((obj: AttackDataSource|Campaign|Group|Mitigation|Software|Tactic|Technique) => {
+            // only a single suggestion is a safe bet
+            return { newText: obj.id, preferred: closest.length === 1, title: `Change to ${obj.id} (${obj.name})` };
+        });
+    }
+    return [];
+}
+
+/*
+    Build the text a completion of an object would insert, according to the completionFormat setting
+*/
+function buildFormattedText(kind: string, obj: AttackDataSource|Campaign|Group|Mitigation|Software|Tactic|Technique): string {
+    if (kind === 'technique') { return buildTechniqueText(obj as Technique); }
+    if (kind === 'tactic') { return buildTacticText(obj as Tactic); }
+    if (kind === 'group') { return buildGroupText(obj as Group); }
+    if (kind === 'campaign') { return buildCampaignText(obj as Campaign); }
+    if (kind === 'data source') { return buildDataSourceText(obj as AttackDataSource); }
+    if (kind === 'software') { return buildSoftwareText(obj as Software); }
+    return buildMitigationText(obj as Mitigation);
+}
+
+export class AttackCodeActionProvider implements vscode.CodeActionProvider {
+    public static readonly providedCodeActionKinds: Array<vscode.CodeActionKind> = [vscode.CodeActionKind.QuickFix, vscode.CodeActionKind.RefactorRewrite, fixAllKind];
+    public context: DiagnosticContext = { checks: [], severities: new Map<DiagnosticCategory, vscode.DiagnosticSeverity|undefined>(), techniquesById: new Map<string, Array<Technique>>() };
+
+    public provideCodeActions(document: vscode.TextDocument, range: vscode.Range|vscode.Selection, actionContext: vscode.CodeActionContext): Array<vscode.CodeAction> {
+        let actions: Array<vscode.CodeAction> = new Array<vscode.CodeAction>();
+        actionContext.diagnostics.filter((d: vscode.Diagnostic) => { return d.source === diagnosticSource; }).forEach((diagnostic: vscode.Diagnostic) => {
+            getFixes(document.getText(diagnostic.range), diagnostic.code as DiagnosticCategory, this.context).forEach((fix: Fix) => {
+                const action: vscode.CodeAction = new vscode.CodeAction(fix.title, vscode.CodeActionKind.QuickFix);
+                action.diagnostics = [diagnostic];
+                action.edit = new vscode.WorkspaceEdit();
+                action.edit.replace(document.uri, diagnostic.range, fix.newText);
+                action.isPreferred = fix.preferred;
+                actions.push(action);
+            });
+        });
+        actions = actions.concat(this.buildFixAllActions(document, actionContext.diagnostics.length > 0));
+        if (range.isSingleLine) { actions = actions.concat(this.buildRewriteActions(document, range.start)); }
+        // the editor asks for specific kinds on save, so don't bother it with the rest
+        return actions.filter((action: vscode.CodeAction) => {
+            return actionContext.only === undefined || (action.kind !== undefined && actionContext.only.contains(action.kind));
+        });
+    }
+
+    /*
+        Fix every revoked and slash notation ID in the document at once
+        ... offered as a quick fix next to the single fixes, and as a source action for "editor.codeActionsOnSave"
+    */
+    private buildFixAllActions(document: vscode.TextDocument, asQuickFix: boolean): Array<vscode.CodeAction> {
+        const edit: vscode.WorkspaceEdit = new vscode.WorkspaceEdit();
+        const fixed: Array<vscode.Diagnostic> = new Array<vscode.Diagnostic>();
+        vscode.languages.getDiagnostics(document.uri).filter((d: vscode.Diagnostic) => {
+            return d.source === diagnosticSource && fixAllCategories.includes(d.code as DiagnosticCategory);
+        }).forEach((diagnostic: vscode.Diagnostic) => {
+            // a revoked sub-technique in slash notation has two diagnostics, but can only be replaced once
+            if (fixed.some((d: vscode.Diagnostic) => { return d.range.intersection(diagnostic.range) !== undefined; })) { return; }
+            const fixes: Array<Fix> = getFixes(document.getText(diagnostic.range), diagnostic.code as DiagnosticCategory, this.context);
+            if (fixes.length !== 1) { return; }
+            edit.replace(document.uri, diagnostic.range, fixes[0].newText);
+            fixed.push(diagnostic);
+        });
+        if (fixed.length === 0) { return []; }
+        const actions: Array<vscode.CodeAction> = new Array<vscode.CodeAction>();
+        const title = `Fix all ATT&CK IDs in file (${fixed.length})`;
+        if (asQuickFix && fixed.length > 1) {
+            const quickFix: vscode.CodeAction = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+            quickFix.diagnostics = fixed;
+            quickFix.edit = edit;
+            actions.push(quickFix);
+        }
+        const sourceAction: vscode.CodeAction = new vscode.CodeAction(title, fixAllKind);
+        sourceAction.diagnostics = fixed;
+        sourceAction.edit = edit;
+        actions.push(sourceAction);
+        return actions;
+    }
+
+    /*
+        Rewrite the known ID under the cursor in the configured completion format, or as a link
+    */
+    private buildRewriteActions(document: vscode.TextDocument, position: vscode.Position): Array<vscode.CodeAction> {
+        const line: string = document.lineAt(position.line).text;
+        const found: FoundId|undefined = findIds(line, this.context).find((f: FoundId) => { return f.start <= position.character && position.character <= f.end; });
+        const obj: AttackDataSource|Campaign|Group|Mitigation|Software|Tactic|Technique|undefined = found !== undefined ? found.check.objects.get(found.normalized) : undefined;
+        if (found === undefined || obj === undefined) { return []; }
+        // IDs that are already the text of a link (inline or reference-style) are left alone
+        if (line.charAt(found.start - 1) === '[' && line.charAt(found.end) === ']') { return []; }
+        const range: vscode.Range = new vscode.Range(position.line, found.start, position.line, found.end);
+        const actions: Array<vscode.CodeAction> = new Array<vscode.CodeAction>();
+        const formatted: string = buildFormattedText(found.check.kind, obj);
+        if (formatted !== found.id) {
+            const action: vscode.CodeAction = new vscode.CodeAction(`Format as '${completionFormat}': ${formatted}`, vscode.CodeActionKind.RefactorRewrite);
+            action.edit = new vscode.WorkspaceEdit();
+            action.edit.replace(document.uri, range, formatted);
+            actions.push(action);
+        }
+        // the same link insertLink() would generate for the ID
+        const referenceLinks: boolean = usesReferenceLinks(document.languageId);
+        const link: string|undefined = referenceLinks ? generateReferenceLink(found.id, obj.id) : generateLink(found.id, obj.url, document.languageId);
+        if (link !== undefined) {
+            const action: vscode.CodeAction = new vscode.CodeAction(`Convert ${found.id} to a link`, vscode.CodeActionKind.RefactorRewrite);
+            action.edit = new vscode.WorkspaceEdit();
+            action.edit.replace(document.uri, range, link);
+            if (referenceLinks) {
+                const urlsById: Map<string, string> = new Map<string, string>();
+                this.context.checks.forEach((check: IdCheck) => {
+                    check.objects.forEach((attackObject: AttackDataSource|Campaign|Group|Mitigation|Software|Tactic|Technique) => { urlsById.set(attackObject.id, attackObject.url); });
+                });
+                const linkEdit: LinkEdit = { end: document.offsetAt(range.end), newText: link, start: document.offsetAt(range.start) };
+                const definitionEdit: LinkEdit|undefined = buildDefinitionBlockEdit(document.getText(), [linkEdit], urlsById);
+                if (definitionEdit !== undefined) {
+                    action.edit.replace(document.uri, new vscode.Range(document.positionAt(definitionEdit.start), document.positionAt(definitionEdit.end)), definitionEdit.newText);
+                }
+            }
+            actions.push(action);
+        }
+        return actions;
+    }
+}
+
+export function register(filters: vscode.DocumentSelector, techniques: Array<Technique>, tactics: Array<Tactic>, groups: Array<Group>, software: Array<Software>, mitigations: Array<Mitigation>, dataSources: Array<AttackDataSource>, campaigns: Array<Campaign>): Array<vscode.Disposable> {
+    if (debug) { log('Registering code actions'); }
+    const codeActions: AttackCodeActionProvider = new AttackCodeActionProvider();
+    codeActions.context = buildDiagnosticContext(techniques, tactics, groups, software, mitigations, dataSources, campaigns);
+    const codeActionDisposable: vscode.Disposable = vscode.languages.registerCodeActionsProvider(filters, codeActions, {
+        providedCodeActionKinds: AttackCodeActionProvider.providedCodeActionKinds,
+    });
+    return [codeActionDisposable];
+}
@@ -0,0 +1,283 @@
+import * as vscode from 'vscode';
+import { debug } from './configuration';
+import { compareVersions, getAttackReference, getCachePath, getCachedVersions, log, readCachedAttackMap } from './helpers';
+import markdownit from 'markdown-it';
+const md = markdownit('commonmark');
+
+export type ChangeKind = 'added' | 'renamed' | 'revoked' | 'deprecated' | 'reparented' | 'moved' | 'description';
+
+export interface VersionChange {
+    category: string;
+    details: string;
+    id: string;
+    kind: ChangeKind;
+    name: string;
+}
+
+// the object types that are compared, grouped the way the report lists them
+const categories: Record<string, string> = {
+    'attack-pattern': 'Techniques',
+    'intrusion-set': 'Groups',
+    'malware': 'Software',
+    'tool': 'Software',
+    'course-of-action': 'Mitigations',
+};
+const categoryOrder: Array<string> = ['Techniques', 'Groups', 'Software', 'Mitigations'];
+const kindTitles: Record<ChangeKind, string> = {
+    'added': 'Added',
+    'renamed': 'Renamed',
+    'revoked': 'Revoked',
+    'deprecated': 'Deprecated',
+    'reparented': 'Moved to another parent technique',
+    'moved': 'Moved between tactics',
+    'description': 'Description changed',
+};
+
+/*
+    Get the tactics an object is listed under (e.g. 'execution')
+*/
+function getTactics(obj: AttackObject): Array<string> {
+    return (obj.kill_chain_phases || []).map<string>((phase: KillChainPhase) => { return phase.phase_name; }).sort();
+}
+
+/*
+    Map every revoked object's STIX ID to the ATT&CK ID of the object that replaced it
+*/
+function getReplacements(attackMap: AttackMap, byStixId: Map<string, AttackObject>): Map<string, string> {
+    const replacements: Map<string, string> = new Map<string, string>();
+    attackMap.objects.filter((obj: AttackObject) => { return obj.type === 'relationship' && obj.relationship_type === 'revoked-by'; }).forEach((relationship: AttackObject) => {
+        const target: AttackObject|undefined = byStixId.get(relationship.target_ref);
+        const reference: ExternalReference|undefined = target !== undefined ? getAttackReference(target) : undefined;
+        if (reference !== undefined) { replacements.set(relationship.source_ref, reference.external_id); }
+    });
+    return replacements;
+}
+
+/*
+    Map every sub-technique's STIX ID to the ATT&CK ID of its parent technique
+*/
+function getParents(attackMap: AttackMap, byStixId: Map<string, AttackObject>): Map<string, string> {
+    const parents: Map<string, string> = new Map<string, string>();
+    attackMap.objects.filter((obj: AttackObject) => { return obj.type === 'relationship' && obj.relationship_type === 'subtechnique-of'; }).forEach((relationship: AttackObject) => {
+        const parent: AttackObject|undefined = byStixId.get(relationship.target_ref);
+        const reference: ExternalReference|undefined = parent !== undefined ? getAttackReference(parent) : undefined;
+        if (reference !== undefined) { parents.set(relationship.source_ref, reference.external_id); }
+    });
+    return parents;
+}
+
+/*
+    Index the objects that are compared by their STIX ID, which stays the same across renames
+*/
+function getComparedObjects(attackMap: AttackMap): Map<string, AttackObject> {
+    const result: Map<string, AttackObject> = new Map<string, AttackObject>();
+    attackMap.objects.forEach((obj: AttackObject) => {
+        if (categories[obj.type] !== undefined && getAttackReference(obj) !== undefined) { result.set(obj.id, obj); }
+    });
+    return result;
+}
+
+/*
+    List everything that changed between two ATT&CK maps, ordered by category and ATT&CK ID
+*/
+export function diffAttackMaps(oldMap: AttackMap, newMap: AttackMap): Array<VersionChange> {
+    const changes: Array<VersionChange> = new Array<VersionChange>();
+    const oldObjects: Map<string, AttackObject> = getComparedObjects(oldMap);
+    const newObjects: Map<string, AttackObject> = getComparedObjects(newMap);
+    const replacements: Map<string, string> = getReplacements(newMap, newObjects);
+    const oldParents: Map<string, string> = getParents(oldMap, oldObjects);
+    const newParents: Map<string, string> = getParents(newMap, newObjects);
+    newObjects.forEach((obj: AttackObject, stixId: string) => {
+        const reference: ExternalReference = getAttackReference(obj) as ExternalReference;
+        const change = (kind: ChangeKind, details: string): void => {
+            changes.push({ category: categories[obj.type], details: details, id: reference.external_id, kind: kind, name: obj.name });
+        };
+        const old: AttackObject|undefined = oldObjects.get(stixId);
+        if (old === undefined) {
+            // objects that were retired before they were ever released are not worth reporting
+            if (!obj.revoked && !obj.x_mitre_deprecated) { change('added', ''); }
+            return;
+        }
+        if (obj.revoked && !old.revoked) {
+            const replacement: string|undefined = replacements.get(stixId);
+            change('revoked', replacement !== undefined ? `Replaced by ${replacement}` : '');
+            return;
+        }
+        if (obj.x_mitre_deprecated && !old.x_mitre_deprecated) {
+            change('deprecated', '');
+            return;
+        }
+        // nothing else about retired objects is maintained anymore
+        if (obj.revoked || obj.x_mitre_deprecated) { return; }
+        if (obj.name !== old.name) { change('renamed', `Previously '${old.name}'`); }
+        const oldParent: string|undefined = oldParents.get(stixId);
+        const newParent: string|undefined = newParents.get(stixId);
+        if (oldParent !== newParent) {
+            change('reparented', `Previously ${oldParent !== undefined ? `under ${oldParent}` : 'a technique'}, now ${newParent !== undefined ? `under ${newParent}` : 'a technique'}`);
+        }
+        const oldTactics: Array<string> = getTactics(old);
+        const newTactics: Array<string> = getTactics(obj);
+        const addedTactics: Array<string> = newTactics.filter((tactic: string) => { return !oldTactics.includes(tactic); });
+        const removedTactics: Array<string> = oldTactics.filter((tactic: string) => { return !newTactics.includes(tactic); });
+        if (addedTactics.length > 0 || removedTactics.length > 0) {
+            const details: Array<string> = new Array<string>();
+            if (addedTactics.length > 0) { details.push(`Added to ${addedTactics.join(', ')}`); }
+            if (removedTactics.length > 0) { details.push(`Removed from ${removedTactics.join(', ')}`); }
+            change('moved', details.join('; '));
+        }
+        if ((obj.description || '') !== (old.description || '')) { change('description', ''); }
+    });
+    return changes.sort((a: VersionChange, b: VersionChange) => {
+        return categoryOrder.indexOf(a.category) - categoryOrder.indexOf(b.category) || a.id.localeCompare(b.id, undefined, { numeric: true });
+    });
+}
+
+/*
+    Build the report of the given changes as Markdown
+*/
+export function buildReport(oldVersion: string, newVersion: string, changes: Array<VersionChange>): string {
+    let report = `# ATT&CK v${oldVersion} to v${newVersion}\n\n`;
+    if (changes.length === 0) {
+        return `${report}No changes found.\n`;
+    }
+    categoryOrder.forEach((category: string) => {
+        const categoryChanges: Array<VersionChange> = changes.filter((c: VersionChange) => { return c.category === category; });
+        if (categoryChanges.length === 0) { return; }
+        report += `## ${category}\n\n`;
+        (Object.keys(kindTitles) as Array<ChangeKind>).forEach((kind: ChangeKind) => {
+            const kindChanges: Array<VersionChange> = categoryChanges.filter((c: VersionChange) => { return c.kind === kind; });
+            if (kindChanges.length === 0) { return; }
+            report += `### ${kindTitles[kind]} (${kindChanges.length})\n\n`;
+            kindChanges.forEach((c: VersionChange) => {
+                report += `- **${c.id}** ${c.name}${c.details.length > 0 ? ` - ${c.details}` : ''}\n`;
+            });
+            report += '\n';
+        });
+    });
+    return report;
+}
+
+/*
+    Build the webview page around the rendered report, with a button to export it
+*/
+function buildPage(report: string, webview: vscode.Webview, resourceUri: vscode.Uri): string {
+    const scriptUri: vscode.Uri = webview.asWebviewUri(vscode.Uri.joinPath(resourceUri, 'report.js'));
+    const styleUri: vscode.Uri = webview.asWebviewUri(vscode.Uri.joinPath(resourceUri, 'styles.css'));
+    let page = `<!DOCTYPE html>\n<html lang="en">\n  <head>\n    <meta charset="UTF-8">`;
+    // only allow styles and scripts from the extension's resources
+    const contentSecurityPolicy = `default-src 'none'; style-src ${webview.cspSource}; script-src-elem ${webview.cspSource}`;
+    page += `    <meta http-equiv="Content-Security-Policy" content="${contentSecurityPolicy}">\n`;
+    page += `    <link rel="stylesheet" href="${styleUri}">\n`;
+    page += '  </head>\n  <body>\n';
+    page += '<button id="export-report" class="navigation">Export as Markdown</button>\n';
+    page += `<div class="report">\n${md.render(report)}</div>\n`;
+    page += `  </body>\n<script src="${scriptUri}"></script>\n</html>\n`;
+    return page;
+}
+
+/*
+    Save the report wherever the user chooses
+*/
+async function exportReport(report: string, fileName: string): Promise<void> {
+    const defaultUri: vscode.Uri|undefined = vscode.workspace.workspaceFolders !== undefined ? vscode.Uri.joinPath(vscode.workspace.workspaceFolders[0].uri, fileName) : undefined;
+    const fileUri: vscode.Uri|undefined = await vscode.window.showSaveDialog({ defaultUri: defaultUri, filters: { 'Markdown': ['md'] } });
+    if (fileUri === undefined) { return; }
+    await vscode.workspace.fs.writeFile(fileUri, Buffer.from(report, 'utf-8'));
+    log(`Exported report to '${fileUri}'`);
+}
+
+/*
+    Open a workspace file linked from a report (e.g. 'docs/detections.md#L12') at the linked line
+*/
+async function openLink(href: string): Promise<void> {
+    const match: RegExpMatchArray|null = href.match(/^(.*?)(?:#L(\d+))?$/);
+    const folders: ReadonlyArray<vscode.WorkspaceFolder> = vscode.workspace.workspaceFolders || [];
+    if (match === null || folders.length === 0) { return; }
+    const relativePath: string = decodeURIComponent(match[1]);
+    for (const folder of folders) {
+        const fileUri: vscode.Uri = vscode.Uri.joinPath(folder.uri, relativePath);
+        try {
+            await vscode.workspace.fs.stat(fileUri);
+        } catch (err) {
+            continue;
+        }
+        const line: number = match[2] !== undefined ? parseInt(match[2]) - 1 : 0;
+        await vscode.window.showTextDocument(fileUri, { selection: new vscode.Range(line, 0, line, 0), viewColumn: vscode.ViewColumn.Beside });
+        return;
+    }
+    log(`Could not find '${relativePath}' in the workspace`);
+}
+
+/*
+    Show a Markdown report in a webview, exporting it whenever the user asks to
+    Relative links in the report are opened as workspace files
+*/
+export function displayReport(title: string, report: string, fileName: string, extensionPath: string): vscode.WebviewPanel {
+    const resources: vscode.Uri = vscode.Uri.joinPath(vscode.Uri.file(extensionPath), 'src', 'resources');
+    const panelOptions: (vscode.WebviewOptions & vscode.WebviewPanelOptions) = {
+        enableScripts: true,
+        enableCommandUris: false,
+        enableFindWidget: true,
+        localResourceRoots: [resources]
+    };
+    const panel: vscode.WebviewPanel = vscode.window.createWebviewPanel('vscode-attack', title, vscode.ViewColumn.One, panelOptions);
+    panel.webview.html = buildPage(report, panel.webview, resources);
+    panel.webview.onDidReceiveMessage((message) => {
+        switch (message.command) {
+            case 'export':
+                exportReport(report, fileName);
+                break;
+            case 'open':
+                openLink(message.href);
+                break;
+        }
+    });
+    return panel;
+}
+
+/*
+    Ask the user for two cached versions, older one first
+*/
+export async function pickVersions(storageUri: vscode.Uri): Promise<[string, string]|undefined> {
+    const cachedVersions: Array<string> = (await getCachedVersions(storageUri)).sort(compareVersions).reverse();
+    if (cachedVersions.length < 2) {
+        vscode.window.showWarningMessage(`ATT&CK: At least two cached versions are needed to compare. Use 'ATT&CK: Select Version' or 'ATT&CK: Manage Cache' to add another one.`);
+        return undefined;
+    }
+    const oldVersion: string|undefined = await vscode.window.showQuickPick(cachedVersions.slice(1), {placeHolder: 'Select the older ATT&CK version'});
+    if (oldVersion === undefined) { return undefined; }
+    const newerVersions: Array<string> = cachedVersions.filter((version: string) => { return compareVersions(version, oldVersion) > 0; });
+    const newVersion: string|undefined = await vscode.window.showQuickPick(newerVersions, {placeHolder: `Select the ATT&CK version to compare v${oldVersion} to`});
+    if (newVersion === undefined) { return undefined; }
+    return [oldVersion, newVersion];
+}
+
+/*
+    Read two cached versions and list what changed between them
+*/
+export async function diffCachedVersions(storageUri: vscode.Uri, oldVersion: string, newVersion: string): Promise<Array<VersionChange>|undefined> {
+    const oldMap: AttackMap|undefined = await readCachedAttackMap(storageUri, getCachePath(storageUri, oldVersion));
+    const newMap: AttackMap|undefined = await readCachedAttackMap(storageUri, getCachePath(storageUri, newVersion));
+    if (oldMap === undefined || newMap === undefined) {
+        vscode.window.showErrorMessage(`ATT&CK: Could not read cached ATT&CK v${oldMap === undefined ? oldVersion : newVersion}.`);
+        return undefined;
+    }
+    const changes: Array<VersionChange> = diffAttackMaps(oldMap, newMap);
+    log(`Found ${changes.length} changes between ATT&CK v${oldVersion} and v${newVersion}`);
+    return changes;
+}
+
+/*
+    Ask the user for two cached versions, then show what changed between them
+*/
+export async function compareVersionsCommand(storageUri: vscode.Uri, extensionPath: string): Promise<vscode.WebviewPanel|undefined> {
+    const versions: [string, string]|undefined = await pickVersions(storageUri);
+    if (versions === undefined) {
+        if (debug) { log('compareVersions: Comparison cancelled'); }
+        return undefined;
+    }
+    const [oldVersion, newVersion] = versions;
+    const changes: Array<VersionChange>|undefined = await diffCachedVersions(storageUri, oldVersion, newVersion);
+    if (changes === undefined) { return undefined; }
+    return displayReport(`ATT&CK: v${oldVersion} to v${newVersion}`, buildReport(oldVersion, newVersion, changes), `attack-v${oldVersion}-to-v${newVersion}.md`, extensionPath);
+}
@@ -1,9 +1,11 @@
 import * as vscode from 'vscode';
-import { log } from './helpers';
+import { formatDomains, log, setIdPatterns } from './helpers';
 
 export const configSection = 'vscode-attack';
+export let additionalDomains: Array<string> = new Array<string>();
 export let completionFormat = 'id';
 export let debug = true;
+export let platforms: Array<string> = new Array<string>();
 
 export function setDebugLogState(): void {
     if (vscode.workspace.getConfiguration(configSection).get('debug')) {
@@ -29,3 +31,39 @@ export async function setCompletionItemFormat(): Promise<void> {
         if (debug) { log(`Set completion item format to '${completionFormat}'`); }
     }
 }
+
+export function setAdditionalDomains(): void {
+    const newDomains: Array<string>|undefined = vscode.workspace.getConfiguration(configSection).get('additionalDomains');
+    additionalDomains = newDomains !== undefined ? newDomains : new Array<string>();
+    if (debug) { log(`Set additional domains to '${additionalDomains.join(', ')}'`); }
+}
+
+export function setCustomIdPatterns(): void {
+    const patterns: Record<string, string>|undefined = vscode.workspace.getConfiguration(configSection).get('customIdPatterns');
+    setIdPatterns(patterns !== undefined ? patterns : {});
+    if (debug) { log(`Set custom ID patterns to '${JSON.stringify(patterns)}'`); }
+}
+
+export function setPlatforms(): void {
+    const newPlatforms: Array<string>|undefined = vscode.workspace.getConfiguration(configSection).get('platforms');
+    platforms = newPlatforms !== undefined ? newPlatforms : new Array<string>();
+    if (debug) { log(`Set platform scope to '${platforms.join(', ')}'`); }
+}
+
+/*
+    Check whether a technique applies to any of the platforms the user cares about
+    ... every technique is in scope when no platforms are set, and so are techniques that don't list any
+*/
+export function isInPlatformScope(technique: Technique): boolean {
+    if (platforms.length === 0 || technique.platforms === undefined || technique.platforms.length === 0) { return true; }
+    const scope: Array<string> = platforms.map<string>((p: string) => { return p.toLowerCase(); });
+    return technique.platforms.some((p: string) => { return scope.includes(p.toLowerCase()); });
+}
+
+/*
+    Label an object with its domains, but only when more than one domain is loaded
+    ... otherwise every item would say 'Enterprise' for no good reason
+*/
+export function domainSuffix(domains: Array<string>): string {
+    return additionalDomains.length > 0 ? ` (${formatDomains(domains)})` : '';
+}
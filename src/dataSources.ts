@@ -0,0 +1,308 @@
+import * as vscode from 'vscode';
+import { additionalDomains, completionFormat, configSection, debug, domainSuffix } from './configuration';
+import { dataSourceRegex, formatDomains, getAttackReference, getDomains, indexBy, log, lookupByLabel, minTermLength } from './helpers';
+import { getRelated, relationshipGraph } from './relationships';
+
+// hovers list this many detected techniques per data component, so Process Creation does not fill the screen
+const maxDetections = 10;
+
+/*
+    Build a completion item's insertion text based on settings
+    TODO: Generalize this across object types
+*/
+export function buildInsertionText(dataSource: AttackDataSource): string {
+    let insertionText: string = dataSource.id;
+    if (completionFormat === 'id-name' || completionFormat === 'id-fullname') {
+        insertionText = `${dataSource.id} ${dataSource.name}`;
+    }
+    else if (completionFormat === 'name' || completionFormat === 'fullname') {
+        insertionText = dataSource.name;
+    }
+    else if (completionFormat === 'link') {
+        insertionText = dataSource.url;
+    }
+    return insertionText;
+}
+
+/*
+    Build the label of a data component the way ATT&CK writes it, e.g. 'Process: Process Creation'
+*/
+function getComponentLabel(dataSource: AttackDataSource, component: DataComponent): string {
+    return `${dataSource.name}: ${component.name}`;
+}
+
+/*
+    Counterpart to buildInsertionText ... but for data components, which have no ID of their own
+*/
+function buildComponentInsertionText(dataSource: AttackDataSource, component: DataComponent): string {
+    let insertionText: string = getComponentLabel(dataSource, component);
+    if (completionFormat === 'id' || completionFormat === 'id-name' || completionFormat === 'id-fullname') {
+        insertionText = `${dataSource.id} ${insertionText}`;
+    }
+    else if (completionFormat === 'link') {
+        insertionText = dataSource.url;
+    }
+    return insertionText;
+}
+
+/*
+    Build a completion item out of a data source
+*/
+function buildCompletionItem(label: string, dataSource: AttackDataSource): vscode.CompletionItem {
+    const completionItem: vscode.CompletionItem = new vscode.CompletionItem(label, vscode.CompletionItemKind.Value);
+    const insertionText: string = buildInsertionText(dataSource);
+    completionItem.detail = `${insertionText}${domainSuffix(dataSource.domains)}`;
+    completionItem.insertText = insertionText;
+    return completionItem;
+}
+
+/*
+    Build a completion item out of a data component
+*/
+function buildComponentCompletionItem(dataSource: AttackDataSource, component: DataComponent): vscode.CompletionItem {
+    const completionItem: vscode.CompletionItem = new vscode.CompletionItem(getComponentLabel(dataSource, component), vscode.CompletionItemKind.Value);
+    const insertionText: string = buildComponentInsertionText(dataSource, component);
+    completionItem.detail = `${insertionText}${domainSuffix(dataSource.domains)}`;
+    completionItem.insertText = insertionText;
+    return completionItem;
+}
+
+/*
+    Get the IDs of the techniques a data component detects
+*/
+export function getDetectedTechniques(component: DataComponent): Array<string> {
+    return getRelated(relationshipGraph, component.id, 'detects', 'from', ['attack-pattern']).sort();
+}
+
+/*
+    Describe which techniques a data component detects, in a single line
+*/
+function describeDetections(component: DataComponent): string {
+    const detected: Array<string> = getDetectedTechniques(component);
+    if (detected.length === 0) { return 'no techniques'; }
+    const listed: string = detected.slice(0, maxDetections).join(', ');
+    return detected.length > maxDetections ? `${listed} and ${detected.length - maxDetections} more` : listed;
+}
+
+/*
+    Counterpart to buildTechniqueDescription ... but for data sources
+    TODO: Generalize this across object types
+*/
+function buildDataSourceDescription(dataSource: AttackDataSource, descriptionType: string|undefined = undefined): vscode.MarkdownString {
+    if (descriptionType === undefined) { descriptionType = vscode.workspace.getConfiguration(configSection).get('description'); }
+    const mdBuilder: vscode.MarkdownString = new vscode.MarkdownString(undefined);
+    // title
+    mdBuilder.appendMarkdown(`### ${dataSource.name}\n`);
+    // source link
+    if (dataSource.url !== undefined) { mdBuilder.appendMarkdown(`[Source Link](${dataSource.url})\n\n`); }
+    else { mdBuilder.appendMarkdown(`No source link available\n\n`); }
+    // domains, but only when more than one is loaded
+    if (additionalDomains.length > 0) { mdBuilder.appendMarkdown(`**Domain**: ${formatDomains(dataSource.domains)}\n\n`); }
+    // data components, and what each of them detects
+    if (dataSource.components.length > 0) {
+        mdBuilder.appendMarkdown('**Data Components**:\n\n');
+        dataSource.components.forEach((component: DataComponent) => {
+            mdBuilder.appendMarkdown(`- **${component.name}**: detects ${describeDetections(component)}\n`);
+        });
+        mdBuilder.appendMarkdown('\n');
+    }
+    // description
+    if (descriptionType && descriptionType === 'long') { mdBuilder.appendMarkdown(dataSource.description.long); }
+    else if (descriptionType && descriptionType === 'short') { mdBuilder.appendMarkdown(dataSource.description.short); }
+    return mdBuilder;
+}
+
+/*
+    Counterpart to buildDataSourceDescription ... but for a single data component
+*/
+function buildDataComponentDescription(dataSource: AttackDataSource, component: DataComponent, descriptionType: string|undefined = undefined): vscode.MarkdownString {
+    if (descriptionType === undefined) { descriptionType = vscode.workspace.getConfiguration(configSection).get('description'); }
+    const mdBuilder: vscode.MarkdownString = new vscode.MarkdownString(undefined);
+    // title
+    mdBuilder.appendMarkdown(`### ${getComponentLabel(dataSource, component)}\n`);
+    // source link, since data components do not have a page of their own
+    if (dataSource.url !== undefined) { mdBuilder.appendMarkdown(`[Source Link](${dataSource.url})\n\n`); }
+    else { mdBuilder.appendMarkdown(`No source link available\n\n`); }
+    // detected techniques
+    mdBuilder.appendMarkdown(`**Detects**: ${describeDetections(component)}\n\n`);
+    // description
+    if (descriptionType && descriptionType === 'long') { mdBuilder.appendMarkdown(component.description.long); }
+    else if (descriptionType && descriptionType === 'short') { mdBuilder.appendMarkdown(component.description.short); }
+    return mdBuilder;
+}
+
+export async function init(attackData: AttackMap): Promise<Array<AttackDataSource>> {
+    return new Promise((resolve) => {
+        // data components point at their data source, rather than the other way around
+        const components: Map<string, Array<DataComponent>> = new Map<string, Array<DataComponent>>();
+        attackData.objects.filter((item: AttackObject) => {
+            return item.type === 'x-mitre-data-component' && item.x_mitre_data_source_ref !== undefined;
+        }).forEach((item: AttackObject) => {
+            const description: string = item.description !== undefined ? item.description : 'No description available.';
+            const component: DataComponent = {
+                description: {
+                    short: description.split("\n")[0],
+                    long: description
+                },
+                id: item.id,
+                name: item.name
+            };
+            components.set(item.x_mitre_data_source_ref, (components.get(item.x_mitre_data_source_ref) || []).concat([component]));
+        });
+        const dataSources: Array<AttackDataSource> = attackData.objects.filter((item: AttackObject) => {
+            return item.type === 'x-mitre-data-source';
+        }).map<AttackDataSource>((item: AttackObject) => {
+            const description: string = item.description !== undefined ? item.description : 'No description available.';
+            const dataSource: AttackDataSource = {
+                components: (components.get(item.id) || []).sort((a: DataComponent, b: DataComponent) => { return a.name.localeCompare(b.name); }),
+                description: {
+                    short: description.split("\n")[0],
+                    long: description
+                },
+                domains: getDomains(item),
+                id: '<unknown>',
+                name: item.name,
+                url: '<unknown>'
+            };
+            // custom objects may be identified by a source other than 'mitre-attack'
+            const reference: ExternalReference|undefined = getAttackReference(item);
+            if (reference !== undefined) {
+                dataSource.id = reference.external_id;
+                dataSource.url = reference.url;
+            }
+            return dataSource;
+        });
+        if (debug) { log(`Parsed out ${dataSources.length} data sources`); }
+        resolve(dataSources);
+    });
+}
+
+export class DataSourceHoverProvider implements vscode.HoverProvider {
+    public dataSources: Array<AttackDataSource> = new Array<AttackDataSource>();
+    public dataSourcesById: Map<string, Array<AttackDataSource>> = new Map<string, Array<AttackDataSource>>();
+
+    public provideHover(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken): vscode.ProviderResult<vscode.Hover> {
+        try {
+            return new Promise((resolve) => {
+                token.onCancellationRequested(() => {
+                    // if this process is cancelled, just return nothing
+                    if (debug) { log('DataSourceHoverProvider: Task cancelled!'); }
+                    resolve(undefined);
+                });
+                let hover: vscode.Hover | undefined = undefined;
+                let hoverRange: vscode.Range | undefined = undefined;
+                hoverRange = document.getWordRangeAtPosition(position, dataSourceRegex);
+                if (hoverRange !== undefined) {
+                    const hoverTerm: string = document.getText(hoverRange);
+                    // the same ID can belong to different objects in different domains, so show every match
+                    const currentDataSources: Array<AttackDataSource> = this.dataSourcesById.get(hoverTerm) || new Array<AttackDataSource>();
+                    if (currentDataSources.length > 0) {
+                        if (debug) { log(`DataSourceHoverProvider: Found exact Data Source ID '${hoverTerm}'`); }
+                        hover = new vscode.Hover(currentDataSources.map<vscode.MarkdownString>((d: AttackDataSource) => { return buildDataSourceDescription(d); }), hoverRange);
+                    }
+                }
+                resolve(hover);
+            });
+        } catch (error) {
+            log(`DataSourceHoverProvider error: ${error}`);
+        }
+    }
+}
+
+export class DataSourceCompletionProvider implements vscode.CompletionItemProvider {
+    public dataSources: Array<AttackDataSource> = new Array<AttackDataSource>();
+    public dataSourcesById: Map<string, Array<AttackDataSource>> = new Map<string, Array<AttackDataSource>>();
+    // indexed by data source name, and by the label of each of their data components
+    public dataSourcesByName: Map<string, Array<AttackDataSource>> = new Map<string, Array<AttackDataSource>>();
+
+    public provideCompletionItems(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken): vscode.ProviderResult<vscode.CompletionItem[] | vscode.CompletionList> {
+        try {
+            return new Promise((resolve) => {
+                token.onCancellationRequested(() => {
+                    // if this process is cancelled, just return nothing
+                    if (debug) { log('DataSourceCompletionProvider: Task cancelled!'); }
+                    resolve(undefined);
+                });
+                let completionItems: Array<vscode.CompletionItem> = new Array<vscode.CompletionItem>();
+                // custom IDs (e.g. 'RC-DS0001') may contain characters that are not part of a regular word
+                const completionRange: vscode.Range | undefined = document.getWordRangeAtPosition(position, dataSourceRegex) || document.getWordRangeAtPosition(position);
+                if (completionRange === undefined) {
+                    if (debug) { log('DataSourceCompletionProvider: No completion item range provided.'); }
+                }
+                else {
+                    const completionTerm: string = document.getText(completionRange);
+                    // only return everything if this is a "long" term
+                    if (completionTerm.length >= minTermLength) {
+                        // if the user is trying to complete something that matches an exact data source ID, just return the matching item(s)
+                        const exactDataSources: Array<AttackDataSource> = this.dataSourcesById.get(completionTerm.toUpperCase()) || new Array<AttackDataSource>();
+                        if (exactDataSources.length > 0) {
+                            if (debug) { log(`DataSourceCompletionProvider: Found exact Data Source ID '${completionTerm.toUpperCase()}'`); }
+                            completionItems = exactDataSources.map<vscode.CompletionItem>((d: AttackDataSource) => { return buildCompletionItem(d.id, d); });
+                        }
+                        else {
+                            // if the user is trying to complete a data source or data component by name
+                            const term: string = completionTerm.toLowerCase();
+                            this.dataSources.forEach((d: AttackDataSource) => {
+                                if (d.name.toLowerCase().includes(term)) {
+                                    if (debug) { log(`DataSourceCompletionProvider: Found possible Data Source '${d.name}'`); }
+                                    completionItems.push(buildCompletionItem(d.name, d));
+                                }
+                                d.components.filter((c: DataComponent) => { return getComponentLabel(d, c).toLowerCase().includes(term); }).forEach((c: DataComponent) => {
+                                    if (debug) { log(`DataSourceCompletionProvider: Found possible Data Component '${getComponentLabel(d, c)}'`); }
+                                    completionItems.push(buildComponentCompletionItem(d, c));
+                                });
+                            });
+                        }
+                    }
+                }
+                resolve(completionItems);
+            });
+        } catch (error) {
+            log(`DataSourceCompletionProvider error: ${error}`);
+        }
+    }
+
+    public resolveCompletionItem(item: vscode.CompletionItem, token: vscode.CancellationToken): vscode.ProviderResult<vscode.CompletionItem> {
+        try {
+            return new Promise((resolve) => {
+                token.onCancellationRequested(() => {
+                    // if this process is cancelled, just return nothing
+                    if (debug) { log('DataSourceCompletionProvider: Resolution task cancelled!'); }
+                    resolve(undefined);
+                });
+                if (debug) { log(`DataSourceCompletionProvider: Resolving completion item for '${item.label}'`); }
+                item.keepWhitespace = true;
+                const label: string = typeof item.label === 'string' ? item.label : item.label.label;
+                const dataSource: AttackDataSource | undefined = lookupByLabel(item.label, this.dataSourcesById, this.dataSourcesByName).find((d: AttackDataSource) => {
+                    // the detail tells apart objects sharing an ID across domains
+                    return item.detail === undefined || item.detail.endsWith(domainSuffix(d.domains));
+                });
+                if (dataSource !== undefined) {
+                    const component: DataComponent|undefined = dataSource.components.find((c: DataComponent) => { return getComponentLabel(dataSource, c) === label; });
+                    item.documentation = component !== undefined ? buildDataComponentDescription(dataSource, component) : buildDataSourceDescription(dataSource);
+                }
+                resolve(item);
+            });
+        } catch (error) {
+            log(`DataSourceCompletionProvider error: ${error}`);
+        }
+    }
+}
+
+export function register(filters: vscode.DocumentSelector, dataSources: Array<AttackDataSource>): Array<vscode.Disposable> {
+    log('Registering providers for Data Sources');
+    // hover provider
+    const dataSourceHovers: DataSourceHoverProvider = new DataSourceHoverProvider();
+    const dataSourceHoverDisposable: vscode.Disposable = vscode.languages.registerHoverProvider(filters, dataSourceHovers);
+    dataSourceHovers.dataSources = dataSources;
+    dataSourceHovers.dataSourcesById = indexBy(dataSources, (d: AttackDataSource) => { return [d.id]; });
+    // completion provider
+    const dataSourceCompletions: DataSourceCompletionProvider = new DataSourceCompletionProvider();
+    dataSourceCompletions.dataSources = dataSources;
+    dataSourceCompletions.dataSourcesById = indexBy(dataSources, (d: AttackDataSource) => { return [d.id]; });
+    dataSourceCompletions.dataSourcesByName = indexBy(dataSources, (d: AttackDataSource) => {
+        return [d.name].concat(d.components.map<string>((c: DataComponent) => { return getComponentLabel(d, c); }));
+    });
+    const dataSourceCompletionDisposable: vscode.Disposable = vscode.languages.registerCompletionItemProvider(filters, dataSourceCompletions);
+    return [dataSourceHoverDisposable, dataSourceCompletionDisposable];
+}
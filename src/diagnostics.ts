@@ -0,0 +1,214 @@
+import * as vscode from 'vscode';
+import { configSection, debug, isInPlatformScope, platforms } from './configuration';
+import { campaignRegex, dataSourceRegex, groupRegex, indexBy, log, mitigationRegex, softwareRegex, tacticRegex, techniqueRegex } from './helpers';
+import { getReplacement } from './techniques';
+
+export type DiagnosticCategory = 'deprecated'|'outOfScope'|'revoked'|'slashNotation'|'unknown';
+// identifies the extension's diagnostics among those of other extensions
+export const diagnosticSource = 'ATT&CK';
+
+// how every category is reported when the user has not configured it
+const defaultSeverities: Record<DiagnosticCategory, string> = {
+    deprecated: 'warning',
+    outOfScope: 'hint',
+    revoked: 'warning',
+    slashNotation: 'information',
+    unknown: 'error',
+};
+const severities: Record<string, vscode.DiagnosticSeverity> = {
+    error: vscode.DiagnosticSeverity.Error,
+    hint: vscode.DiagnosticSeverity.Hint,
+    information: vscode.DiagnosticSeverity.Information,
+    warning: vscode.DiagnosticSeverity.Warning,
+};
+// wait for a pause in typing before scanning the document again
+const updateDelay = 250;
+
+// the objects of one type, by ID, and the regex that finds their IDs
+export interface IdCheck {
+    kind: string;
+    objects: Map<string, AttackDataSource|Campaign|Group|Mitigation|Software|Tactic|Technique>;
+    regex: RegExp;
+}
+
+// an ID found on a line of a document, which may or may not exist in the loaded data
+export interface FoundId {
+    check: IdCheck;
+    end: number;
+    // the ID as it is written in the document, e.g. T1059/001
+    id: string;
+    // the ID as it is written in the data, e.g. T1059.001
+    normalized: string;
+    start: number;
+}
+
+// everything needed to check the IDs in a document against the loaded data
+export interface DiagnosticContext {
+    checks: Array<IdCheck>;
+    // categories that are turned off have no severity
+    severities: Map<DiagnosticCategory, vscode.DiagnosticSeverity|undefined>;
+    techniquesById: Map<string, Array<Technique>>;
+}
+
+/*
+    Read the severity of every diagnostic category from the user's settings
+*/
+function getSeverities(): Map<DiagnosticCategory, vscode.DiagnosticSeverity|undefined> {
+    const configured: Record<string, string> = vscode.workspace.getConfiguration(configSection).get('diagnostics') || {};
+    const result: Map<DiagnosticCategory, vscode.DiagnosticSeverity|undefined> = new Map<DiagnosticCategory, vscode.DiagnosticSeverity|undefined>();
+    (Object.keys(defaultSeverities) as Array<DiagnosticCategory>).forEach((category: DiagnosticCategory) => {
+        const severity: string = configured[category] || defaultSeverities[category];
+        result.set(category, severities[severity]);
+    });
+    return result;
+}
+
+/*
+    Collect the IDs of the loaded objects, for every type the user has enabled
+*/
+export function buildDiagnosticContext(techniques: Array<Technique>, tactics: Array<Tactic>, groups: Array<Group>, software: Array<Software>, mitigations: Array<Mitigation>, dataSources: Array<AttackDataSource> = [], campaigns: Array<Campaign> = []): DiagnosticContext {
+    const configuration: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration(configSection);
+    const checks: Array<IdCheck> = new Array<IdCheck>();
+    const addCheck = (setting: string, kind: string, regex: RegExp, objects: Array<AttackDataSource|Campaign|Group|Mitigation|Software|Tactic|Technique>): void => {
+        // without any data, every ID would look like a typo
+        if (!configuration.get(setting) || objects.length === 0) { return; }
+        const byId: Map<string, AttackDataSource|Campaign|Group|Mitigation|Software|Tactic|Technique> = new Map<string, AttackDataSource|Campaign|Group|Mitigation|Software|Tactic|Technique>();
+        objects.forEach((obj: AttackDataSource|Campaign|Group|Mitigation|Software|Tactic|Technique) => { byId.set(obj.id, obj); });
+        checks.push({ kind: kind, objects: byId, regex: new RegExp(regex.source, 'g') });
+    };
+    addCheck('techniques', 'technique', techniqueRegex, techniques);
+    addCheck('tactics', 'tactic', tacticRegex, tactics);
+    addCheck('groups', 'group', groupRegex, groups);
+    addCheck('software', 'software', softwareRegex, software);
+    addCheck('mitigations', 'mitigation', mitigationRegex, mitigations);
+    addCheck('dataSources', 'data source', dataSourceRegex, dataSources);
+    addCheck('campaigns', 'campaign', campaignRegex, campaigns);
+    return {
+        checks: checks,
+        severities: getSeverities(),
+        techniquesById: indexBy(techniques, (t: Technique) => { return [t.id]; }),
+    };
+}
+
+/*
+    Check whether a match is a whole ID, rather than part of a longer ID (e.g. 'RC-T1086'), a number or a URL
+*/
+export function isWholeId(line: string, start: number, end: number): boolean {
+    const before: string = start > 0 ? line.charAt(start - 1) : '';
+    const after: string = line.substr(end, 2);
+    return !/[\w\-/]/.test(before) && !/^\w/.test(after) && !/^[./]\d/.test(after);
+}
+
+/*
+    Build a diagnostic for an ID, unless its category is turned off
+*/
+function buildDiagnostic(context: DiagnosticContext, category: DiagnosticCategory, range: vscode.Range, message: string): vscode.Diagnostic|undefined {
+    const severity: vscode.DiagnosticSeverity|undefined = context.severities.get(category);
+    if (severity === undefined) { return undefined; }
+    const diagnostic: vscode.Diagnostic = new vscode.Diagnostic(range, message, severity);
+    diagnostic.code = category;
+    diagnostic.source = diagnosticSource;
+    if (category === 'revoked' || category === 'deprecated') { diagnostic.tags = [vscode.DiagnosticTag.Deprecated]; }
+    return diagnostic;
+}
+
+/*
+    Check a technique ID that exists in the loaded data for revocations, deprecations, the platform scope and the T1059/001 notation
+*/
+function checkTechnique(context: DiagnosticContext, id: string, text: string, range: vscode.Range): Array<vscode.Diagnostic|undefined> {
+    const techniques: Array<Technique> = context.techniquesById.get(id) || new Array<Technique>();
+    const current: Technique|undefined = techniques.find((t: Technique) => { return !t.revoked; });
+    const result: Array<vscode.Diagnostic|undefined> = new Array<vscode.Diagnostic|undefined>();
+    if (current === undefined) {
+        const replacement: Technique|undefined = getReplacement(techniques[0], context.techniquesById);
+        const suggestion: string = replacement !== undefined ? `. Use ${replacement.id} (${replacement.name}) instead` : '';
+        result.push(buildDiagnostic(context, 'revoked', range, `${text} (${techniques[0].name}) has been revoked${suggestion}`));
+    }
+    else if (current.deprecated) {
+        result.push(buildDiagnostic(context, 'deprecated', range, `${text} (${current.name}) has been deprecated`));
+    }
+    if (current !== undefined && !isInPlatformScope(current)) {
+        result.push(buildDiagnostic(context, 'outOfScope', range, `${text} (${current.name}) does not apply to ${platforms.join(', ')}`));
+    }
+    if (text.includes('/')) {
+        result.push(buildDiagnostic(context, 'slashNotation', range, `${text} is usually written as ${id}`));
+    }
+    return result;
+}
+
+/*
+    Find every whole ATT&CK ID on a line of text, for the types that are checked
+*/
+export function findIds(line: string, context: DiagnosticContext): Array<FoundId> {
+    const result: Array<FoundId> = new Array<FoundId>();
+    context.checks.forEach((check: IdCheck) => {
+        check.regex.lastIndex = 0;
+        let match: RegExpExecArray|null = null;
+        while ((match = check.regex.exec(line)) !== null) {
+            // a custom pattern that matches nothing would otherwise never move on
+            if (match[0].length === 0) { check.regex.lastIndex++; continue; }
+            const end: number = match.index + match[0].length;
+            if (!isWholeId(line, match.index, end)) { continue; }
+            // T1059/001 is a common way to write T1059.001
+            const normalized: string = check.kind === 'technique' ? match[0].replace('/', '.') : match[0];
+            result.push({ check: check, end: end, id: match[0], normalized: normalized, start: match.index });
+        }
+    });
+    return result;
+}
+
+/*
+    Find every revoked, deprecated, unknown or unusually written ATT&CK ID in a document
+*/
+export function findDiagnostics(document: vscode.TextDocument, context: DiagnosticContext): Array<vscode.Diagnostic> {
+    let result: Array<vscode.Diagnostic|undefined> = new Array<vscode.Diagnostic|undefined>();
+    for (let lineNumber = 0; lineNumber < document.lineCount; lineNumber++) {
+        findIds(document.lineAt(lineNumber).text, context).forEach((found: FoundId) => {
+            const range: vscode.Range = new vscode.Range(lineNumber, found.start, lineNumber, found.end);
+            if (!found.check.objects.has(found.normalized)) {
+                result.push(buildDiagnostic(context, 'unknown', range, `${found.id} is not a known ATT&CK ${found.check.kind}`));
+            }
+            else if (found.check.kind === 'technique') {
+                result = result.concat(checkTechnique(context, found.normalized, found.id, range));
+            }
+        });
+    }
+    return result.filter((diagnostic: vscode.Diagnostic|undefined) => { return diagnostic !== undefined; }) as Array<vscode.Diagnostic>;
+}
+
+/*
+    Keep the diagnostics of every open applicable document up to date as it is edited
+*/
+export function register(filters: vscode.DocumentSelector, techniques: Array<Technique>, tactics: Array<Tactic>, groups: Array<Group>, software: Array<Software>, mitigations: Array<Mitigation>, dataSources: Array<AttackDataSource>, campaigns: Array<Campaign>): Array<vscode.Disposable> {
+    const context: DiagnosticContext = buildDiagnosticContext(techniques, tactics, groups, software, mitigations, dataSources, campaigns);
+    const collection: vscode.DiagnosticCollection = vscode.languages.createDiagnosticCollection('attack');
+    const timers: Map<string, NodeJS.Timeout> = new Map<string, NodeJS.Timeout>();
+    const update = (document: vscode.TextDocument): void => {
+        if (vscode.languages.match(filters, document) === 0) { return; }
+        collection.set(document.uri, findDiagnostics(document, context));
+    };
+    const cancelUpdate = (document: vscode.TextDocument): void => {
+        const timer: NodeJS.Timeout|undefined = timers.get(document.uri.toString());
+        if (timer !== undefined) { clearTimeout(timer); }
+        timers.delete(document.uri.toString());
+    };
+    vscode.workspace.textDocuments.forEach(update);
+    const disposables: Array<vscode.Disposable> = [
+        collection,
+        vscode.workspace.onDidOpenTextDocument(update),
+        vscode.workspace.onDidChangeTextDocument((e: vscode.TextDocumentChangeEvent) => {
+            cancelUpdate(e.document);
+            timers.set(e.document.uri.toString(), setTimeout(() => {
+                timers.delete(e.document.uri.toString());
+                update(e.document);
+            }, updateDelay));
+        }),
+        vscode.workspace.onDidCloseTextDocument((document: vscode.TextDocument) => {
+            cancelUpdate(document);
+            collection.delete(document.uri);
+        }),
+        { dispose: () => { timers.forEach((timer: NodeJS.Timeout) => { clearTimeout(timer); }); } },
+    ];
+    if (debug) { log(`Registered diagnostics for ${context.checks.map<string>((c: IdCheck) => { return c.kind; }).join(', ')} IDs`); }
+    return disposables;
+}
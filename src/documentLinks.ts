@@ -0,0 +1,61 @@
+import * as vscode from 'vscode';
+import { configSection, debug } from './configuration';
+import { DiagnosticCategory, DiagnosticContext, FoundId, buildDiagnosticContext, findIds } from './diagnostics';
+import { log } from './helpers';
+
+export type LinkTarget = 'off'|'panel'|'version'|'website';
+const siteUrl = 'https://attack.mitre.org/';
+
+/*
+    Point an ATT&CK site URL at the archived copy of the site for a version, e.g. 'https://attack.mitre.org/versions/v8/techniques/T1059'
+    ... URLs of custom objects and versions that aren't numbers (e.g. 'local') are left alone
+*/
+export function getVersionedUrl(url: string, version: string|undefined): string {
+    const major: RegExpExecArray|null = version !== undefined ? /^(\d+)(?:\.|$)/.exec(version) : null;
+    if (major === null || !url.startsWith(siteUrl)) { return url; }
+    return `${siteUrl}versions/v${major[1]}/${url.substring(siteUrl.length)}`;
+}
+
+export class AttackDocumentLinkProvider implements vscode.DocumentLinkProvider {
+    public context: DiagnosticContext = { checks: [], severities: new Map<DiagnosticCategory, vscode.DiagnosticSeverity|undefined>(), techniquesById: new Map<string, Array<Technique>>() };
+    public target: LinkTarget = 'website';
+    // the ATT&CK version of the loaded data, for version-pinned links
+    public version: string|undefined = undefined;
+
+    public provideDocumentLinks(document: vscode.TextDocument, token: vscode.CancellationToken): Array<vscode.DocumentLink> {
+        const links: Array<vscode.DocumentLink> = new Array<vscode.DocumentLink>();
+        for (let lineNumber = 0; lineNumber < document.lineCount && !token.isCancellationRequested; lineNumber++) {
+            findIds(document.lineAt(lineNumber).text, this.context).forEach((found: FoundId) => {
+                const obj: AttackDataSource|Campaign|Group|Mitigation|Software|Tactic|Technique|undefined = found.check.objects.get(found.normalized);
+                if (obj === undefined) { return; }
+                const link: vscode.DocumentLink = new vscode.DocumentLink(new vscode.Range(lineNumber, found.start, lineNumber, found.end), this.getTarget(found.check.kind, obj));
+                link.tooltip = `${obj.id} ${obj.name}`;
+                links.push(link);
+            });
+        }
+        return links;
+    }
+
+    /*
+        Work out where a link to an object should go, according to the linkTarget setting
+    */
+    private getTarget(kind: string, obj: AttackDataSource|Campaign|Group|Mitigation|Software|Tactic|Technique): vscode.Uri {
+        // only techniques have a detail panel, and it can't be opened from untrusted workspaces
+        if (this.target === 'panel' && kind === 'technique' && vscode.workspace.isTrusted) {
+            return vscode.Uri.parse(`command:vscode-attack.showTechnique?${encodeURIComponent(JSON.stringify([obj.id]))}`);
+        }
+        if (this.target === 'version') { return vscode.Uri.parse(getVersionedUrl(obj.url, this.version)); }
+        return vscode.Uri.parse(obj.url);
+    }
+}
+
+export function register(filters: vscode.DocumentSelector, techniques: Array<Technique>, tactics: Array<Tactic>, groups: Array<Group>, software: Array<Software>, mitigations: Array<Mitigation>, dataSources: Array<AttackDataSource>, campaigns: Array<Campaign>, version: string|undefined): Array<vscode.Disposable> {
+    const target: LinkTarget = vscode.workspace.getConfiguration(configSection).get('linkTarget') || 'website';
+    if (target === 'off') { return []; }
+    if (debug) { log(`Registering document links to the ${target}`); }
+    const documentLinks: AttackDocumentLinkProvider = new AttackDocumentLinkProvider();
+    documentLinks.context = buildDiagnosticContext(techniques, tactics, groups, software, mitigations, dataSources, campaigns);
+    documentLinks.target = target;
+    documentLinks.version = version;
+    return [vscode.languages.registerDocumentLinkProvider(filters, documentLinks)];
+}
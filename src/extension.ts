@@ -1,18 +1,37 @@
-import { StringDecoder } from 'string_decoder';
 import * as vscode from 'vscode';
-import { configSection, debug, setCompletionItemFormat, setDebugLogState } from './configuration';
+import { configSection, debug, platforms, setAdditionalDomains, setCompletionItemFormat, setCustomIdPatterns, setDebugLogState, setPlatforms } from './configuration';
+import { init as initCampaigns, register as registerCampaigns } from './campaigns';
+import { register as registerCodeActions } from './codeActions';
+import { init as initDataSources, register as registerDataSources } from './dataSources';
+import { register as registerDiagnostics } from './diagnostics';
+import { register as registerDocumentLinks } from './documentLinks';
 import { log } from './helpers';
 import * as helpers from './helpers';
 import { init as initGroups, register as registerGroups } from './groups';
 import { init as initMitigations, register as registerMitigations } from './mitigations';
+import { getMitigatedTechniques, getRelated, getRevokedBy, getTechniquesUsedBy, init as initRelationships, relationshipGraph } from './relationships';
 import { init as initSoftware, register as registerSoftware } from './software';
 import { init as initTactics, register as registerTactics } from './tactics';
 import { init as initTechniques, register as registerTechniques } from './techniques';
-import { search } from './search';
-import { insertLink } from './insertLink';
+import { search, showTechnique } from './search';
+import { LinkFormatter, insertLink, registerLinkFormatter } from './insertLink';
+import { linkAll } from './linkAll';
+import { setHttpCacheLocation } from './network';
+import { downloadTaxiiCollection, getCachedTaxiiCollection } from './taxii';
+import { selectVersion } from './versions';
+import { manageCache } from './cache';
+import { compareVersionsCommand } from './compare';
+import { releaseImpactCommand } from './impact';
+import { migrateRevokedTechniques } from './migrate';
+import { selectPlatforms } from './platforms';
 
 // track the providers we have so we can recreate them in case applicableFiles gets updated or they get toggled
 const Providers = {
+    campaigns: new Array<vscode.Disposable>(),
+    codeActions: new Array<vscode.Disposable>(),
+    dataSources: new Array<vscode.Disposable>(),
+    diagnostics: new Array<vscode.Disposable>(),
+    documentLinks: new Array<vscode.Disposable>(),
     groups: new Array<vscode.Disposable>(),
     mitigations: new Array<vscode.Disposable>(),
     software: new Array<vscode.Disposable>(),
@@ -21,6 +40,11 @@ const Providers = {
     disposeAll: function (): void {
         // dispose of all providers at once
         if (debug) { log('Disposing of all providers'); }
+        this.campaigns.forEach((d: vscode.Disposable) => { d.dispose(); });
+        this.codeActions.forEach((d: vscode.Disposable) => { d.dispose(); });
+        this.dataSources.forEach((d: vscode.Disposable) => { d.dispose(); });
+        this.diagnostics.forEach((d: vscode.Disposable) => { d.dispose(); });
+        this.documentLinks.forEach((d: vscode.Disposable) => { d.dispose(); });
         this.groups.forEach((d: vscode.Disposable) => { d.dispose(); });
         this.mitigations.forEach((d: vscode.Disposable) => { d.dispose(); });
         this.software.forEach((d: vscode.Disposable) => { d.dispose(); });
@@ -31,6 +55,11 @@ const Providers = {
         // push all providers to the given list
         // ... should be used to push into the extension's context
         if (debug) { log('Building list of all providers'); }
+        this.campaigns.forEach((d: vscode.Disposable) => { list.push(d); });
+        this.codeActions.forEach((d: vscode.Disposable) => { list.push(d); });
+        this.dataSources.forEach((d: vscode.Disposable) => { list.push(d); });
+        this.diagnostics.forEach((d: vscode.Disposable) => { list.push(d); });
+        this.documentLinks.forEach((d: vscode.Disposable) => { list.push(d); });
         this.groups.forEach((d: vscode.Disposable) => { list.push(d); });
         this.mitigations.forEach((d: vscode.Disposable) => { list.push(d); });
         this.software.forEach((d: vscode.Disposable) => { list.push(d); });
@@ -40,52 +69,275 @@ const Providers = {
 };
 const currentProviders = Object.create(Providers);
 
+// where the currently loaded ATT&CK data came from, so it can be surfaced to the user
+export let currentDataSource: DataSource|undefined = undefined;
+
+/*
+    Load the ATT&CK map from the user's local data source and keep a copy of it in the extension cache
+    If the local file cannot be used, fall back to the last copy that was cached from it
+*/
+async function loadLocalData(storageUri: vscode.Uri, source: string): Promise<AttackMap|undefined> {
+    const localCacheDir: vscode.Uri = vscode.Uri.joinPath(storageUri, 'local');
+    const localCachePath: vscode.Uri = vscode.Uri.joinPath(localCacheDir, 'enterprise-attack.json');
+    let result: AttackMap|undefined = undefined;
+    const sourceUri: vscode.Uri|undefined = helpers.resolveDataSourcePath(source);
+    if (sourceUri !== undefined) {
+        log(`Loading MITRE ATT&CK mapping from local data source '${sourceUri}'`);
+        result = await helpers.readAttackMap(sourceUri);
+    }
+    if (result !== undefined && sourceUri !== undefined) {
+        await vscode.workspace.fs.createDirectory(localCacheDir);
+        try {
+            await vscode.workspace.fs.copy(sourceUri, localCachePath, {overwrite: true});
+            if (debug) { log(`Cached local data source @ '${localCachePath}'`); }
+        } catch (err) {
+            log(`Could not cache local data source: ${err}`);
+        }
+        currentDataSource = { kind: 'local', location: sourceUri.fsPath, version: helpers.getAttackVersion(result) || 'local' };
+    }
+    else {
+        log(`Could not load local data source '${source}'. Falling back to the last cached copy.`);
+        vscode.window.showWarningMessage(`ATT&CK: Could not load ATT&CK data from '${source}'. Falling back to the last cached copy.`);
+        result = await helpers.readAttackMap(localCachePath);
+        if (result !== undefined) {
+            currentDataSource = { kind: 'cache', location: localCachePath.fsPath, version: helpers.getAttackVersion(result) || 'local' };
+        }
+    }
+    return result;
+}
+
+/*
+    Load a collection from a TAXII 2.1 server, which keeps its own cache for incremental updates
+    Offline loads only use that cache, without asking the server for new objects
+*/
+async function loadTaxiiData(storageUri: vscode.Uri, server: string, collection: string, offline: boolean): Promise<AttackMap|undefined> {
+    if (offline) {
+        const cached: AttackMap|undefined = await getCachedTaxiiCollection(storageUri, collection);
+        if (cached !== undefined) {
+            log(`Using cached TAXII collection '${collection}' from '${server}'`);
+            currentDataSource = { kind: 'cache', location: vscode.Uri.joinPath(storageUri, 'taxii').fsPath, version: helpers.getAttackVersion(cached) || 'taxii' };
+        }
+        return cached;
+    }
+    log(`Loading MITRE ATT&CK mapping from TAXII collection '${collection}' @ '${server}'`);
+    const result: {data: AttackMap, cached: boolean}|undefined = await downloadTaxiiCollection(storageUri, server, collection);
+    if (result === undefined) {
+        vscode.window.showErrorMessage(`ATT&CK: Could not load ATT&CK data from TAXII collection '${collection}' @ '${server}'.`);
+        return undefined;
+    }
+    // an unreachable server leaves us with the cached copy, which should not be passed off as fresh data
+    const location: string = result.cached ? vscode.Uri.joinPath(storageUri, 'taxii').fsPath : server;
+    currentDataSource = { kind: result.cached ? 'cache' : 'taxii', location: location, version: helpers.getAttackVersion(result.data) || 'taxii' };
+    return result.data;
+}
+
+/*
+    Load a specific ATT&CK version, preferring the cache and only downloading it when it has not been cached yet
+*/
+async function loadPinnedVersion(storageUri: vscode.Uri, version: string, offline: boolean): Promise<AttackMap|undefined> {
+    let result: AttackMap|undefined = undefined;
+    const cachedPath: vscode.Uri = helpers.getCachePath(storageUri, version);
+    const cachedVersions: Array<string> = await helpers.getCachedVersions(storageUri);
+    if (cachedVersions.includes(version)) {
+        log(`Using pinned ATT&CK version ${version} from cache`);
+        result = await helpers.readCachedAttackMap(storageUri, cachedPath);
+        if (result !== undefined) { currentDataSource = { kind: 'cache', location: cachedPath.fsPath, version: version }; }
+    }
+    if (result === undefined && offline) {
+        return undefined;
+    }
+    // a corrupt copy has been quarantined by now, so download the version again
+    if (result === undefined) {
+        log(`Pinned ATT&CK version ${version} is not cached or could not be read. Downloading it`);
+        try {
+            const downloadedData: string = await helpers.downloadAttackMap(storageUri, version);
+            if (downloadedData.length > 0) {
+                result = JSON.parse(downloadedData) as AttackMap;
+                currentDataSource = { kind: 'download', location: cachedPath.fsPath, version: version };
+            }
+        } catch (err) {
+            log(`Could not download pinned ATT&CK version ${version}: ${err}`);
+        }
+    }
+    if (result === undefined) {
+        vscode.window.showErrorMessage(`ATT&CK: Could not load pinned ATT&CK version ${version}. Use 'ATT&CK: Select Version' to choose another one.`);
+    }
+    return result;
+}
+
+/*
+    Load the ATT&CK map of a non-Enterprise domain for the same version as the Enterprise data
+*/
+async function loadDomainData(storageUri: vscode.Uri, domain: string, version: string, offline: boolean): Promise<AttackMap|undefined> {
+    let result: AttackMap|undefined = undefined;
+    const cachedVersions: Array<string> = await helpers.getCachedVersions(storageUri, domain);
+    if (cachedVersions.includes(version)) {
+        if (debug) { log(`Using cached ${helpers.domainNames[domain]} ATT&CK v${version}`); }
+        result = await helpers.readCachedAttackMap(storageUri, helpers.getCachePath(storageUri, version, domain));
+    }
+    if (result === undefined && !offline) {
+        log(`Downloading ${helpers.domainNames[domain]} ATT&CK v${version}`);
+        try {
+            result = JSON.parse(await helpers.downloadAttackMap(storageUri, version, domain)) as AttackMap;
+        } catch (err) {
+            log(`Could not download ${helpers.domainNames[domain]} ATT&CK v${version}: ${err}`);
+        }
+    }
+    if (result === undefined) {
+        vscode.window.showWarningMessage(`ATT&CK: Could not load ${helpers.domainNames[domain]} ATT&CK v${version}. Only the remaining domains will be available.`);
+    }
+    return result;
+}
+
+/*
+    Check the given extension context's global storage for the ATT&CK maps of every enabled domain
+    Retrieve the files if they exist or update the cache with data from GitHub if they cannot be found
+    Offline loads only use what has been cached, so they can be used without waiting on the network
+*/
+export async function cacheData(storageUri: vscode.Uri, offline = false): Promise<AttackMap|undefined> {
+    const configuration: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration(configSection);
+    const enterpriseData: AttackMap|undefined = await cacheEnterpriseData(storageUri, offline);
+    const domains: Array<string> = configuration.get('additionalDomains') || [];
+    if (enterpriseData === undefined || currentDataSource === undefined || domains.length === 0) {
+        return enterpriseData;
+    }
+    // additional domains follow whichever Enterprise version was loaded, so everything comes from the same release
+    const dataSource: string = configuration.get('dataSource') || '';
+    const taxiiServer: string = configuration.get('taxiiServer') || '';
+    const domainMaps: Map<string, AttackMap> = new Map<string, AttackMap>([[helpers.defaultDomain, enterpriseData]]);
+    for (const domain of domains.filter((d: string) => { return d !== helpers.defaultDomain; })) {
+        let domainData: AttackMap|undefined = undefined;
+        if (dataSource.trim().length === 0 && taxiiServer.trim().length > 0) {
+            // MITRE publishes each domain as its own collection (e.g. 'Mobile ATT&CK')
+            const collection = `${helpers.domainNames[domain]} ATT&CK`;
+            if (offline) { domainData = await getCachedTaxiiCollection(storageUri, collection); }
+            else {
+                const result: {data: AttackMap, cached: boolean}|undefined = await downloadTaxiiCollection(storageUri, taxiiServer.trim(), collection);
+                domainData = result !== undefined ? result.data : undefined;
+            }
+            if (domainData === undefined) {
+                vscode.window.showWarningMessage(`ATT&CK: Could not load TAXII collection '${collection}'. Only the remaining domains will be available.`);
+            }
+        }
+        else {
+            domainData = await loadDomainData(storageUri, domain, currentDataSource.version, offline || dataSource.trim().length > 0);
+        }
+        if (domainData !== undefined) { domainMaps.set(domain, domainData); }
+        else {
+            // the missing domain is worth downloading again, even if no new release comes out
+            latestRelease = undefined;
+        }
+    }
+    return helpers.mergeAttackMaps(domainMaps);
+}
+
 /*
-    Check the given extension context's global storage for the file with name 'filename'
-    Retrieve the file if it exists or update the cache with data from the provided URL if the file cannot be found
+    Check the given extension context's global storage for the Enterprise ATT&CK map
+    Retrieve the file if it exists or update the cache with data from GitHub if the file cannot be found
 */
-export async function cacheData(storageUri: vscode.Uri): Promise<AttackMap|undefined> {
+async function cacheEnterpriseData(storageUri: vscode.Uri, offline: boolean): Promise<AttackMap|undefined> {
     let result: AttackMap|undefined = undefined;
+    currentDataSource = undefined;
+    latestRelease = undefined;
     log('Checking extension cache for MITRE ATT&CK mapping.');
     // TODO: Figure out if this will be skipped when storageUri exists
     await vscode.workspace.fs.createDirectory(storageUri);
-    const cachedPath: vscode.Uri|undefined = await helpers.getLatestCacheVersion(storageUri);
-    if (cachedPath === undefined) {
-        // no files found - download the latest version from GitHub
+    // air-gapped machines can point us at a local bundle, in which case no network calls should be made
+    const dataSource: string|undefined = vscode.workspace.getConfiguration(configSection).get('dataSource');
+    if (dataSource !== undefined && dataSource.trim().length > 0) {
+        return loadLocalData(storageUri, dataSource.trim());
+    }
+    // TAXII servers (MITRE's or an internal mirror) replace GitHub as the source of the latest data
+    const taxiiServer: string|undefined = vscode.workspace.getConfiguration(configSection).get('taxiiServer');
+    if (taxiiServer !== undefined && taxiiServer.trim().length > 0) {
+        const collection: string = vscode.workspace.getConfiguration(configSection).get('taxiiCollection') || 'Enterprise ATT&CK';
+        return loadTaxiiData(storageUri, taxiiServer.trim(), collection, offline);
+    }
+    // detection content written against a specific release can pin the workspace to it
+    const pinnedVersion: string|undefined = vscode.workspace.getConfiguration(configSection).get('version');
+    if (pinnedVersion !== undefined && pinnedVersion.trim().length > 0) {
+        return loadPinnedVersion(storageUri, pinnedVersion.trim(), offline);
+    }
+    // corrupt cache files are quarantined here, so this is the newest version that can actually be used
+    const cached = await helpers.readLatestCachedAttackMap(storageUri);
+    if (offline) {
+        // the version check is left to the background refresh
+        if (cached !== undefined) {
+            log(`Using cached ATT&CK version ${cached.version}`);
+            currentDataSource = { kind: 'cache', location: cached.path.fsPath, version: cached.version };
+        }
+        return cached !== undefined ? cached.data : undefined;
+    }
+    if (cached === undefined) {
+        // no usable files found - download the latest version from GitHub
         log('Nothing found in extension cache. Downloading latest version of MITRE ATT&CK mapping');
         result = await helpers.downloadLatestAttackMap(storageUri);
+        if (result !== undefined) { currentDataSource = await describeCachedSource(storageUri, 'download'); }
     }
     else {
-        if (debug) { log(`Using cache path: ${cachedPath}`); }
+        if (debug) { log(`Using cache path: ${cached.path}`); }
         // files found - compare the cached version to the newest version on GitHub
         // Example: enterprise-attack.8.0.json => 8.0
-        const cachedVersion = helpers.extractAttackVersion(cachedPath);
+        const cachedVersion: string = cached.version;
         if (debug) { log(`Cached version: ${cachedVersion}`); }
         try {
             const availableVersions: Array<string> = await helpers.getVersions();
-            const onlineVersion = `${availableVersions.sort()[availableVersions.length - 1]}`;
+            const onlineVersion = `${helpers.getLatestVersion(availableVersions)}`;
             if (debug) { log(`Online version: ${onlineVersion}`); }
-            if (cachedVersion < onlineVersion) {
+            if (helpers.compareVersions(cachedVersion, onlineVersion) < 0) {
                 // if online version is newer than the cached one, download and use the online version
-                vscode.window.showInformationMessage('ATT&CK: Identified a new version of the ATT&CK mapping! Replacing cached version.');
                 log(`Identified a new version of the ATT&CK mapping! Replacing cached map (${cachedVersion}) with downloaded map (${onlineVersion})`);
                 result = await helpers.downloadLatestAttackMap(storageUri);
+                if (result !== undefined) {
+                    currentDataSource = await describeCachedSource(storageUri, 'download');
+                    latestRelease = onlineVersion;
+                    offerImpactReport(cachedVersion, onlineVersion);
+                }
             }
             else {
                 // otherwise just use the cached one
                 log(`Nothing to do. Cached version is on latest ATT&CK version ${onlineVersion}`);
-                const contents: Uint8Array = await vscode.workspace.fs.readFile(cachedPath);
-                result = JSON.parse(new StringDecoder('utf8').end(Buffer.from(contents))) as AttackMap;
+                latestRelease = onlineVersion;
             }
         } catch (error) {
             log(`Could not download ATT&CK version from GitHub. Falling back to cached version ${cachedVersion}.`);
-            const contents: Uint8Array = await vscode.workspace.fs.readFile(cachedPath);
-            result = JSON.parse(new StringDecoder('utf8').end(Buffer.from(contents))) as AttackMap;
+        }
+        // a failed or unusable download should not take away the data we already have
+        if (result === undefined) {
+            result = cached.data;
+            currentDataSource = { kind: 'cache', location: cached.path.fsPath, version: cachedVersion };
         }
     }
     return result;
 }
 
+/*
+    Let the user know about a new release, offering to show which workspace files it affects
+*/
+function offerImpactReport(oldVersion: string, newVersion: string): void {
+    const message = `ATT&CK: Identified a new version of the ATT&CK mapping! Replaced cached v${oldVersion} with v${newVersion}.`;
+    if (vscode.workspace.workspaceFolders === undefined) {
+        vscode.window.showInformationMessage(message);
+        return;
+    }
+    const showReport = 'Show Affected Files';
+    vscode.window.showInformationMessage(message, showReport).then((selection: string|undefined) => {
+        if (selection === showReport) { vscode.commands.executeCommand('vscode-attack.releaseImpact', oldVersion, newVersion); }
+    });
+}
+
+/*
+    Describe the newest map in the cache directory as the current data source
+*/
+async function describeCachedSource(storageUri: vscode.Uri, kind: 'cache'|'download'): Promise<DataSource|undefined> {
+    let result: DataSource|undefined = undefined;
+    const cachedPath: vscode.Uri|undefined = await helpers.getLatestCacheVersion(storageUri);
+    if (cachedPath !== undefined) {
+        result = { kind: kind, location: cachedPath.fsPath, version: helpers.extractAttackVersion(cachedPath) };
+    }
+    return result;
+}
+
 /*
     Define rules for when to show status bar to the user
 */
@@ -100,29 +352,96 @@ function toggleStatusBar(statusBarItem: vscode.StatusBarItem, editor: vscode.Tex
 }
 
 /*
-    Create a status bar item that will display the current version of ATT&CK in use
+    Create a status bar item that will display the current version of ATT&CK in use and where it came from
+    Clicking it lets the user pick a different version
 */
-async function createStatusBar(storageUri: vscode.Uri): Promise<vscode.StatusBarItem|undefined> {
-    let statusBarItem: vscode.StatusBarItem|undefined = undefined;
-    const cachedPath: vscode.Uri|undefined = await helpers.getLatestCacheVersion(storageUri);
-    if (cachedPath !== undefined) {
-        const version: string = helpers.extractAttackVersion(cachedPath);
-        const itemText = `ATT&CK v${version}`;
-        statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right);
-        statusBarItem.accessibilityInformation = {label: itemText};
+function createStatusBar(): vscode.StatusBarItem {
+    const statusBarItem: vscode.StatusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right);
+    statusBarItem.command = 'vscode-attack.selectVersion';
+    // set a callback for when the user changes the current editor
+    vscode.window.onDidChangeActiveTextEditor((editor: vscode.TextEditor|undefined) => {
+        toggleStatusBar(statusBarItem, editor);
+    });
+    return statusBarItem;
+}
+
+/*
+    Refresh the status bar item text to reflect the given data source
+*/
+function updateStatusBar(statusBarItem: vscode.StatusBarItem, dataSource: DataSource|undefined): void {
+    if (dataSource === undefined) {
+        statusBarItem.text = 'ATT&CK: No data';
+        statusBarItem.tooltip = 'No ATT&CK data could be loaded. Click to select a version';
+    }
+    else {
+        const pinned: boolean = (vscode.workspace.getConfiguration(configSection).get('version') || '') !== '';
+        let itemText = `ATT&CK v${dataSource.version}`;
+        if (dataSource.kind === 'local') { itemText += ' (local)'; }
+        else if (dataSource.kind === 'taxii') { itemText += ' (TAXII)'; }
+        else if (pinned) { itemText = `$(pinned) ${itemText}`; }
         statusBarItem.text = itemText;
-        // set a callback for when the user changes the current editor
-        vscode.window.onDidChangeActiveTextEditor((editor: vscode.TextEditor|undefined) => {
-            if (statusBarItem !== undefined) { toggleStatusBar(statusBarItem, editor); }
-        });
+        statusBarItem.tooltip = `${describeDataSource(dataSource)}\nClick to select a different version`;
     }
-    return statusBarItem;
+    statusBarItem.accessibilityInformation = {label: statusBarItem.text.replace('$(pinned) ', 'pinned ')};
+}
+
+/*
+    Only show the platform scope while techniques are actually scoped to some platforms
+*/
+function togglePlatformStatusBar(platformItem: vscode.StatusBarItem, editor: vscode.TextEditor|undefined): void {
+    if (platforms.length === 0) { platformItem.hide(); }
+    else { toggleStatusBar(platformItem, editor); }
+}
+
+/*
+    Create a status bar item that will display the platforms techniques are scoped to
+    Clicking it lets the user pick different platforms
+*/
+function createPlatformStatusBar(): vscode.StatusBarItem {
+    const platformItem: vscode.StatusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right);
+    platformItem.command = 'vscode-attack.selectPlatforms';
+    vscode.window.onDidChangeActiveTextEditor((editor: vscode.TextEditor|undefined) => {
+        togglePlatformStatusBar(platformItem, editor);
+    });
+    return platformItem;
+}
+
+/*
+    Refresh the platform status bar item text to reflect the platforms setting
+*/
+function updatePlatformStatusBar(platformItem: vscode.StatusBarItem): void {
+    platformItem.text = `$(filter) ${platforms.join(', ')}`;
+    platformItem.tooltip = `Techniques that do not apply to ${platforms.join(', ')} are sorted last and marked\nClick to select different platforms`;
+    platformItem.accessibilityInformation = {label: `ATT&CK platforms: ${platforms.join(', ')}`};
+    togglePlatformStatusBar(platformItem, vscode.window.activeTextEditor);
+}
+
+/*
+    Summarize where the ATT&CK data came from in a human-readable way
+*/
+export function describeDataSource(dataSource: DataSource): string {
+    let description = '';
+    switch (dataSource.kind) {
+        case 'local':
+            description = `ATT&CK v${dataSource.version} loaded from local data source: ${dataSource.location}`;
+            break;
+        case 'download':
+            description = `ATT&CK v${dataSource.version} downloaded from GitHub and cached at: ${dataSource.location}`;
+            break;
+        case 'taxii':
+            description = `ATT&CK v${dataSource.version} retrieved from TAXII server: ${dataSource.location}`;
+            break;
+        case 'cache':
+            description = `ATT&CK v${dataSource.version} loaded from cache: ${dataSource.location}`;
+            break;
+    }
+    return description;
 }
 
 /*
     Check settings, determine which files this extension should apply to, and regenerate extension features
 */
-export function registerFeatures(techniques: Array<Technique>, tactics: Array<Tactic>, groups: Array<Group>, software: Array<Software>, mitigations: Array<Mitigation>): void {
+export function registerFeatures(techniques: Array<Technique>, tactics: Array<Tactic>, groups: Array<Group>, software: Array<Software>, mitigations: Array<Mitigation>, dataSources: Array<AttackDataSource>, campaigns: Array<Campaign>): void {
     // TODO: Find a way to check if this array has not been changed since the last time and skip this step
     const configuration: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration(configSection);
     const applicableFiles: vscode.DocumentSelector|undefined = configuration.get('applicableFiles');
@@ -131,11 +450,17 @@ export function registerFeatures(techniques: Array<Technique>, tactics: Array<Ta
         // first destroy the providers we have already registered to avoid duplicate data
         currentProviders.disposeAll();
         // ... then re-register our features and regenerate completions
+        if (configuration.get('campaigns')) { currentProviders.campaigns = registerCampaigns(applicableFiles, campaigns); }
+        if (configuration.get('dataSources')) { currentProviders.dataSources = registerDataSources(applicableFiles, dataSources); }
         if (configuration.get('groups')) { currentProviders.groups = registerGroups(applicableFiles, groups); }
         if (configuration.get('mitigations')) { currentProviders.mitigations = registerMitigations(applicableFiles, mitigations); }
         if (configuration.get('software')) { currentProviders.software = registerSoftware(applicableFiles, software); }
         if (configuration.get('tactics')) { currentProviders.tactics = registerTactics(applicableFiles, tactics); }
         if (configuration.get('techniques')) { currentProviders.techniques = registerTechniques(applicableFiles, techniques); }
+        currentProviders.diagnostics = registerDiagnostics(applicableFiles, techniques, tactics, groups, software, mitigations, dataSources, campaigns);
+        currentProviders.codeActions = registerCodeActions(applicableFiles, techniques, tactics, groups, software, mitigations, dataSources, campaigns);
+        const version: string|undefined = currentDataSource !== undefined ? currentDataSource.version : undefined;
+        currentProviders.documentLinks = registerDocumentLinks(applicableFiles, techniques, tactics, groups, software, mitigations, dataSources, campaigns, version);
     }
     else {
         vscode.window.showWarningMessage('No applicable files set in VSCode ATT&CK Settings. Most features are unavailable until a file type is added.');
@@ -143,79 +468,393 @@ export function registerFeatures(techniques: Array<Technique>, tactics: Array<Ta
     }
 }
 
+// parsed ATT&CK data currently served to the providers and commands
+let campaigns: Array<Campaign> = new Array<Campaign>();
+let dataSources: Array<AttackDataSource> = new Array<AttackDataSource>();
+let groups: Array<Group> = new Array<Group>();
+let mitigations: Array<Mitigation> = new Array<Mitigation>();
+let software: Array<Software> = new Array<Software>();
+let tactics: Array<Tactic> = new Array<Tactic>();
+let techniques: Array<Technique> = new Array<Technique>();
+let statusBarItem: vscode.StatusBarItem|undefined = undefined;
+let platformStatusBarItem: vscode.StatusBarItem|undefined = undefined;
+// identifies the data currently served, so a refresh that finds nothing new leaves the providers alone
+let loadedDataSignature: string|undefined = undefined;
+// a refresh that is already running, so scheduled and manual refreshes do not download the same data twice
+let pendingRefresh: Promise<boolean>|undefined = undefined;
+// settles once every load queued so far has finished, so reloads and refreshes never set currentDataSource at the same time
+let loadQueue: Promise<void> = Promise.resolve();
+// the newest release on GitHub when the data served from it was loaded, so refreshes can tell there is nothing new without loading it again
+let latestRelease: string|undefined = undefined;
+let refreshTimer: NodeJS.Timeout|undefined = undefined;
+// timers overflow past 2^31 - 1 milliseconds (about 596 hours) and fire immediately, so intervals are capped at two weeks
+const maxRefreshInterval = 336;
+// settings that change which data is loaded, rather than how it is presented
+const dataSettings: Array<string> = ['additionalDomains', 'customBundles', 'customIdPatterns', 'dataSource', 'taxiiCollection', 'taxiiServer', 'version'];
+
+/*
+    Read every setting that is tracked in the configuration module
+*/
+function loadConfiguration(): void {
+    setCompletionItemFormat();
+    setDebugLogState();
+    setAdditionalDomains();
+    setCustomIdPatterns();
+    setPlatforms();
+}
+
+/*
+    Collect the objects of every custom STIX bundle the user configured (e.g. internal techniques and groups)
+    These are read on every load instead of being cached, since they are expected to change often
+*/
+async function loadCustomBundles(): Promise<Array<AttackObject>> {
+    let result: Array<AttackObject> = new Array<AttackObject>();
+    const bundles: Array<string> = vscode.workspace.getConfiguration(configSection).get('customBundles') || [];
+    for (const bundle of bundles) {
+        const bundleUri: vscode.Uri|undefined = helpers.resolveDataSourcePath(bundle);
+        const bundleData: AttackMap|undefined = bundleUri !== undefined ? await helpers.readAttackMap(bundleUri, false) : undefined;
+        if (bundleData === undefined) {
+            vscode.window.showWarningMessage(`ATT&CK: Could not load custom STIX bundle '${bundle}'.`);
+        }
+        else {
+            log(`Loaded ${bundleData.objects.length} objects from custom STIX bundle '${bundleUri}'`);
+            result = result.concat(bundleData.objects);
+        }
+    }
+    return result;
+}
+
+/*
+    Load the ATT&CK data from the cache (or wherever it comes from) and add any custom objects to it
+*/
+async function loadAttackData(storageUri: vscode.Uri, offline = false): Promise<AttackMap|undefined> {
+    const attackData: AttackMap|undefined = await cacheData(storageUri, offline);
+    if (attackData === undefined) {
+        return undefined;
+    }
+    const customObjects: Array<AttackObject> = await loadCustomBundles();
+    if (customObjects.length === 0) {
+        return attackData;
+    }
+    return { ...attackData, objects: attackData.objects.concat(customObjects) };
+}
+
+/*
+    Parse the given ATT&CK map into the data served by the extension's features
+*/
+async function parseData(attackData: AttackMap): Promise<void> {
+    // walk the objects once and hand each parser only the objects it cares about
+    const objectsByType: Map<string, Array<AttackObject>> = helpers.indexBy(attackData.objects, (obj: AttackObject) => { return [obj.type]; });
+    const ofTypes = (...types: Array<string>): AttackMap => {
+        const objects: Array<AttackObject> = types.reduce((all: Array<AttackObject>, type: string) => { return all.concat(objectsByType.get(type) || []); }, new Array<AttackObject>());
+        return { ...attackData, objects: objects };
+    };
+    campaigns = await initCampaigns(ofTypes('campaign'));
+    dataSources = await initDataSources(ofTypes('x-mitre-data-source', 'x-mitre-data-component'));
+    groups = await initGroups(ofTypes('intrusion-set'));
+    mitigations = await initMitigations(ofTypes('course-of-action'));
+    software = await initSoftware(ofTypes('malware', 'tool'));
+    tactics = await initTactics(ofTypes('x-mitre-tactic'));
+    techniques = await initTechniques(ofTypes('attack-pattern'));
+    // relationships can point at any type of object, so they need to see all of them
+    await initRelationships(attackData);
+}
+
+/*
+    Summarize the loaded data, so a refresh can tell whether anything changed
+    ... the objects themselves are hashed, since TAXII updates and edited bundles can change objects without changing their number
+*/
+function getDataSignature(attackData: AttackMap): string {
+    const location: string = currentDataSource !== undefined ? currentDataSource.location : '';
+    const version: string = currentDataSource !== undefined ? currentDataSource.version : '';
+    // 32-bit FNV-1a, since the crypto module is not available in the web extension
+    let hash = 0x811c9dc5;
+    attackData.objects.forEach((obj: AttackObject) => {
+        const text: string = JSON.stringify(obj);
+        for (let index = 0; index < text.length; index++) {
+            hash = Math.imul(hash ^ text.charCodeAt(index), 0x01000193) >>> 0;
+        }
+    });
+    return `${location}|${version}|${attackData.objects.length}|${hash.toString(16)}`;
+}
+
+/*
+    Serve the given ATT&CK data, regenerating every feature in place
+*/
+async function applyData(context: vscode.ExtensionContext, attackData: AttackMap): Promise<void> {
+    await parseData(attackData);
+    registerFeatures(techniques, tactics, groups, software, mitigations, dataSources, campaigns);
+    currentProviders.pushAll(context.subscriptions);
+    loadedDataSignature = getDataSignature(attackData);
+    if (currentDataSource !== undefined) { log(describeDataSource(currentDataSource)); }
+    if (statusBarItem !== undefined) { updateStatusBar(statusBarItem, currentDataSource); }
+}
+
+/*
+    Run a data load once every load queued before it has finished
+*/
+function queueLoad<T>(load: () => Thenable<T>): Promise<T> {
+    const result: Promise<T> = loadQueue.then(load);
+    loadQueue = result.then(() => { return; }, () => { return; });
+    return result;
+}
+
+/*
+    Load the ATT&CK data again (e.g. after the user switched versions) and regenerate every feature in place
+*/
+export async function reloadData(context: vscode.ExtensionContext): Promise<boolean> {
+    return queueLoad(() => { return vscode.window.withProgress({location: vscode.ProgressLocation.Window, title: 'ATT&CK: Loading data'}, async () => {
+        const attackData: AttackMap|undefined = await loadAttackData(context.globalStorageUri);
+        if (attackData === undefined) {
+            // keep serving whatever was loaded before
+            log('Could not reload ATT&CK data. Keeping the previously loaded data');
+            if (statusBarItem !== undefined) { updateStatusBar(statusBarItem, currentDataSource); }
+            return false;
+        }
+        await applyData(context, attackData);
+        return true;
+    }); });
+}
+
+/*
+    Check whether the newest release on GitHub is already being served
+    The version list comes from the HTTP cache when GitHub answers 304 Not Modified, so this is the cheapest check there is
+*/
+async function isLatestReleaseLoaded(): Promise<boolean> {
+    // custom bundles can change without a new release
+    const customBundles: Array<string> = vscode.workspace.getConfiguration(configSection).get('customBundles') || [];
+    if (latestRelease === undefined || currentDataSource === undefined || currentDataSource.version !== latestRelease || customBundles.length > 0) {
+        return false;
+    }
+    try {
+        return helpers.getLatestVersion(await helpers.getVersions()) === latestRelease;
+    } catch (err) {
+        // leave the fallback to the full load
+        return false;
+    }
+}
+
+/*
+    Check for new ATT&CK data and only regenerate the features when something changed
+    Resolves to true when new data is being served
+*/
+export function refreshData(context: vscode.ExtensionContext, token?: vscode.CancellationToken): Promise<boolean> {
+    if (pendingRefresh !== undefined) {
+        if (debug) { log('A refresh is already running. Waiting for it instead'); }
+        return pendingRefresh;
+    }
+    // queued behind any reload, so the data source saved here is still the one being served when it is restored
+    const refresh = async (): Promise<boolean> => {
+        log('Checking for new ATT&CK data');
+        if (await isLatestReleaseLoaded()) {
+            log(`ATT&CK data is already up to date with the latest version ${latestRelease}`);
+            if (statusBarItem !== undefined) { updateStatusBar(statusBarItem, currentDataSource); }
+            return false;
+        }
+        const previousDataSource: DataSource|undefined = currentDataSource;
+        const previousRelease: string|undefined = latestRelease;
+        const attackData: AttackMap|undefined = await loadAttackData(context.globalStorageUri);
+        if (token !== undefined && token.isCancellationRequested) {
+            // whatever was downloaded stays cached for the next refresh, but is not served yet
+            log('Refresh cancelled. Keeping the previously loaded data');
+            currentDataSource = previousDataSource;
+            latestRelease = previousRelease;
+            return false;
+        }
+        if (attackData === undefined) {
+            log('Could not refresh ATT&CK data. Keeping the previously loaded data');
+            currentDataSource = previousDataSource;
+            latestRelease = previousRelease;
+            return false;
+        }
+        if (getDataSignature(attackData) === loadedDataSignature) {
+            log('ATT&CK data is already up to date');
+            if (statusBarItem !== undefined) { updateStatusBar(statusBarItem, currentDataSource); }
+            return false;
+        }
+        await applyData(context, attackData);
+        return true;
+    };
+    pendingRefresh = queueLoad(refresh).then((result: boolean) => {
+        pendingRefresh = undefined;
+        return result;
+    }, (err: Error) => {
+        pendingRefresh = undefined;
+        log(`Could not refresh ATT&CK data: ${err}`);
+        return false;
+    });
+    return pendingRefresh;
+}
+
+/*
+    Refresh the data on demand, showing progress the user can cancel
+*/
+async function refreshCommand(context: vscode.ExtensionContext): Promise<void> {
+    let cancelled = false;
+    const updated: boolean = await vscode.window.withProgress({
+        cancellable: true,
+        location: vscode.ProgressLocation.Notification,
+        title: 'ATT&CK: Checking for new data',
+    }, (_progress: vscode.Progress<unknown>, token: vscode.CancellationToken) => {
+        return new Promise<boolean>((resolve) => {
+            // close the notification right away - the download finishes in the background, but its data is not served
+            token.onCancellationRequested(() => {
+                cancelled = true;
+                resolve(false);
+            });
+            refreshData(context, token).then(resolve);
+        });
+    });
+    if (cancelled) { return; }
+    if (updated && currentDataSource !== undefined) {
+        vscode.window.showInformationMessage(`ATT&CK: Now using ${describeDataSource(currentDataSource)}`);
+    }
+    else if (!updated && loadedDataSignature !== undefined) {
+        vscode.window.showInformationMessage('ATT&CK: No new data found.');
+    }
+}
+
+/*
+    Check for new data on the schedule set by the refreshInterval setting, in hours
+*/
+function scheduleRefresh(context: vscode.ExtensionContext): void {
+    if (refreshTimer !== undefined) {
+        clearInterval(refreshTimer);
+        refreshTimer = undefined;
+    }
+    const interval: number = Math.min(vscode.workspace.getConfiguration(configSection).get('refreshInterval') || 0, maxRefreshInterval);
+    if (interval > 0) {
+        refreshTimer = setInterval(() => { refreshData(context); }, interval * 60 * 60 * 1000);
+        if (debug) { log(`Checking for new ATT&CK data every ${interval} hours`); }
+    }
+}
+
 export async function activate(context: vscode.ExtensionContext): Promise<Record<string, Function> | undefined> {
     // output channel
     helpers.output.clear();
     log('Activating MITRE ATT&CK extension');
     // configuration
-    setCompletionItemFormat();
-    setDebugLogState();
-    // data
-    let groups: Array<Group> = new Array<Group>();
-    let mitigations: Array<Mitigation> = new Array<Mitigation>();
-    let software: Array<Software> = new Array<Software>();
-    let tactics: Array<Tactic> = new Array<Tactic>();
-    let techniques: Array<Technique> = new Array<Technique>();
-    const attackData: AttackMap|undefined = await cacheData(context.globalStorageUri);
+    loadConfiguration();
+    setHttpCacheLocation(context.globalStorageUri);
+    // data - serve whatever is cached right away and leave the network to the background refresh
+    let attackData: AttackMap|undefined = await loadAttackData(context.globalStorageUri, true);
+    const cached: boolean = attackData !== undefined;
     if (attackData === undefined) {
-        log('Could not parse ATT&CK data from cache! Please restart the IDE');
-        vscode.window.showErrorMessage('ATT&CK: Could not parse ATT&CK data from cache! Please restart the IDE');
+        // nothing has been cached yet (e.g. on first install), so there is nothing to serve without downloading it
+        log('Nothing usable found in extension cache. Loading ATT&CK data now');
+        attackData = await loadAttackData(context.globalStorageUri);
+    }
+    if (attackData === undefined) {
+        log('Could not load ATT&CK data! Use \'ATT&CK: Refresh Data\' to try again');
+        vscode.window.showErrorMessage('ATT&CK: Could not load ATT&CK data! Use \'ATT&CK: Refresh Data\' to try again.');
     }
     else {
         // parse data
-        groups = await initGroups(attackData);
-        mitigations = await initMitigations(attackData);
-        software = await initSoftware(attackData);
-        tactics = await initTactics(attackData);
-        techniques = await initTechniques(attackData);
-        registerFeatures(techniques, tactics, groups, software, mitigations);
-        currentProviders.pushAll(context.subscriptions);
-        // regenerate output when configuration has changed
-        context.subscriptions.push(vscode.workspace.onDidChangeConfiguration((e: vscode.ConfigurationChangeEvent) => {
-            if (e.affectsConfiguration(configSection)) {
-                setDebugLogState();
-                setCompletionItemFormat();
-                registerFeatures(techniques, tactics, groups, software, mitigations);
-                currentProviders.pushAll(context.subscriptions);
-            }
-        }));
-        if (debug) { log('Registered configuration watcher'); }
-        // commands
-        if (vscode.workspace.isTrusted) {
+        await applyData(context, attackData);
+    }
+    // regenerate output when configuration has changed
+    context.subscriptions.push(vscode.workspace.onDidChangeConfiguration((e: vscode.ConfigurationChangeEvent) => {
+        if (dataSettings.some((setting: string) => { return e.affectsConfiguration(`${configSection}.${setting}`); })) {
+            // these settings require new data, which will also regenerate the providers
+            loadConfiguration();
+            reloadData(context);
+        }
+        else if (e.affectsConfiguration(`${configSection}.refreshInterval`)) {
+            scheduleRefresh(context);
+        }
+        else if (e.affectsConfiguration(configSection)) {
+            loadConfiguration();
+            registerFeatures(techniques, tactics, groups, software, mitigations, dataSources, campaigns);
+            currentProviders.pushAll(context.subscriptions);
+            if (platformStatusBarItem !== undefined) { updatePlatformStatusBar(platformStatusBarItem); }
+        }
+    }));
+    if (debug) { log('Registered configuration watcher'); }
+    // commands
+    if (vscode.workspace.isTrusted) {
+        context.subscriptions.push(vscode.commands.registerCommand('vscode-attack.search', () => { search(techniques, context.extensionPath); }));
+        if (debug) { log('Registered command: vscode-attack.search'); }
+        context.subscriptions.push(vscode.commands.registerCommand('vscode-attack.showTechnique', (id: string) => { return showTechnique(id, techniques, context.extensionPath); }));
+        if (debug) { log('Registered command: vscode-attack.showTechnique'); }
+    }
+    else {
+        const trustWatcher: vscode.Disposable = vscode.workspace.onDidGrantWorkspaceTrust(() => {
             context.subscriptions.push(vscode.commands.registerCommand('vscode-attack.search', () => { search(techniques, context.extensionPath); }));
             if (debug) { log('Registered command: vscode-attack.search'); }
-        }
-        else {
-            const trustWatcher: vscode.Disposable = vscode.workspace.onDidGrantWorkspaceTrust(() => {
-                context.subscriptions.push(vscode.commands.registerCommand('vscode-attack.search', () => { search(techniques, context.extensionPath); }));
-                if (debug) { log('Registered command: vscode-attack.search'); }
-            });
-            context.subscriptions.push(trustWatcher);
-            if (debug) { log('Registered workspace trust watcher'); }
-        }
-        context.subscriptions.push(vscode.commands.registerCommand('vscode-attack.insertLink', () => {
-            const editor: vscode.TextEditor|undefined = vscode.window.activeTextEditor;
-            // assume the user does not want to use links to revoked techniques, which will be redirected
-            // ... to the current technique on the site anyway
-            insertLink(editor, groups, mitigations, software, tactics, helpers.getCurrentTechniques(techniques));
-        }));
-        if (debug) { log('Registered command: vscode-attack.insertLink'); }
-        // window
-        const statusBarItem: vscode.StatusBarItem|undefined = await createStatusBar(context.globalStorageUri);
-        if (statusBarItem !== undefined) {
-            context.subscriptions.push(statusBarItem);
-            toggleStatusBar(statusBarItem, vscode.window.activeTextEditor);
-        }
-        if (debug) { log('Registered status bar item'); }
-        // extension API
-        const api: Record<string, Function> = {
-            getAllTechniques: function (): Array<Technique> { return techniques; },
-            getCurrentTechniques: function (): Array<Technique> { return helpers.getCurrentTechniques(techniques); },
-            getRevokedTechniques: function (): Array<Technique> { return helpers.getRevokedTechniques(techniques); },
-            getTactics: function (): Array<Tactic> { return tactics; },
-        };
-        return api;
+            context.subscriptions.push(vscode.commands.registerCommand('vscode-attack.showTechnique', (id: string) => { return showTechnique(id, techniques, context.extensionPath); }));
+            if (debug) { log('Registered command: vscode-attack.showTechnique'); }
+        });
+        context.subscriptions.push(trustWatcher);
+        if (debug) { log('Registered workspace trust watcher'); }
     }
+    context.subscriptions.push(vscode.commands.registerCommand('vscode-attack.insertLink', () => {
+        const editor: vscode.TextEditor|undefined = vscode.window.activeTextEditor;
+        // assume the user does not want to use links to revoked techniques, which will be redirected
+        // ... to the current technique on the site anyway
+        insertLink(editor, groups, mitigations, software, tactics, helpers.getCurrentTechniques(techniques), dataSources, campaigns);
+    }));
+    if (debug) { log('Registered command: vscode-attack.insertLink'); }
+    context.subscriptions.push(vscode.commands.registerCommand('vscode-attack.linkAll', () => {
+        // same as insertLink, revoked techniques are left alone
+        return linkAll(vscode.window.activeTextEditor, helpers.getCurrentTechniques(techniques), tactics, groups, software, mitigations, dataSources, campaigns);
+    }));
+    if (debug) { log('Registered command: vscode-attack.linkAll'); }
+    // the configuration watcher takes care of reloading the data once the new version is saved
+    context.subscriptions.push(vscode.commands.registerCommand('vscode-attack.selectVersion', async () => {
+        const previousVersion: string = vscode.workspace.getConfiguration(configSection).get('version') || '';
+        const selected: string|undefined = await selectVersion(context.globalStorageUri);
+        // picking the version already in use changes no setting, so load it again explicitly (e.g. to retry a failed download)
+        if (selected !== undefined && selected === previousVersion) { await reloadData(context); }
+        return selected;
+    }));
+    if (debug) { log('Registered command: vscode-attack.selectVersion'); }
+    context.subscriptions.push(vscode.commands.registerCommand('vscode-attack.manageCache', async () => {
+        if (await manageCache(context.globalStorageUri)) { await reloadData(context); }
+    }));
+    if (debug) { log('Registered command: vscode-attack.manageCache'); }
+    context.subscriptions.push(vscode.commands.registerCommand('vscode-attack.compareVersions', () => { return compareVersionsCommand(context.globalStorageUri, context.extensionPath); }));
+    if (debug) { log('Registered command: vscode-attack.compareVersions'); }
+    context.subscriptions.push(vscode.commands.registerCommand('vscode-attack.releaseImpact', (oldVersion?: string, newVersion?: string) => {
+        return releaseImpactCommand(context.globalStorageUri, context.extensionPath, oldVersion, newVersion);
+    }));
+    if (debug) { log('Registered command: vscode-attack.releaseImpact'); }
+    context.subscriptions.push(vscode.commands.registerCommand('vscode-attack.migrateRevokedTechniques', () => { return migrateRevokedTechniques(techniques); }));
+    if (debug) { log('Registered command: vscode-attack.migrateRevokedTechniques'); }
+    context.subscriptions.push(vscode.commands.registerCommand('vscode-attack.refreshData', () => { return refreshCommand(context); }));
+    if (debug) { log('Registered command: vscode-attack.refreshData'); }
+    // the configuration watcher takes care of applying the new scope once it is saved
+    context.subscriptions.push(vscode.commands.registerCommand('vscode-attack.selectPlatforms', () => { return selectPlatforms(techniques); }));
+    if (debug) { log('Registered command: vscode-attack.selectPlatforms'); }
+    // window
+    statusBarItem = createStatusBar();
+    updateStatusBar(statusBarItem, currentDataSource);
+    context.subscriptions.push(statusBarItem);
+    toggleStatusBar(statusBarItem, vscode.window.activeTextEditor);
+    if (debug) { log('Registered status bar item'); }
+    platformStatusBarItem = createPlatformStatusBar();
+    updatePlatformStatusBar(platformStatusBarItem);
+    context.subscriptions.push(platformStatusBarItem);
+    if (debug) { log('Registered platform status bar item'); }
+    // background refresh
+    scheduleRefresh(context);
+    context.subscriptions.push({ dispose: () => { if (refreshTimer !== undefined) { clearInterval(refreshTimer); } } });
+    // cached data may be out of date, so check for new data without holding up activation
+    if (cached) { refreshData(context); }
+    // extension API
+    const api: Record<string, Function> = {
+        getAllTechniques: function (): Array<Technique> { return techniques; },
+        getCurrentTechniques: function (): Array<Technique> { return helpers.getCurrentTechniques(techniques); },
+        getRevokedTechniques: function (): Array<Technique> { return helpers.getRevokedTechniques(techniques); },
+        getTactics: function (): Array<Tactic> { return tactics; },
+        getCampaigns: function (): Array<Campaign> { return campaigns; },
+        getDataSource: function (): DataSource|undefined { return currentDataSource; },
+        getRelated: function (id: string, type: string, direction: 'from'|'to' = 'from'): Array<string> { return getRelated(relationshipGraph, id, type, direction); },
+        getTechniquesUsedBy: function (id: string): Array<string> { return getTechniquesUsedBy(relationshipGraph, id); },
+        getMitigatedTechniques: function (id: string): Array<string> { return getMitigatedTechniques(relationshipGraph, id); },
+        getRevokedBy: function (id: string): string|undefined { return getRevokedBy(relationshipGraph, id); },
+        registerLinkFormatter: function (languageId: string, formatter: LinkFormatter): void { registerLinkFormatter(languageId, formatter); },
+    };
+    return api;
 }
 
 // this method is called when your extension is deactivated
@@ -1,12 +1,12 @@
 import * as vscode from 'vscode';
-import { completionFormat, configSection, debug } from './configuration';
-import { minTermLength, log, groupRegex } from './helpers';
+import { additionalDomains, completionFormat, configSection, debug, domainSuffix } from './configuration';
+import { formatDomains, getAttackReference, getDomains, groupRegex, indexBy, log, lookupByLabel, minTermLength } from './helpers';
 
 /*
     Build a completion item's insertion text based on settings
     TODO: Generalize this across object types
 */
-function buildInsertionText(group: Group): string {
+export function buildInsertionText(group: Group): string {
     let insertionText: string = group.id;
     if (completionFormat === 'id-name' || completionFormat === 'id-fullname') {
         insertionText = `${group.id} ${group.name}`;
@@ -26,7 +26,7 @@ function buildInsertionText(group: Group): string {
 function buildCompletionItem(label: string, group: Group): vscode.CompletionItem {
     const completionItem: vscode.CompletionItem = new vscode.CompletionItem(label, vscode.CompletionItemKind.Value);
     const insertionText: string = buildInsertionText(group);
-    completionItem.detail = insertionText;
+    completionItem.detail = `${insertionText}${domainSuffix(group.domains)}`;
     completionItem.insertText = insertionText;
     return completionItem;
 }
@@ -43,6 +43,8 @@ function buildGroupDescription(group: Group, descriptionType: string|undefined =
     // source link
     if (group.url !== undefined) { mdBuilder.appendMarkdown(`[Source Link](${group.url})\n\n`); }
     else { mdBuilder.appendMarkdown(`No source link available\n\n`); }
+    // domains, but only when more than one is loaded
+    if (additionalDomains.length > 0) { mdBuilder.appendMarkdown(`**Domain**: ${formatDomains(group.domains)}\n\n`); }
     // aliases
     if (group.aliases?.length === 1) { mdBuilder.appendMarkdown(`**Alias**: ${group.aliases.pop()}\n\n`); }
     else if (group.aliases?.length > 1) { mdBuilder.appendMarkdown(`**Aliases**: ${group.aliases.join(', ')}\n\n`); }
@@ -66,17 +68,17 @@ export async function init(attackData: AttackMap): Promise<Array<Group>> {
                     short: description.split("\n")[0],
                     long: description
                 },
+                domains: getDomains(item),
                 id: '<unknown>',
                 name: item.name,
                 url: '<unknown>'
             };
-            item.external_references?.forEach((reference: ExternalReference) => {
-                if (reference.source_name === 'mitre-attack') {
-                    group.id = reference.external_id;
-                    group.url = reference.url;
-                    return; // found what we were looking for - no need to iterate over the rest
-                }
-            });
+            // custom objects may be identified by a source other than 'mitre-attack'
+            const reference: ExternalReference|undefined = getAttackReference(item);
+            if (reference !== undefined) {
+                group.id = reference.external_id;
+                group.url = reference.url;
+            }
             return group;
         });
         if (debug) { log(`Parsed out ${groups.length} groups`); }
@@ -86,6 +88,7 @@ export async function init(attackData: AttackMap): Promise<Array<Group>> {
 
 export class GroupHoverProvider implements vscode.HoverProvider {
     public groups: Array<Group> = new Array<Group>();
+    public groupsById: Map<string, Array<Group>> = new Map<string, Array<Group>>();
 
     public provideHover(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken): vscode.ProviderResult<vscode.Hover> {
         try {
@@ -100,10 +103,11 @@ export class GroupHoverProvider implements vscode.HoverProvider {
                 hoverRange = document.getWordRangeAtPosition(position, groupRegex);
                 if (hoverRange !== undefined) {
                     const hoverTerm: string = document.getText(hoverRange);
-                    const currentGroup: Group | undefined = this.groups.find((g: Group) => { return g.id === hoverTerm; });
-                    if (currentGroup !== undefined) {
-                        if (debug) { log(`GroupHoverProvider: Found exact Group ID '${currentGroup.id}'`); }
-                        hover = new vscode.Hover(buildGroupDescription(currentGroup), hoverRange);
+                    // the same ID can belong to different objects in different domains, so show every match
+                    const currentGroups: Array<Group> = this.groupsById.get(hoverTerm) || new Array<Group>();
+                    if (currentGroups.length > 0) {
+                        if (debug) { log(`GroupHoverProvider: Found exact Group ID '${hoverTerm}'`); }
+                        hover = new vscode.Hover(currentGroups.map<vscode.MarkdownString>((g: Group) => { return buildGroupDescription(g); }), hoverRange);
                     }
                 }
                 resolve(hover);
@@ -116,6 +120,8 @@ export class GroupHoverProvider implements vscode.HoverProvider {
 
 export class GroupCompletionProvider implements vscode.CompletionItemProvider {
     public groups: Array<Group> = new Array<Group>();
+    public groupsById: Map<string, Array<Group>> = new Map<string, Array<Group>>();
+    public groupsByName: Map<string, Array<Group>> = new Map<string, Array<Group>>();
 
     public provideCompletionItems(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken): vscode.ProviderResult<vscode.CompletionItem[] | vscode.CompletionList> {
         try {
@@ -127,7 +133,8 @@ export class GroupCompletionProvider implements vscode.CompletionItemProvider {
                 });
                 let completionItems: Array<vscode.CompletionItem> = new Array<vscode.CompletionItem>();
                 let dbgMsg = '';
-                const completionRange: vscode.Range | undefined = document.getWordRangeAtPosition(position);
+                // custom IDs (e.g. 'RC-G0001') may contain characters that are not part of a regular word
+                const completionRange: vscode.Range | undefined = document.getWordRangeAtPosition(position, groupRegex) || document.getWordRangeAtPosition(position);
                 if (completionRange === undefined) {
                     if (debug) { log('GroupCompletionProvider: No completion item range provided.'); }
                 }
@@ -135,11 +142,11 @@ export class GroupCompletionProvider implements vscode.CompletionItemProvider {
                     const completionTerm: string = document.getText(completionRange);
                     // only return everything if this is a "long" term
                     if (completionTerm.length >= minTermLength) {
-                        // if the user is trying to complete something that matches an exact group ID, just return that one item
-                        const group: Group | undefined = this.groups.find((g: Group) => { return g.id === completionTerm.toUpperCase(); });
-                        if (group !== undefined) {
-                            if (debug) { log(`GroupCompletionProvider: Found exact Group ID '${group.id}'`); }
-                            completionItems = [buildCompletionItem(group.id, group)];
+                        // if the user is trying to complete something that matches an exact group ID, just return the matching item(s)
+                        const exactGroups: Array<Group> = this.groupsById.get(completionTerm.toUpperCase()) || new Array<Group>();
+                        if (exactGroups.length > 0) {
+                            if (debug) { log(`GroupCompletionProvider: Found exact Group ID '${completionTerm.toUpperCase()}'`); }
+                            completionItems = exactGroups.map<vscode.CompletionItem>((g: Group) => { return buildCompletionItem(g.id, g); });
                         }
                         else {
                             // if the user is trying to complete a group by name
@@ -172,8 +179,9 @@ export class GroupCompletionProvider implements vscode.CompletionItemProvider {
                 });
                 if (debug) { log(`GroupCompletionProvider: Resolving completion item for '${item.label}'`); }
                 item.keepWhitespace = true;
-                const group: Group | undefined = this.groups.find((g: Group) => {
-                    return (g.id === item.label) || (g.name === item.label);
+                const group: Group | undefined = lookupByLabel(item.label, this.groupsById, this.groupsByName).find((g: Group) => {
+                    // the detail tells apart objects sharing an ID across domains
+                    return ((g.id === item.label) || (g.name === item.label)) && (item.detail === undefined || item.detail.endsWith(domainSuffix(g.domains)));
                 });
                 if (group !== undefined) {
                     item.documentation = buildGroupDescription(group);
@@ -192,9 +200,12 @@ export function register(filters: vscode.DocumentSelector, groups: Array<Group>)
     const groupHovers: GroupHoverProvider = new GroupHoverProvider();
     const groupHoverDisposable: vscode.Disposable = vscode.languages.registerHoverProvider(filters, groupHovers);
     groupHovers.groups = groups;
+    groupHovers.groupsById = indexBy(groups, (g: Group) => { return [g.id]; });
     // completion provider
     const groupCompletions: GroupCompletionProvider = new GroupCompletionProvider();
     groupCompletions.groups = groups;
+    groupCompletions.groupsById = indexBy(groups, (g: Group) => { return [g.id]; });
+    groupCompletions.groupsByName = indexBy(groups, (g: Group) => { return [g.name]; });
     const groupCompletionDisposable: vscode.Disposable = vscode.languages.registerCompletionItemProvider(filters, groupCompletions);
     return [groupHoverDisposable, groupCompletionDisposable];
 }
@@ -1,25 +1,52 @@
-import { IncomingMessage } from 'http';
-import * as https from 'https';
+import { StringDecoder } from 'string_decoder';
 import * as vscode from 'vscode';
 import { Utils } from 'vscode-uri';
+import { indexToAttackMap, readIndex, writeIndex } from './attackIndex';
+import { debug } from './configuration';
+import { HttpResponse, conditionalGet, getMirrorUrl, getTagsUrl, httpGet } from './network';
 
 export const output: vscode.OutputChannel = vscode.window.createOutputChannel("MITRE ATT&CK");
 // should match T1059.001
-export const techniqueRegex = /T\d{4}([./]\d{3})?/;
+const defaultTechniqueRegex = /T\d{4}([./]\d{3})?/;
 // should match TA0001
-export const tacticRegex = /TA\d{4}/;
+const defaultTacticRegex = /TA\d{4}/;
 // should match G0073
-export const groupRegex = /G\d{4}/;
+const defaultGroupRegex = /G\d{4}/;
 // should match S0363
-export const softwareRegex = /S\d{4}/;
+const defaultSoftwareRegex = /S\d{4}/;
 // should match M1036
-export const mitigationRegex = /M\d{4}/;
+const defaultMitigationRegex = /M\d{4}/;
+// should match DS0009
+const defaultDataSourceRegex = /DS\d{4}/;
+// should match C0010
+const defaultCampaignRegex = /C\d{4}/;
+// the regexes actually in use, which may be extended with custom ID patterns (see setIdPatterns())
+export let techniqueRegex: RegExp = defaultTechniqueRegex;
+export let tacticRegex: RegExp = defaultTacticRegex;
+export let groupRegex: RegExp = defaultGroupRegex;
+export let softwareRegex: RegExp = defaultSoftwareRegex;
+export let mitigationRegex: RegExp = defaultMitigationRegex;
+export let dataSourceRegex: RegExp = defaultDataSourceRegex;
+export let campaignRegex: RegExp = defaultCampaignRegex;
+
+// ATT&CK domains published in the mitre/cti repository, and how to display them
+export const defaultDomain = 'enterprise-attack';
+export const domainNames: Record<string, string> = {
+    'enterprise-attack': 'Enterprise',
+    'mobile-attack': 'Mobile',
+    'ics-attack': 'ICS',
+};
+// ATT&CK release versions as MITRE tags them, without the 'v' (e.g. '9.0')
+export const versionRegex = /^\d+\.\d+$/;
 
 // minimum completion item term length
 // everything under this will only show the technique provider's results
 export const minTermLength = 5;
-
-const httpTimeout: number = 5000;
+// fewest objects of each type a complete ATT&CK release has, so truncated or placeholder bundles are rejected
+const minimumObjectCounts: Record<string, number> = {
+    'attack-pattern': 50,
+    'x-mitre-tactic': 5,
+};
 
 /*
     Send a given message to the MITRE ATT&CK output channel with a timestamp
@@ -28,6 +55,55 @@ export function log(message: string): void {
     output.appendLine(`[${new Date().toISOString()}] ${message}`);
 }
 
+/*
+    Extend a default ID regex with a user-provided pattern, keeping the default if the pattern is unusable
+*/
+function extendRegex(defaultRegex: RegExp, pattern: string|undefined): RegExp {
+    let result: RegExp = defaultRegex;
+    if (pattern !== undefined && pattern.length > 0) {
+        try {
+            // check the custom pattern compiles on its own before combining it
+            result = new RegExp(`${new RegExp(pattern).source}|${defaultRegex.source}`);
+        } catch (err) {
+            log(`Ignoring invalid custom ID pattern '${pattern}': ${err}`);
+        }
+    }
+    return result;
+}
+
+/*
+    Escape the characters that have a special meaning in regular expressions
+*/
+export function escapeRegex(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/*
+    Recognize custom ATT&CK-like IDs (e.g. 'RC-T\d{4}') in addition to the official ones
+    Keys are the object types: techniques, tactics, groups, software, mitigations, dataSources, campaigns
+*/
+export function setIdPatterns(patterns: Record<string, string>): void {
+    // custom patterns come first, so that 'RC-T0001' is matched as a whole rather than as 'T0001'
+    techniqueRegex = extendRegex(defaultTechniqueRegex, patterns['techniques']);
+    tacticRegex = extendRegex(defaultTacticRegex, patterns['tactics']);
+    groupRegex = extendRegex(defaultGroupRegex, patterns['groups']);
+    softwareRegex = extendRegex(defaultSoftwareRegex, patterns['software']);
+    mitigationRegex = extendRegex(defaultMitigationRegex, patterns['mitigations']);
+    dataSourceRegex = extendRegex(defaultDataSourceRegex, patterns['dataSources']);
+    campaignRegex = extendRegex(defaultCampaignRegex, patterns['campaigns']);
+}
+
+/*
+    Find the external reference that identifies an object, i.e. where its ID and URL come from
+    Official objects are identified by their 'mitre-attack' reference. Custom objects may use any source
+*/
+export function getAttackReference(item: AttackObject): ExternalReference|undefined {
+    const references: Array<ExternalReference> = item.external_references !== undefined ? item.external_references : new Array<ExternalReference>();
+    const attackReference: ExternalReference|undefined = references.find((reference: ExternalReference) => { return reference.source_name === 'mitre-attack'; });
+    if (attackReference !== undefined) { return attackReference; }
+    return references.find((reference: ExternalReference) => { return reference.external_id !== undefined; });
+}
+
 /*
     Parse the last modified time of the given ATT&CK mapping
 */
@@ -50,7 +126,7 @@ export function getModifiedTime(mapping: AttackMap): string|undefined {
 /*
     Collect all GitHub tags matching the specified prefix
 */
-export function getVersions(prefix = 'ATT&CK-v'): Promise<Array<string>> {
+export async function getVersions(prefix = 'ATT&CK-v'): Promise<Array<string>> {
     // just a generic GitHub interface - not specific to ATT&CK
     // ... so let's just leave it out of the interfaces module, since it's only useful here
     interface Tag {
@@ -63,56 +139,43 @@ export function getVersions(prefix = 'ATT&CK-v'): Promise<Array<string>> {
             url: string;
         };
     }
-    const url = 'https://api.github.com/repos/mitre/cti/git/refs/tags';
-    let downloadedData = '';
-    const options = {
-        headers: { 'User-Agent': 'Mozilla/5.0' }
-    };
-    return new Promise((resolve, reject) => {
-        let filteredTags: Array<string> = new Array<string>();
-        const request = https.get(url, options, (res: IncomingMessage) => {
-            res.setEncoding('utf8');
-            res.on('data', (chunk) => {
-                downloadedData = downloadedData.concat(chunk);
-            });
-            res.on('error', (err: Error) => {
-                // something bad happened! let the user know
-                log(`Could not retrieve the version list! ${err.message}`);
-                vscode.window.showErrorMessage(`ATT&CK: Could not retrieve the version list! ${err.message}`);
-                reject(err);
-            });
-            res.on('end', () => {
-                const tags: Array<Tag> = JSON.parse(downloadedData) as Array<Tag>;
-                // TODO: make this suck less
-                if (tags.length !== undefined && tags.length > 0) {
-                    filteredTags = tags.filter((tag: Tag) => {
-                        // if the user wants all tags, allow them to pass in an undefined prefix
-                        return tag.ref.startsWith(`refs/tags/${prefix}`);
-                    }).map<string>((t: Tag) => {
-                        let label: string = t.ref.replace(`refs/tags/${prefix}`, '');
-                        // special case where the user is looking for an exact tag
-                        // the replace() method would overwrite the tag
-                        if (label === '') { label = prefix; }
-                        return label;
-                    });
-                    resolve(filteredTags);
-                }
-                else {
-                    try {
-                        const result: Record<string,string> = JSON.parse(downloadedData);
-                        log(`Error encountered while downloading ATT&CK map versions: ${result['message']}`);
-                    } catch (error) {
-                        log(`No tags were parsed! Something went wrong! Is api.github.com reachable?`);
-                    }
-                    reject(new Error('ATT&CK map versions could not be downloaded'));
-                }
-            });
-        });
-        request.setTimeout(httpTimeout, () => {
-            log(`HTTP request timed out while downloading ATT&CK map versions! Is api.github.com reachable?`);
-            reject(new Error('HTTP request timed out'));
+    const url: string = getTagsUrl();
+    let response: HttpResponse;
+    try {
+        // the version list is checked on every refresh, so avoid downloading it again when nothing changed
+        response = await conditionalGet(url);
+    } catch (err) {
+        // something bad happened! let the user know
+        log(`Could not retrieve the version list from ${url}! ${err}`);
+        throw err;
+    }
+    let tags: Array<Tag>|undefined = undefined;
+    try {
+        tags = JSON.parse(response.body) as Array<Tag>;
+    } catch (err) {
+        log(`Could not parse the version list from ${url}: ${err}`);
+    }
+    // TODO: make this suck less
+    if (response.statusCode === 200 && tags !== undefined && tags.length !== undefined && tags.length > 0) {
+        return tags.filter((tag: Tag) => {
+            // if the user wants all tags, allow them to pass in an undefined prefix
+            return tag.ref.startsWith(`refs/tags/${prefix}`);
+        }).map<string>((t: Tag) => {
+            let label: string = t.ref.replace(`refs/tags/${prefix}`, '');
+            // special case where the user is looking for an exact tag
+            // the replace() method would overwrite the tag
+            if (label === '') { label = prefix; }
+            return label;
         });
-    });
+    }
+    const message: string|undefined = tags !== undefined ? (tags as unknown as Record<string, string>)['message'] : undefined;
+    if (message !== undefined) {
+        log(`Error encountered while downloading ATT&CK map versions: ${message}`);
+    }
+    else {
+        log(`No tags were parsed! Something went wrong! Is ${url} reachable?`);
+    }
+    throw new Error('ATT&CK map versions could not be downloaded');
 }
 
 /*
@@ -137,59 +200,68 @@ export function isAttackMapNewer(prospective: AttackMap, familiar: AttackMap): b
 }
 
 /*
-    Download a specific version of the MITRE ATT&CK map, save it to disk, and return its contents
-*/
-export function downloadAttackMap(storageUri: vscode.Uri, version: string): Promise<string> {
-    let downloadedData: string = '';
-    return new Promise<string>(function (resolve, reject) {
-        getVersions().then((availableVersions: Array<string>) => {
-            if (availableVersions.includes(version)) {
-                // Example: v8.0 => enterprise-attack.8.0.json
-                const storagePath: vscode.Uri = vscode.Uri.joinPath(storageUri, `enterprise-attack.${version}.json`);
-                const url = `https://raw.githubusercontent.com/mitre/cti/ATT%26CK-v${version}/enterprise-attack/enterprise-attack.json`;
-                const request = https.get(url, (res: IncomingMessage) => {
-                    res.setEncoding('utf8');
-                    res.on('data', (chunk) => { downloadedData = downloadedData.concat(chunk); });
-                    res.on('error', (err: Error) => {
-                        // something bad happened! let the user know
-                        log(`Something went wrong while downloading ATT&CK mapping! ${err.message}`);
-                        vscode.window.showErrorMessage(`ATT&CK: Something went wrong while downloading ATT&CK mapping v${version}! ${err.message}`);
-                        reject(err);
-                    });
-                    res.on('end', () => {
-                        // save the JSON file to the global storage path
-                        vscode.workspace.fs.writeFile(storagePath, Buffer.from(downloadedData, 'utf-8')).then(() => {
-                            log(`Successfully cached the Enterprise ATT&CK v${version} data @ '${storagePath}'!`);
-                        }, (reason: any) => {
-                            log(`Encountered an error while attempting to cache Enterprise ATT&CK v${version} data: ${reason}`);
-                        });
-                        resolve(downloadedData);
-                    });
-                });
-                request.setTimeout(httpTimeout, () => {
-                    log(`HTTP request timed out while downloading ATT&CK map ${version}! Is raw.githubusercontent.com reachable?`);
-                    reject('HTTP request timed out');
-                });
-            }
-            else {
-                log(`Could not find version ${version} in the tags list: ${availableVersions}`);
-                resolve(downloadedData);
-            }
-        });
-    });
+    Download a specific version of the MITRE ATT&CK map for a domain, save it to disk, and return its contents
+*/
+export async function downloadAttackMap(storageUri: vscode.Uri, version: string, domain: string = defaultDomain): Promise<string> {
+    const availableVersions: Array<string> = await getVersions();
+    if (!availableVersions.includes(version)) {
+        log(`Could not find version ${version} in the tags list: ${availableVersions}`);
+        return '';
+    }
+    // Example: v8.0 => enterprise-attack.8.0.json
+    const storagePath: vscode.Uri = getCachePath(storageUri, version, domain);
+    const url = `${getMirrorUrl()}/ATT%26CK-v${version}/${domain}/${domain}.json`;
+    let response: HttpResponse;
+    try {
+        response = await httpGet(url);
+    } catch (err) {
+        // something bad happened! let the user know
+        log(`Something went wrong while downloading ATT&CK mapping from ${url}! ${err}`);
+        vscode.window.showErrorMessage(`ATT&CK: Something went wrong while downloading ATT&CK mapping v${version}! ${err}`);
+        throw err;
+    }
+    // older releases do not contain every domain, so don't cache the error page GitHub returns for those
+    if (response.statusCode !== 200) {
+        log(`Could not download ${domainNames[domain]} ATT&CK v${version}: HTTP ${response.statusCode}`);
+        throw new Error(`HTTP ${response.statusCode}`);
+    }
+    // never cache a response that was cut off or is not ATT&CK data, since it would break every later startup
+    let problem: string|undefined = undefined;
+    let data: unknown = undefined;
+    try {
+        data = JSON.parse(response.body);
+        problem = validateAttackMap(data);
+    } catch (err) {
+        problem = `not valid JSON (${err})`;
+    }
+    if (problem !== undefined) {
+        log(`Downloaded ${domainNames[domain]} ATT&CK v${version} from ${url} is unusable: ${problem}`);
+        throw new Error(`Downloaded ${domainNames[domain]} ATT&CK v${version} is unusable: ${problem}`);
+    }
+    // save the JSON file to the global storage path
+    // ... and only hand the data back once it has been written, so the cache can be inspected right away
+    try {
+        await writeFileAtomic(storagePath, Buffer.from(response.body, 'utf-8'));
+        log(`Successfully cached the ${domainNames[domain]} ATT&CK v${version} data @ '${storagePath}'!`);
+        // index it right away while it is parsed anyway, so the next startup does not need the raw file
+        await writeIndex(storageUri, storagePath, data as AttackMap);
+    } catch (reason) {
+        log(`Encountered an error while attempting to cache ${domainNames[domain]} ATT&CK v${version} data: ${reason}`);
+    }
+    return response.body;
 }
 
 /*
     Download the latest version of the MIRE ATT&CK map - just a wrapper for some repeat code
 */
-export async function downloadLatestAttackMap(storageUri: vscode.Uri): Promise<AttackMap|undefined> {
+export async function downloadLatestAttackMap(storageUri: vscode.Uri, domain: string = defaultDomain): Promise<AttackMap|undefined> {
     let result: AttackMap|undefined = undefined;
     try {
         const availableVersions: Array<string> = await getVersions();
         // always look for the latest tagged version
-        const version = `${availableVersions.sort()[availableVersions.length - 1]}`;
+        const version = `${getLatestVersion(availableVersions)}`;
         try {
-            const downloadedData: string = await downloadAttackMap(storageUri, version);
+            const downloadedData: string = await downloadAttackMap(storageUri, version, domain);
             // and once it's cached, parse + return it
             result = JSON.parse(downloadedData) as AttackMap;
         } catch (err) {
@@ -201,35 +273,308 @@ export async function downloadLatestAttackMap(storageUri: vscode.Uri): Promise<A
     return result;
 }
 
+/*
+    Combine the ATT&CK maps of several domains into one map
+    Objects shared between domains (e.g. software used on both Enterprise and Mobile) are only kept once
+*/
+export function mergeAttackMaps(domainMaps: Map<string, AttackMap>): AttackMap {
+    const merged: Map<string, AttackObject> = new Map<string, AttackObject>();
+    domainMaps.forEach((mapping: AttackMap, domain: string) => {
+        mapping.objects.forEach((obj: AttackObject) => {
+            // older releases don't say which domain an object belongs to, so fall back to the bundle it came from
+            const domains: Array<string> = obj.x_mitre_domains !== undefined ? obj.x_mitre_domains : [domain];
+            const existing: AttackObject|undefined = merged.get(obj.id);
+            if (existing === undefined) {
+                merged.set(obj.id, {...obj, x_mitre_domains: [...domains]});
+            }
+            else {
+                domains.filter((d: string) => { return !existing.x_mitre_domains.includes(d); }).forEach((d: string) => {
+                    existing.x_mitre_domains.push(d);
+                });
+            }
+        });
+    });
+    const enterpriseMap: AttackMap|undefined = domainMaps.get(defaultDomain);
+    return {
+        type: 'bundle',
+        id: enterpriseMap !== undefined ? enterpriseMap.id : 'bundle--merged',
+        spec_version: enterpriseMap !== undefined ? enterpriseMap.spec_version : '2.0',
+        objects: Array.from(merged.values()),
+    };
+}
+
+/*
+    Display a list of ATT&CK domains by their human-readable names
+    Example: ['enterprise-attack', 'ics-attack'] => 'Enterprise, ICS'
+*/
+export function formatDomains(domains: Array<string>): string {
+    return domains.map<string>((domain: string) => { return domainNames[domain] || domain; }).join(', ');
+}
+
+/*
+    Determine which domains a parsed ATT&CK object belongs to
+    Objects without domain information predate multi-domain support and are assumed to be Enterprise
+*/
+export function getDomains(item: AttackObject): Array<string> {
+    return item.x_mitre_domains !== undefined && item.x_mitre_domains.length > 0 ? item.x_mitre_domains : [defaultDomain];
+}
+
+/*
+    Check that the given data looks like a STIX bundle
+*/
+export function isStixBundle(data: unknown): data is AttackMap {
+    const bundle: AttackMap = data as AttackMap;
+    return bundle !== undefined && bundle !== null && bundle.type === 'bundle' && bundle.objects instanceof Array;
+}
+
+/*
+    Check that the given data looks like a STIX bundle containing ATT&CK objects
+*/
+export function isAttackMap(data: unknown): data is AttackMap {
+    // a bundle without a single technique is not going to do the user any good
+    return isStixBundle(data) && data.objects.some((obj: AttackObject) => { return obj.type === 'attack-pattern'; });
+}
+
+/*
+    Check that the given data is a complete ATT&CK release, as opposed to an error page or a truncated download
+    Returns a description of the problem, or undefined if the data can be trusted
+*/
+export function validateAttackMap(data: unknown): string|undefined {
+    if (!isStixBundle(data)) {
+        return 'not a STIX bundle';
+    }
+    if (!data.objects.some((obj: AttackObject) => { return obj.type === 'x-mitre-matrix'; })) {
+        return 'no x-mitre-matrix object';
+    }
+    for (const objectType of Object.keys(minimumObjectCounts)) {
+        const count: number = data.objects.filter((obj: AttackObject) => { return obj.type === objectType; }).length;
+        if (count < minimumObjectCounts[objectType]) {
+            return `only ${count} ${objectType} objects (expected at least ${minimumObjectCounts[objectType]})`;
+        }
+    }
+    return undefined;
+}
+
+/*
+    Write a file by writing a temporary file next to it and renaming that into place
+    ... so an interrupted write never leaves a partial file behind
+*/
+export async function writeFileAtomic(fileUri: vscode.Uri, contents: Uint8Array): Promise<void> {
+    const tmpUri: vscode.Uri = fileUri.with({path: `${fileUri.path}.tmp`});
+    await vscode.workspace.fs.writeFile(tmpUri, contents);
+    try {
+        await vscode.workspace.fs.rename(tmpUri, fileUri, {overwrite: true});
+    } catch (err) {
+        await vscode.workspace.fs.delete(tmpUri).then(undefined, () => { /* nothing left to clean up */ });
+        throw err;
+    }
+}
+
+/*
+    Move a corrupt cache file out of the way so it is not picked up again, but can still be inspected
+*/
+export async function quarantineCacheFile(cacheUri: vscode.Uri, fileUri: vscode.Uri): Promise<void> {
+    const quarantineDir: vscode.Uri = vscode.Uri.joinPath(cacheUri, 'quarantine');
+    const quarantinePath: vscode.Uri = vscode.Uri.joinPath(quarantineDir, `${Date.now()}-${Utils.basename(fileUri)}`);
+    try {
+        await vscode.workspace.fs.createDirectory(quarantineDir);
+        await vscode.workspace.fs.rename(fileUri, quarantinePath, {overwrite: true});
+        log(`Quarantined corrupt cache file '${fileUri}' @ '${quarantinePath}'`);
+    } catch (err) {
+        // if it cannot be moved, at least make sure it is not read again
+        log(`Could not quarantine '${fileUri}' (${err}). Deleting it instead`);
+        await vscode.workspace.fs.delete(fileUri).then(undefined, (reason: unknown) => { log(`Could not delete '${fileUri}': ${reason}`); });
+    }
+}
+
+/*
+    Read a cached ATT&CK map, quarantining it if it turns out to be corrupt
+    The compact index of the map is used when it is up to date, and built from the raw map otherwise
+*/
+export async function readCachedAttackMap(cacheUri: vscode.Uri, fileUri: vscode.Uri): Promise<AttackMap|undefined> {
+    const index: AttackIndex|undefined = await readIndex(cacheUri, fileUri);
+    if (index !== undefined) {
+        if (debug) { log(`Using index of '${fileUri}'`); }
+        return indexToAttackMap(index);
+    }
+    let problem: string|undefined = undefined;
+    let data: unknown = undefined;
+    try {
+        const contents: Uint8Array = await vscode.workspace.fs.readFile(fileUri);
+        data = JSON.parse(new StringDecoder('utf8').end(Buffer.from(contents)));
+        problem = validateAttackMap(data);
+    } catch (err) {
+        problem = `${err}`;
+    }
+    if (problem !== undefined) {
+        log(`Cached ATT&CK map '${fileUri}' is corrupt: ${problem}`);
+        await quarantineCacheFile(cacheUri, fileUri);
+        return undefined;
+    }
+    await writeIndex(cacheUri, fileUri, data as AttackMap);
+    return data as AttackMap;
+}
+
+/*
+    Find the newest cached version of a domain's ATT&CK map that can still be read
+    Corrupt versions are quarantined along the way, so the previous good version is used instead
+*/
+export async function readLatestCachedAttackMap(cacheUri: vscode.Uri, domain: string = defaultDomain): Promise<{data: AttackMap, version: string, path: vscode.Uri}|undefined> {
+    const versions: Array<string> = (await getCachedVersions(cacheUri, domain)).reverse();
+    for (const version of versions) {
+        const cachedPath: vscode.Uri = getCachePath(cacheUri, version, domain);
+        const data: AttackMap|undefined = await readCachedAttackMap(cacheUri, cachedPath);
+        if (data !== undefined) {
+            return {data: data, version: version, path: cachedPath};
+        }
+        vscode.window.showWarningMessage(`ATT&CK: The cached copy of ${domainNames[domain]} ATT&CK v${version} was corrupt and has been quarantined.`);
+    }
+    return undefined;
+}
+
+/*
+    Read and parse an ATT&CK map from the given file, returning undefined if it cannot be used
+    Custom bundles may contain any kind of object, so they don't need to contain techniques
+*/
+export async function readAttackMap(fileUri: vscode.Uri, requireTechniques: boolean = true): Promise<AttackMap|undefined> {
+    let result: AttackMap|undefined = undefined;
+    try {
+        const contents: Uint8Array = await vscode.workspace.fs.readFile(fileUri);
+        const data: unknown = JSON.parse(new StringDecoder('utf8').end(Buffer.from(contents)));
+        const isValid: boolean = requireTechniques ? isAttackMap(data) : isStixBundle(data);
+        if (isValid) { result = data as AttackMap; }
+        else { log(`'${fileUri}' does not contain a STIX bundle${requireTechniques ? ' with ATT&CK techniques' : ''}`); }
+    } catch (err) {
+        log(`readAttackMap() failed due to '${err}'`);
+    }
+    return result;
+}
+
+/*
+    Determine the ATT&CK version of a map from its collection object, if it has one
+    Example: ATT&CK v10+ bundles contain an x-mitre-collection object with x_mitre_version '10.1'
+*/
+export function getAttackVersion(mapping: AttackMap): string|undefined {
+    return mapping.objects?.find((obj: AttackObject) => { return obj.type === 'x-mitre-collection'; })?.x_mitre_version;
+}
+
+/*
+    Turn the user-provided data source setting into a file URI
+    Relative paths are resolved against the first workspace folder
+*/
+export function resolveDataSourcePath(source: string): vscode.Uri|undefined {
+    let result: vscode.Uri|undefined = undefined;
+    // POSIX absolute paths, Windows drive paths (C:\ or C:/), and UNC paths
+    if (/^([/\\]|[a-zA-Z]:[/\\])/.test(source)) {
+        result = vscode.Uri.file(source);
+    }
+    else if (vscode.workspace.workspaceFolders !== undefined && vscode.workspace.workspaceFolders.length > 0) {
+        result = vscode.Uri.joinPath(vscode.workspace.workspaceFolders[0].uri, source);
+    }
+    else {
+        log(`Cannot resolve relative data source '${source}' without an open workspace folder`);
+    }
+    return result;
+}
+
 /*
     Parse the ATT&CK map version from a filename
 */
 export function extractAttackVersion(fileUri: vscode.Uri): string {
-    return Utils.basename(fileUri).replace('enterprise-attack.', '').replace('.json', '');
+    // Example: mobile-attack.8.0.json => 8.0
+    return Utils.basename(fileUri).replace(/^[a-z]+-attack\./, '').replace('.json', '');
 }
 
 /*
-    Get the newest version of the ATT&CK map in the specified cache directory
+    Compare two ATT&CK versions numerically, so that '10.0' sorts after '9.0'
+    Returns a negative number if a < b, a positive number if a > b, and 0 if they are equivalent
 */
-export async function getLatestCacheVersion(cacheUri: vscode.Uri): Promise<vscode.Uri|undefined> {
-    const pattern: RegExp = /enterprise-attack\..*\.json/;
-    let latestVersionPath: vscode.Uri|undefined = undefined;
+export function compareVersions(a: string, b: string): number {
+    const aParts: Array<string> = a.split('.');
+    const bParts: Array<string> = b.split('.');
+    for (let index = 0; index < Math.max(aParts.length, bParts.length); index++) {
+        const aPart: number = Number.parseInt(aParts[index] || '0', 10);
+        const bPart: number = Number.parseInt(bParts[index] || '0', 10);
+        // non-numeric versions (e.g. 'subtechniques-beta') fall back to a plain string comparison
+        if (Number.isNaN(aPart) || Number.isNaN(bPart)) {
+            return a.localeCompare(b);
+        }
+        if (aPart !== bPart) {
+            return aPart - bPart;
+        }
+    }
+    return 0;
+}
+
+/*
+    Return the newest version out of a list of ATT&CK versions
+*/
+export function getLatestVersion(versions: Array<string>): string|undefined {
+    return [...versions].sort(compareVersions).pop();
+}
+
+/*
+    Get every version of a domain's ATT&CK map in the specified cache directory, oldest first
+*/
+export async function getCachedVersions(cacheUri: vscode.Uri, domain: string = defaultDomain): Promise<Array<string>> {
+    const pattern: RegExp = new RegExp(`^${domain}\\..*\\.json$`);
+    let versions: Array<string> = new Array<string>();
     try {
         const entries: [string, vscode.FileType][] = await vscode.workspace.fs.readDirectory(cacheUri);
-        const latestVersionName: string|undefined = entries.filter((entry: [string, vscode.FileType]) => {
+        versions = entries.filter((entry: [string, vscode.FileType]) => {
             return entry[1] === vscode.FileType.File && entry[0].match(pattern);
         }).map((entry: [string, vscode.FileType]) => {
-            return entry[0];
-        }).sort().pop();
-        if (latestVersionName !== undefined) {
-            latestVersionPath = vscode.Uri.joinPath(cacheUri, latestVersionName);
-        }
+            return extractAttackVersion(vscode.Uri.joinPath(cacheUri, entry[0]));
+        }).sort(compareVersions);
     } catch (err) {
-        log(`getLatestCacheVersion() failed due to '${err}'`);
+        log(`getCachedVersions() failed due to '${err}'`);
+    }
+    return versions;
+}
+
+/*
+    Get the path of a specific ATT&CK map version and domain in the specified cache directory
+*/
+export function getCachePath(cacheUri: vscode.Uri, version: string, domain: string = defaultDomain): vscode.Uri {
+    return vscode.Uri.joinPath(cacheUri, `${domain}.${version}.json`);
+}
+
+/*
+    Get the newest version of a domain's ATT&CK map in the specified cache directory
+*/
+export async function getLatestCacheVersion(cacheUri: vscode.Uri, domain: string = defaultDomain): Promise<vscode.Uri|undefined> {
+    let latestVersionPath: vscode.Uri|undefined = undefined;
+    const latestVersion: string|undefined = getLatestVersion(await getCachedVersions(cacheUri, domain));
+    if (latestVersion !== undefined) {
+        latestVersionPath = getCachePath(cacheUri, latestVersion, domain);
     }
     return latestVersionPath;
 }
 
+/*
+    Build a lookup table of items by the given keys, so providers don't have to scan every item on each keystroke
+    Several items can share a key (e.g. the same ID in different domains)
+*/
+export function indexBy<T>(items: Array<T>, getKeys: (item: T) => Array<string>): Map<string, Array<T>> {
+    const index: Map<string, Array<T>> = new Map<string, Array<T>>();
+    items.forEach((item: T) => {
+        new Set<string>(getKeys(item)).forEach((key: string) => {
+            const matches: Array<T>|undefined = index.get(key);
+            if (matches === undefined) { index.set(key, [item]); }
+            else { matches.push(item); }
+        });
+    });
+    return index;
+}
+
+/*
+    Find the items whose ID or name is the label of a completion item
+*/
+export function lookupByLabel<T>(label: string|vscode.CompletionItemLabel, byId: Map<string, Array<T>>, byName: Map<string, Array<T>>): Array<T> {
+    const text: string = typeof label === 'string' ? label : label.label;
+    return [...(byId.get(text) || []), ...(byName.get(text) || [])];
+}
+
 /*
     Return all non-revoked techniques
 */
@@ -0,0 +1,155 @@
+import { StringDecoder } from 'string_decoder';
+import * as vscode from 'vscode';
+import { debug } from './configuration';
+import { ChangeKind, VersionChange, diffCachedVersions, displayReport, pickVersions } from './compare';
+import { DiagnosticCategory, DiagnosticContext, FoundId, findIds } from './diagnostics';
+import { groupRegex, log, mitigationRegex, softwareRegex, techniqueRegex } from './helpers';
+
+export interface ImpactedReference {
+    change: VersionChange;
+    // zero-based, like vscode.Position
+    line: number;
+    uri: vscode.Uri;
+}
+
+// the changes that can make a reference in a document wrong, rather than just out of date
+const impactKinds: Array<ChangeKind> = ['revoked', 'deprecated', 'renamed', 'reparented'];
+const kindDescriptions: Record<string, string> = {
+    'revoked': 'revoked',
+    'deprecated': 'deprecated',
+    'renamed': 'renamed',
+    'reparented': 'moved to another parent technique',
+};
+// dependencies are not the user's own references, even when files.exclude does not hide them
+// ... they are filtered out afterwards, since passing an exclude pattern to findFiles() would turn off files.exclude
+const excludedDirectories = /\/(\.git|node_modules)\//;
+// skip anything this big, which is more likely to be data than documentation
+const maxFileSize: number = 1024 * 1024;
+
+/*
+    Build the checks that find every kind of ATT&CK ID that can be affected by a release
+    ... the IDs are looked up in the changes rather than the loaded data, so the checks have no objects of their own
+*/
+function getReferenceContext(): DiagnosticContext {
+    const checks: Array<[string, RegExp]> = [['technique', techniqueRegex], ['group', groupRegex], ['software', softwareRegex], ['mitigation', mitigationRegex]];
+    return {
+        checks: checks.map((check: [string, RegExp]) => {
+            return { kind: check[0], objects: new Map<string, Group|Mitigation|Software|Technique>(), regex: new RegExp(check[1].source, 'g') };
+        }),
+        severities: new Map<DiagnosticCategory, vscode.DiagnosticSeverity|undefined>(),
+        techniquesById: new Map<string, Array<Technique>>(),
+    };
+}
+
+/*
+    Find the references to the changed objects in some text
+*/
+export function findImpactedReferences(text: string, uri: vscode.Uri, changes: Map<string, Array<VersionChange>>): Array<ImpactedReference> {
+    const result: Array<ImpactedReference> = new Array<ImpactedReference>();
+    const context: DiagnosticContext = getReferenceContext();
+    text.split(/\r?\n/).forEach((line: string, lineNumber: number) => {
+        // the same whole IDs the diagnostics find, so custom IDs (e.g. 'RC-T1086') are not mistaken for ATT&CK IDs
+        const ids: Set<string> = new Set<string>(findIds(line, context).map<string>((found: FoundId) => { return found.normalized; }));
+        ids.forEach((id: string) => {
+            (changes.get(id) || []).forEach((change: VersionChange) => {
+                result.push({ change: change, line: lineNumber, uri: uri });
+            });
+        });
+    });
+    return result;
+}
+
+/*
+    Call the given function with the contents of every text file in the workspace, skipping binary and very large files
+    Open documents are read from the editor, so offsets match their unsaved changes rather than what is on disk
+*/
+export async function forEachWorkspaceFile(callback: (fileUri: vscode.Uri, contents: string) => void, token?: vscode.CancellationToken): Promise<void> {
+    const files: Array<vscode.Uri> = await vscode.workspace.findFiles('**/*', undefined, undefined, token);
+    for (const fileUri of files) {
+        if (token !== undefined && token.isCancellationRequested) { break; }
+        if (excludedDirectories.test(fileUri.path)) { continue; }
+        try {
+            const document: vscode.TextDocument|undefined = vscode.workspace.textDocuments.find((d: vscode.TextDocument) => { return d.uri.toString() === fileUri.toString(); });
+            const size: number = document !== undefined ? document.getText().length : (await vscode.workspace.fs.stat(fileUri)).size;
+            if (size > maxFileSize) { continue; }
+            const contents: string = document !== undefined ? document.getText() : new StringDecoder('utf8').end(Buffer.from(await vscode.workspace.fs.readFile(fileUri)));
+            // binary files would only produce accidental matches
+            if (contents.includes('\u0000')) { continue; }
+            callback(fileUri, contents);
+        } catch (err) {
+            if (debug) { log(`Could not search '${fileUri}' for ATT&CK references: ${err}`); }
+        }
+    }
+}
+
+/*
+    Search every file in the workspace for references to the changed objects
+*/
+export async function findWorkspaceReferences(changes: Array<VersionChange>, token?: vscode.CancellationToken): Promise<Array<ImpactedReference>> {
+    let result: Array<ImpactedReference> = new Array<ImpactedReference>();
+    const impactful: Map<string, Array<VersionChange>> = new Map<string, Array<VersionChange>>();
+    changes.filter((c: VersionChange) => { return impactKinds.includes(c.kind); }).forEach((c: VersionChange) => {
+        impactful.set(c.id, (impactful.get(c.id) || []).concat([c]));
+    });
+    if (impactful.size === 0) { return result; }
+    await forEachWorkspaceFile((fileUri: vscode.Uri, contents: string) => {
+        result = result.concat(findImpactedReferences(contents, fileUri, impactful));
+    }, token);
+    return result;
+}
+
+/*
+    Build the impact report as Markdown, grouped by file, with links to every affected line
+*/
+export function buildImpactReport(oldVersion: string, newVersion: string, references: Array<ImpactedReference>): string {
+    let report = `# Impact of ATT&CK v${oldVersion} to v${newVersion}\n\n`;
+    if (references.length === 0) {
+        return `${report}No references to revoked, deprecated, renamed or re-parented objects found in the workspace.\n`;
+    }
+    const byFile: Map<string, Array<ImpactedReference>> = new Map<string, Array<ImpactedReference>>();
+    references.forEach((reference: ImpactedReference) => {
+        const path: string = vscode.workspace.asRelativePath(reference.uri, false);
+        byFile.set(path, (byFile.get(path) || []).concat([reference]));
+    });
+    report += `${references.length} references to changed objects in ${byFile.size} files.\n\n`;
+    [...byFile.keys()].sort().forEach((path: string) => {
+        report += `## ${path}\n\n`;
+        (byFile.get(path) as Array<ImpactedReference>).forEach((reference: ImpactedReference) => {
+            const change: VersionChange = reference.change;
+            const details: string = change.details.length > 0 ? ` (${change.details})` : '';
+            report += `- [Line ${reference.line + 1}](${encodeURI(path)}#L${reference.line + 1}): **${change.id}** ${change.name} was ${kindDescriptions[change.kind]}${details}\n`;
+        });
+        report += '\n';
+    });
+    return report;
+}
+
+/*
+    Show which workspace files reference objects that changed between two cached versions
+    Without versions, the user is asked to pick them
+*/
+export async function releaseImpactCommand(storageUri: vscode.Uri, extensionPath: string, oldVersion?: string, newVersion?: string): Promise<vscode.WebviewPanel|undefined> {
+    if (oldVersion === undefined || newVersion === undefined) {
+        const versions: [string, string]|undefined = await pickVersions(storageUri);
+        if (versions === undefined) {
+            if (debug) { log('releaseImpact: Analysis cancelled'); }
+            return undefined;
+        }
+        [oldVersion, newVersion] = versions;
+    }
+    if (vscode.workspace.workspaceFolders === undefined) {
+        vscode.window.showWarningMessage('ATT&CK: Open a folder to find the files affected by a new ATT&CK release.');
+        return undefined;
+    }
+    const title = `ATT&CK: Impact of v${oldVersion} to v${newVersion}`;
+    const report: string|undefined = await vscode.window.withProgress({cancellable: true, location: vscode.ProgressLocation.Notification, title: title}, async (_progress: vscode.Progress<unknown>, token: vscode.CancellationToken) => {
+        const changes: Array<VersionChange>|undefined = await diffCachedVersions(storageUri, oldVersion as string, newVersion as string);
+        if (changes === undefined) { return undefined; }
+        const references: Array<ImpactedReference> = await findWorkspaceReferences(changes, token);
+        if (token.isCancellationRequested) { return undefined; }
+        log(`releaseImpact: Found ${references.length} references to changed objects`);
+        return buildImpactReport(oldVersion as string, newVersion as string, references);
+    });
+    if (report === undefined) { return undefined; }
+    return displayReport(title, report, `attack-v${oldVersion}-to-v${newVersion}-impact.md`, extensionPath);
+}
@@ -1,31 +1,174 @@
 import * as vscode from 'vscode';
 import { configSection, debug } from './configuration';
-import { log } from './helpers';
+import { escapeRegex, log } from './helpers';
 
+// turns the text to link and the URL to link to into a link in one document format
+export type LinkFormatter = (text: string, url: string) => string;
+
+// a link to insert in place of part of a document's text, by character offset
+export interface LinkEdit {
+    end: number;
+    newText: string;
+    start: number;
+}
+
+// a Markdown link definition, e.g. '[T1059]: https://attack.mitre.org/techniques/T1059'
+const definitionRegex = /^ {0,3}\[([^\]\n]+)\]:[ \t]*(\S+)[ \t]*$/;
+// every label a Markdown document refers to, in full ('[text][label]'), collapsed ('[label][]') or shortcut ('[label]') form
+const referenceRegex = /\[([^\]\n]*)\](?:\[([^\]\n]*)\])?(?![(:])/g;
+// Markdown code that is never a link: fenced code blocks and code spans
+export const codeRegexes: Array<RegExp> = [
+    /^(```|~~~)[\s\S]*?^\1/gm,
+    /`[^`\n]+`/g,
+];
+// the check box of a task list item, e.g. '- [x] done', which looks like a shortcut reference
+const taskRegex = /^[ \t]*(?:[-*+]|\d+[.)])[ \t]+\[[ xX]\]/gm;
+
+/*
+    Replace the code and task list check boxes in some Markdown text with spaces, keeping every line where it was
+*/
+function blankOutCode(text: string): string {
+    return codeRegexes.concat([taskRegex]).reduce((result: string, regex: RegExp) => {
+        return result.replace(regex, (match: string) => { return match.replace(/[^\n]/g, ' '); });
+    }, text);
+}
 
 /*
-    Generate the appropriate link format based on the current editor's file type
-    Currently only supports Markdown links, but more may be added in the future
+    Escape the characters that would otherwise be read as HTML markup
 */
-function generateLink(text: string, url: string): string|undefined {
-    let link: string|undefined = undefined;
-    if (vscode.window.activeTextEditor?.document.languageId === 'markdown') {
-        link = `[${text}](${url})`;
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+// the link formats that are known out of the box, by language ID
+const linkFormatters: Map<string, LinkFormatter> = new Map<string, LinkFormatter>([
+    ['asciidoc', (text: string, url: string) => { return `${url}[${text.replace(/]/g, '\\]')}]`; }],
+    ['confluence', (text: string, url: string) => { return `[${text}|${url}]`; }],
+    ['html', (text: string, url: string) => { return `<a href="${escapeHtml(url)}">${escapeHtml(text)}</a>`; }],
+    ['jira', (text: string, url: string) => { return `[${text}|${url}]`; }],
+    ['latex', (text: string, url: string) => { return `\\href{${url}}{${text}}`; }],
+    ['markdown', (text: string, url: string) => { return `[${text}](${url})`; }],
+    ['org', (text: string, url: string) => { return `[[${url}][${text}]]`; }],
+    // anonymous hyperlinks, so the same text can link to different URLs within one document
+    ['restructuredtext', (text: string, url: string) => { return `\`${text} <${url}>\`__`; }],
+]);
+
+/*
+    Add or replace the link format for a language
+*/
+export function registerLinkFormatter(languageId: string, formatter: LinkFormatter): void {
+    linkFormatters.set(languageId, formatter);
+}
+
+/*
+    Generate the appropriate link format based on the document's file type
+    Templates from the linkFormats setting come first, then the known formats, and anything else just gets the URL
+*/
+export function generateLink(text: string, url: string, languageId: string): string|undefined {
+    if (url === undefined || url.length === 0) { return undefined; }
+    const templates: Record<string, string> = vscode.workspace.getConfiguration(configSection).get('linkFormats') || {};
+    if (Object.prototype.hasOwnProperty.call(templates, languageId)) {
+        return templates[languageId].replace(/\{(text|url)\}/g, (_match: string, placeholder: string) => { return placeholder === 'text' ? text : url; });
     }
-    return link;
+    const formatter: LinkFormatter|undefined = linkFormatters.get(languageId);
+    return formatter !== undefined ? formatter(text, url) : url;
+}
+
+/*
+    Build a regex that finds the links generateLink() creates for a language, whatever their text and URL
+    ... by generating a link out of placeholders and matching anything where the placeholders are
+    Returns undefined when the language just gets the plain URL
+*/
+export function getLinkPattern(languageId: string): RegExp|undefined {
+    const textPlaceholder = '\u0001';
+    const urlPlaceholder = '\u0002';
+    const link: string|undefined = generateLink(textPlaceholder, urlPlaceholder, languageId);
+    if (link === undefined || link === urlPlaceholder) { return undefined; }
+    const source: string = escapeRegex(link).split(textPlaceholder).join('[^\\n]*?').split(urlPlaceholder).join('[^\\s]+?');
+    return new RegExp(source, 'g');
+}
+
+/*
+    Check whether Markdown links should be inserted as reference-style links, with a definition at the end of the file
+*/
+export function usesReferenceLinks(languageId: string): boolean {
+    return languageId === 'markdown' && vscode.workspace.getConfiguration(configSection).get('markdownLinkStyle') === 'reference';
+}
+
+/*
+    Generate a reference-style Markdown link to an object, labelled with the object's ID
+*/
+export function generateReferenceLink(text: string, id: string): string {
+    return `[${text}][${id}]`;
+}
+
+/*
+    Update the block of link definitions at the end of a Markdown document, as if the given edits were applied
+    ... definitions are added for every object ID that is referred to, and the ones no longer referred to are removed
+    Definitions for anything else than the given object IDs are left alone, and the whole block is kept sorted
+*/
+export function buildDefinitionBlockEdit(text: string, edits: Array<LinkEdit>, urlsById: Map<string, string>): LinkEdit|undefined {
+    // the block is the run of definitions at the very end of the document, if there is one
+    const lines: Array<string> = text.split('\n');
+    let blockLine: number = lines.length;
+    while (blockLine > 0 && lines[blockLine - 1].trim().length === 0) { blockLine--; }
+    while (blockLine > 0 && definitionRegex.test(lines[blockLine - 1])) { blockLine--; }
+    const blockStart: number = lines.slice(0, blockLine).join('\n').length;
+    const body: string = text.substring(0, blockStart).replace(/\s+$/, '');
+    const block: Array<string> = lines.slice(blockLine).filter((line: string) => { return line.trim().length > 0; });
+    // edits never touch the block, since link definitions are never linked again
+    let editedBody: string = body;
+    edits.slice().sort((a: LinkEdit, b: LinkEdit) => { return b.start - a.start; }).forEach((edit: LinkEdit) => {
+        editedBody = editedBody.substring(0, edit.start) + edit.newText + editedBody.substring(edit.end);
+    });
+    const used: Set<string> = new Set<string>();
+    const definedInBody: Set<string> = new Set<string>();
+    // references inside code don't count as uses
+    blankOutCode(editedBody).split('\n').forEach((line: string) => {
+        const definition: RegExpExecArray|null = definitionRegex.exec(line);
+        if (definition !== null) {
+            definedInBody.add(definition[1].toLowerCase());
+            return;
+        }
+        referenceRegex.lastIndex = 0;
+        let match: RegExpExecArray|null = null;
+        while ((match = referenceRegex.exec(line)) !== null) {
+            used.add((match[2] !== undefined && match[2].length > 0 ? match[2] : match[1]).toLowerCase());
+        }
+    });
+    const managed: Map<string, string> = new Map<string, string>();
+    urlsById.forEach((url: string, id: string) => { managed.set(id.toLowerCase(), id); });
+    const definitions: Map<string, string> = new Map<string, string>();
+    block.forEach((line: string) => {
+        const label: string = (definitionRegex.exec(line) as RegExpExecArray)[1];
+        // leave the user's own definitions be, but drop the ones the extension added that are not needed anymore
+        if (!managed.has(label.toLowerCase()) || used.has(label.toLowerCase())) { definitions.set(label.toLowerCase(), line); }
+    });
+    used.forEach((label: string) => {
+        const id: string|undefined = managed.get(label);
+        if (id === undefined || definitions.has(label) || definedInBody.has(label)) { return; }
+        definitions.set(label, `[${id}]: ${urlsById.get(id)}`);
+    });
+    const sorted: Array<string> = Array.from(definitions.keys()).sort((a: string, b: string) => { return a.localeCompare(b); });
+    const newBlock: string = sorted.map<string>((label: string) => { return definitions.get(label) as string; }).join('\n');
+    if (block.length === 0 && newBlock.length === 0) { return undefined; }
+    const newText: string = newBlock.length > 0 ? `\n\n${newBlock}\n` : (text.endsWith('\n') ? '\n' : '');
+    if (text.substring(body.length) === newText) { return undefined; }
+    return { end: text.length, newText: newText, start: body.length };
 }
 
 /*
     Compare a given string to an object's ID or name case insensitively
 */
-function isMatching(text: string, attackObject: Group|Mitigation|Software|Tactic|Technique): boolean {
+function isMatching(text: string, attackObject: AttackDataSource|Campaign|Group|Mitigation|Software|Tactic|Technique): boolean {
     const textLower: string = text.toLocaleLowerCase();
     return attackObject.id.toLocaleLowerCase() === textLower || attackObject.name.toLocaleLowerCase() === textLower;
 }
 
 export function insertLink(editor: vscode.TextEditor|undefined, groups: Array<Group>=[],
                            mitigations: Array<Mitigation>=[], software: Array<Software>=[],
-                           tactics: Array<Tactic>=[], techniques: Array<Technique>=[]): void {
+                           tactics: Array<Tactic>=[], techniques: Array<Technique>=[],
+                           dataSources: Array<AttackDataSource>=[], campaigns: Array<Campaign>=[]): void {
     if (editor === undefined) {
         // there's no open text document, so there couldn't possibly be highlighted text
         if (debug) { log('insertLink: Could not identify an active editor, so no text can be inserted.'); }
@@ -37,9 +180,10 @@ export function insertLink(editor: vscode.TextEditor|undefined, groups: Array<Gr
         // user isn't highlighting anything - just has a cursor pointed at something
         if (currentSelection.isEmpty) {
             // Need to match all ATT&CK IDs generically, including sub-techniques, hence the period
+            // ... and custom IDs (e.g. 'RC-T0001'), hence the hyphen
             // ... only matches 1 word - if the user needs to insert a link for multiple words (e.g. 'OS Credential Dumping')
             // ... then they will need to highlight the entire term
-            const wordMatcher: RegExp = /[a-zA-Z0-9.]+/;
+            const wordMatcher: RegExp = /[a-zA-Z0-9.-]+/;
             const cursorRange: vscode.Range|undefined = editor.document.getWordRangeAtPosition(currentSelection.active, wordMatcher);
             // if cursorRange is undefined, most likely the selected text is not a word
             // ... in this case, just carry through and let the highlightedText remain undefined
@@ -57,7 +201,7 @@ export function insertLink(editor: vscode.TextEditor|undefined, groups: Array<Gr
         const trimmedText = highlightedText.trimRight();
         if (debug) { log(`insertLink: Text to insert a link for: '${trimmedText}'`); }
         const configuration: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration(configSection);
-        let matchingObject: Group|Mitigation|Software|Tactic|Technique|undefined = undefined;
+        let matchingObject: AttackDataSource|Campaign|Group|Mitigation|Software|Tactic|Technique|undefined = undefined;
         // search all ATT&CK types for the first matching ID
         if (matchingObject === undefined && configuration.get('groups')) {
             matchingObject = groups.find((g: Group) => { return isMatching(trimmedText, g); });
@@ -74,6 +218,12 @@ export function insertLink(editor: vscode.TextEditor|undefined, groups: Array<Gr
         if (matchingObject === undefined && configuration.get('techniques')) {
             matchingObject = techniques.find((t: Technique) => { return isMatching(trimmedText, t); });
         }
+        if (matchingObject === undefined && configuration.get('dataSources')) {
+            matchingObject = dataSources.find((d: AttackDataSource) => { return isMatching(trimmedText, d); });
+        }
+        if (matchingObject === undefined && configuration.get('campaigns')) {
+            matchingObject = campaigns.find((c: Campaign) => { return isMatching(trimmedText, c); });
+        }
 
         if (matchingObject === undefined) {
             // doesn't look like the highlighted text resembles any ATT&CK object we're aware of
@@ -81,7 +231,9 @@ export function insertLink(editor: vscode.TextEditor|undefined, groups: Array<Gr
             vscode.window.showWarningMessage(`ATT&CK: Could not insert a link, because '${trimmedText.substr(0, 20)}' does not match any available ATT&CK objects.`);
             return;
         }
-        const link: string|undefined = generateLink(trimmedText, matchingObject.url);
+        const document: vscode.TextDocument = editor.document;
+        const referenceLinks: boolean = usesReferenceLinks(document.languageId);
+        const link: string|undefined = referenceLinks ? generateReferenceLink(trimmedText, matchingObject.id) : generateLink(trimmedText, matchingObject.url, document.languageId);
         if (link === undefined) {
             // we should never get here since we should've detected malformed ATT&CK objects on startup
             // ... but still, let's try to inform the user if something weird happens
@@ -92,7 +244,21 @@ export function insertLink(editor: vscode.TextEditor|undefined, groups: Array<Gr
             // and we're finally at the point where a link can be inserted
             editor.edit((editBuilder: vscode.TextEditorEdit) => {
                 if (debug) { log(`insertLink: Found a matching object. Inserting the following text: '${link}'`); }
-                if (highlightedText !== trimmedText) {
+                if (referenceLinks) {
+                    // only replace the text itself, since its trailing whitespace may run into the link definitions
+                    const start: number = document.offsetAt(currentSelection.start);
+                    const linkEdit: LinkEdit = { end: start + trimmedText.length, newText: link, start: start };
+                    editBuilder.replace(new vscode.Range(currentSelection.start, document.positionAt(linkEdit.end)), link);
+                    const urlsById: Map<string, string> = new Map<string, string>();
+                    [groups, mitigations, software, tactics, techniques, dataSources, campaigns].forEach((objects: Array<AttackDataSource|Campaign|Group|Mitigation|Software|Tactic|Technique>) => {
+                        objects.forEach((obj: AttackDataSource|Campaign|Group|Mitigation|Software|Tactic|Technique) => { urlsById.set(obj.id, obj.url); });
+                    });
+                    const definitionEdit: LinkEdit|undefined = buildDefinitionBlockEdit(document.getText(), [linkEdit], urlsById);
+                    if (definitionEdit !== undefined) {
+                        editBuilder.replace(new vscode.Range(document.positionAt(definitionEdit.start), document.positionAt(definitionEdit.end)), definitionEdit.newText);
+                    }
+                }
+                else if (highlightedText !== trimmedText) {
                     // append extra whitespace if there is any
                     editBuilder.replace(currentSelection, link + highlightedText.replace(trimmedText, ''));
                 }
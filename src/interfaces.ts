@@ -1,3 +1,25 @@
+interface AttackDataSource {
+    components: Array<DataComponent>;
+    description: {
+        short: string;
+        long: string;
+    };
+    domains: Array<string>;
+    id: string;
+    name: string;
+    url: string;
+}
+interface AttackIndex {
+    // bumped whenever the indexed fields change, so stale indexes are rebuilt
+    format: number;
+    // the raw bundle this index was built from
+    source: {
+        mtime: number;
+        size: number;
+    };
+    // every object, with only the fields the extension reads
+    objects: Array<AttackObject>;
+}
 interface AttackMap {
     type: string;
     id: string;
@@ -9,15 +31,56 @@ interface AttackObject {
     created: string;
     description: string;
     external_references: Array<ExternalReference>;
+    first_seen: string;		// when a campaign was first seen
     id: string;
     kill_chain_phases: Array<KillChainPhase>;
+    last_seen: string;		// when a campaign was last seen
     modified: string;
     name: string;
+    relationship_type: string;
     revoked: boolean;
+    source_ref: string;
+    target_ref: string;
     type: string;
     x_mitre_aliases: Array<string>;		// same function as "aliases" key, but for some reason this is also here
+    x_mitre_data_source_ref: string;		// the STIX ID of a data component's data source
+    x_mitre_data_sources: Array<string>;		// e.g. 'Process: Process Creation'
+    x_mitre_defense_bypassed: Array<string>;
+    x_mitre_detection: string;
     x_mitre_is_subtechnique: boolean;
     x_mitre_deprecated: boolean;
+    x_mitre_domains: Array<string>;
+    x_mitre_permissions_required: Array<string>;
+    x_mitre_platforms: Array<string>;
+    x_mitre_version: string;
+}
+interface Campaign {
+    aliases: Array<string>;
+    description: {
+        short: string;
+        long: string;
+    };
+    domains: Array<string>;
+    // timestamps, which not every campaign has
+    firstSeen: string | undefined;
+    id: string;
+    lastSeen: string | undefined;
+    name: string;
+    url: string;
+}
+interface DataComponent {
+    description: {
+        short: string;
+        long: string;
+    };
+    // STIX ID, since data components do not have an ATT&CK ID
+    id: string;
+    name: string;
+}
+interface DataSource {
+    kind: 'cache' | 'download' | 'local' | 'taxii';
+    location: string;
+    version: string;
 }
 interface ExternalReference {
     source_name: string;
@@ -30,6 +93,7 @@ interface Group {
         short: string;
         long: string;
     };
+    domains: Array<string>;
     id: string;
     name: string;
     url: string;
@@ -49,16 +113,43 @@ interface Mitigation {
         short: string;
         long: string;
     };
+    domains: Array<string>;
     id: string;
     name: string;
     url: string;
 }
+interface RelatedObject {
+    // ATT&CK ID, or STIX ID for objects without one
+    id: string;
+    name: string;
+    stixId: string;
+    // STIX type, e.g. 'intrusion-set'
+    type: string;
+}
+interface Relationship {
+    // STIX IDs, since ATT&CK IDs are not unique (e.g. pre-v5 mitigations share the IDs of techniques)
+    source: string;
+    target: string;
+    // e.g. 'uses', 'mitigates', 'subtechnique-of', 'revoked-by', 'detects'
+    type: string;
+}
+interface RelationshipGraph {
+    // source STIX ID => relationships from that object
+    from: Map<string, Array<Relationship>>;
+    // ATT&CK ID => STIX IDs of every object with that ID
+    ids: Map<string, Array<string>>;
+    // STIX ID => object
+    objects: Map<string, RelatedObject>;
+    // target STIX ID => relationships to that object
+    to: Map<string, Array<Relationship>>;
+}
 interface Software {
     aliases: Array<string>;
     description: {
         short: string;
         long: string;
     };
+    domains: Array<string>;
     id: string;
     name: string;
     url: string;
@@ -68,21 +159,31 @@ interface Tactic {
         short: string;
         long: string;
     };
+    domains: Array<string>;
     id: string;
     name: string;
     url: string;
 }
 interface Technique {
+    // data sources and components that can detect the technique, e.g. 'Process: Process Creation'
+    dataSources: Array<string>;
+    defenseBypassed: Array<string>;
     deprecated: boolean;
     description: {
         short: string;
         long: string;
     };
+    detection: string | undefined;
+    domains: Array<string>;
     id: string;
     name: string;
     parent: Technique | undefined;
+    permissionsRequired: Array<string>;
+    platforms: Array<string>;
     revoked: boolean;
     subtechnique: boolean;
     tactics: Array<string>;
     url: string;
+    // ATT&CK version of the object itself, e.g. '1.2'
+    version: string | undefined;
 }
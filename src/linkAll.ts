@@ -0,0 +1,138 @@
+import * as vscode from 'vscode';
+import { configSection, debug } from './configuration';
+import { DiagnosticContext, FoundId, IdCheck, buildDiagnosticContext, findIds } from './diagnostics';
+import { escapeRegex, log } from './helpers';
+import { LinkEdit, buildDefinitionBlockEdit, codeRegexes, generateLink, generateReferenceLink, getLinkPattern, usesReferenceLinks } from './insertLink';
+
+// an object name found in some text, along with the object it refers to
+interface NameReference {
+    end: number;
+    obj: AttackDataSource|Campaign|Group|Mitigation|Software|Tactic|Technique;
+    start: number;
+}
+
+// text that must not be linked (again): fenced code blocks, code spans, Markdown links (including shortcut references) and link definitions, and URLs
+const skippedRegexes: Array<RegExp> = codeRegexes.concat([
+    /\[[^\]\n]*\](?:\([^)\s]*\)|\[[^\]\n]*\])?/g,
+    /^ {0,3}\[[^\]\n]+\]:\s*\S+/gm,
+    /<a\s[^>]*>[\s\S]*?<\/a>/gi,
+    /https?:\/\/[^\s)>\]]+/g,
+]);
+
+/*
+    Find the parts of some text that are already links or code, as [start, end) offsets
+    ... including links in the document's own format (e.g. '\\href{url}{T1059}' in LaTeX), so linking twice changes nothing
+*/
+function findSkippedRanges(text: string, languageId: string): Array<[number, number]> {
+    const ranges: Array<[number, number]> = new Array<[number, number]>();
+    const linkPattern: RegExp|undefined = getLinkPattern(languageId);
+    (linkPattern !== undefined ? skippedRegexes.concat([linkPattern]) : skippedRegexes).forEach((regex: RegExp) => {
+        regex.lastIndex = 0;
+        let match: RegExpExecArray|null = null;
+        while ((match = regex.exec(text)) !== null) {
+            if (match[0].length === 0) { regex.lastIndex++; continue; }
+            ranges.push([match.index, match.index + match[0].length]);
+        }
+    });
+    return ranges;
+}
+
+/*
+    Find every exact name of a current ATT&CK object in some text, longest names first
+    ... so 'PowerShell Profile' is not linked as 'PowerShell'
+*/
+function findNames(text: string, context: DiagnosticContext): Array<NameReference> {
+    const objects: Array<AttackDataSource|Campaign|Group|Mitigation|Software|Tactic|Technique> = new Array<AttackDataSource|Campaign|Group|Mitigation|Software|Tactic|Technique>();
+    context.checks.forEach((check: IdCheck) => {
+        check.objects.forEach((obj: AttackDataSource|Campaign|Group|Mitigation|Software|Tactic|Technique) => {
+            if (!(obj as Technique).revoked) { objects.push(obj); }
+        });
+    });
+    objects.sort((a: AttackDataSource|Campaign|Group|Mitigation|Software|Tactic|Technique, b: AttackDataSource|Campaign|Group|Mitigation|Software|Tactic|Technique) => { return b.name.length - a.name.length; });
+    const result: Array<NameReference> = new Array<NameReference>();
+    objects.forEach((obj: AttackDataSource|Campaign|Group|Mitigation|Software|Tactic|Technique) => {
+        const regex: RegExp = new RegExp(escapeRegex(obj.name), 'g');
+        let match: RegExpExecArray|null = null;
+        while ((match = regex.exec(text)) !== null) {
+            const end: number = match.index + match[0].length;
+            // only whole words, so 'Process' is not linked in 'Processing'
+            if (/\w/.test(text.charAt(match.index - 1)) || /\w/.test(text.charAt(end))) { continue; }
+            result.push({ end: end, obj: obj, start: match.index });
+        }
+    });
+    return result;
+}
+
+/*
+    Find every ATT&CK ID (and optionally object name) in some text that is not part of a link or code yet
+    Reference-style links are labelled with the object's ID, and still need a definition
+*/
+export function findLinkEdits(text: string, context: DiagnosticContext, languageId: string, includeNames = false, referenceLinks = false): Array<LinkEdit> {
+    const edits: Array<LinkEdit> = new Array<LinkEdit>();
+    const covered: Array<[number, number]> = findSkippedRanges(text, languageId);
+    const isCovered = (start: number, end: number): boolean => {
+        return covered.some((range: [number, number]) => { return start < range[1] && end > range[0]; });
+    };
+    const addEdit = (start: number, end: number, obj: AttackDataSource|Campaign|Group|Mitigation|Software|Tactic|Technique): void => {
+        const link: string|undefined = referenceLinks ? generateReferenceLink(text.substring(start, end), obj.id) : generateLink(text.substring(start, end), obj.url, languageId);
+        if (link === undefined || isCovered(start, end)) { return; }
+        edits.push({ end: end, newText: link, start: start });
+        covered.push([start, end]);
+    };
+    findIds(text, context).forEach((found: FoundId) => {
+        const obj: AttackDataSource|Campaign|Group|Mitigation|Software|Tactic|Technique|undefined = found.check.objects.get(found.normalized);
+        if (obj !== undefined) { addEdit(found.start, found.end, obj); }
+    });
+    if (includeNames) {
+        findNames(text, context).forEach((name: NameReference) => { addEdit(name.start, name.end, name.obj); });
+    }
+    return edits.sort((a: LinkEdit, b: LinkEdit) => { return a.start - b.start; });
+}
+
+/*
+    Turn every ATT&CK reference in the selections, or the whole document when nothing is selected, into a link
+    With several cursors, only the references under the cursors are linked
+    All links are inserted in a single edit, so they can be undone at once
+*/
+export async function linkAll(editor: vscode.TextEditor|undefined, techniques: Array<Technique>, tactics: Array<Tactic>, groups: Array<Group>,
+                              software: Array<Software>, mitigations: Array<Mitigation>, dataSources: Array<AttackDataSource>, campaigns: Array<Campaign>): Promise<number> {
+    if (editor === undefined) {
+        if (debug) { log('linkAll: Could not identify an active editor, so no links can be inserted.'); }
+        vscode.window.showWarningMessage('ATT&CK: Could not insert links, because there is no active text document.');
+        return 0;
+    }
+    const document: vscode.TextDocument = editor.document;
+    const context: DiagnosticContext = buildDiagnosticContext(techniques, tactics, groups, software, mitigations, dataSources, campaigns);
+    const includeNames: boolean = vscode.workspace.getConfiguration(configSection).get('linkObjectNames') || false;
+    const referenceLinks: boolean = usesReferenceLinks(document.languageId);
+    // the whole document is scanned either way, so links and code spans crossing a selection's edge are still recognized
+    let edits: Array<LinkEdit> = findLinkEdits(document.getText(), context, document.languageId, includeNames, referenceLinks);
+    const selections: ReadonlyArray<vscode.Selection> = editor.selections;
+    if (selections.length > 1 || !selections[0].isEmpty) {
+        edits = edits.filter((edit: LinkEdit) => {
+            const range: vscode.Range = new vscode.Range(document.positionAt(edit.start), document.positionAt(edit.end));
+            return selections.some((s: vscode.Selection) => { return s.isEmpty ? range.contains(s.active) : s.contains(range); });
+        });
+    }
+    let definitionEdit: LinkEdit|undefined = undefined;
+    if (referenceLinks) {
+        // even without new links, definitions of references that were removed are cleaned up
+        const urlsById: Map<string, string> = new Map<string, string>();
+        context.checks.forEach((check: IdCheck) => {
+            check.objects.forEach((obj: AttackDataSource|Campaign|Group|Mitigation|Software|Tactic|Technique) => { urlsById.set(obj.id, obj.url); });
+        });
+        definitionEdit = buildDefinitionBlockEdit(document.getText(), edits, urlsById);
+    }
+    if (edits.length === 0 && definitionEdit === undefined) {
+        vscode.window.showInformationMessage('ATT&CK: No unlinked ATT&CK references found.');
+        return 0;
+    }
+    const applied: boolean = await editor.edit((editBuilder: vscode.TextEditorEdit) => {
+        // the definitions are a single edit at the end of the document, so the links and their definitions are undone together
+        (definitionEdit !== undefined ? edits.concat([definitionEdit]) : edits).forEach((edit: LinkEdit) => {
+            editBuilder.replace(new vscode.Range(document.positionAt(edit.start), document.positionAt(edit.end)), edit.newText);
+        });
+    });
+    log(`linkAll: Inserted ${applied ? edits.length : 0} links`);
+    return applied ? edits.length : 0;
+}
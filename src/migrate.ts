@@ -0,0 +1,158 @@
+import * as vscode from 'vscode';
+import { debug } from './configuration';
+import { isWholeId } from './diagnostics';
+import { getRevokedTechniques, indexBy, log } from './helpers';
+import { forEachWorkspaceFile } from './impact';
+import { getReplacement } from './techniques';
+
+export interface Migration {
+    replacement: Technique;
+    revoked: Technique;
+}
+
+// a replacement of part of a file's contents, by character offset
+export interface MigrationEdit {
+    end: number;
+    migration: Migration;
+    newText: string;
+    start: number;
+}
+
+// Markdown links, e.g. the ones insertLink() generates: [T1086](https://attack.mitre.org/techniques/T1086)
+const linkRegex = /\[([^\]\n]*)\]\(([^)\s]+)\)/g;
+// technique pages on the ATT&CK site, e.g. https://attack.mitre.org/techniques/T1059/001/
+const urlRegex = /https?:\/\/attack\.mitre\.org\/techniques\/(T\d{4})(?:\/(\d{3}))?\/?/g;
+// technique IDs, including the T1059/001 way of writing sub-techniques
+const idRegex = /T\d{4}(?:[./]\d{3})?/g;
+
+/*
+    Map every revoked technique ID to the current technique that replaced it
+*/
+export function buildMigrations(techniques: Array<Technique>): Map<string, Migration> {
+    const migrations: Map<string, Migration> = new Map<string, Migration>();
+    const techniquesById: Map<string, Array<Technique>> = indexBy(techniques, (t: Technique) => { return [t.id]; });
+    getRevokedTechniques(techniques).forEach((revoked: Technique) => {
+        const replacement: Technique|undefined = getReplacement(revoked, techniquesById);
+        if (replacement !== undefined) { migrations.set(revoked.id, { replacement: replacement, revoked: revoked }); }
+    });
+    return migrations;
+}
+
+/*
+    Find the technique ID an ATT&CK site URL points to, if it is one
+*/
+function getUrlId(url: string): string|undefined {
+    urlRegex.lastIndex = 0;
+    const match: RegExpExecArray|null = urlRegex.exec(url);
+    if (match === null || match.index !== 0 || match[0].length !== url.length) { return undefined; }
+    return match[2] !== undefined ? `${match[1]}.${match[2]}` : match[1];
+}
+
+/*
+    Replace every revoked technique ID in some text with the ID of its replacement
+*/
+function replaceIds(text: string, migrations: Map<string, Migration>): string {
+    return text.replace(idRegex, (id: string, offset: number) => {
+        const migration: Migration|undefined = migrations.get(id.replace('/', '.'));
+        if (migration === undefined || !isWholeId(text, offset, offset + id.length)) { return id; }
+        return id.includes('/') ? migration.replacement.id.replace('.', '/') : migration.replacement.id;
+    });
+}
+
+/*
+    Find every reference to a revoked technique in some text: Markdown links, ATT&CK site URLs and bare IDs
+*/
+export function findMigrationEdits(text: string, migrations: Map<string, Migration>): Array<MigrationEdit> {
+    const edits: Array<MigrationEdit> = new Array<MigrationEdit>();
+    const isCovered = (start: number, end: number): boolean => {
+        return edits.some((edit: MigrationEdit) => { return start < edit.end && end > edit.start; });
+    };
+    // links first, since their text may be the name of the revoked technique rather than its ID
+    let match: RegExpExecArray|null = null;
+    linkRegex.lastIndex = 0;
+    while ((match = linkRegex.exec(text)) !== null) {
+        const id: string|undefined = getUrlId(match[2]);
+        const migration: Migration|undefined = id !== undefined ? migrations.get(id) : undefined;
+        if (migration === undefined) { continue; }
+        const linkText: string = match[1].toLowerCase() === migration.revoked.name.toLowerCase() ? migration.replacement.name : replaceIds(match[1], migrations);
+        edits.push({ end: match.index + match[0].length, migration: migration, newText: `[${linkText}](${migration.replacement.url})`, start: match.index });
+    }
+    urlRegex.lastIndex = 0;
+    while ((match = urlRegex.exec(text)) !== null) {
+        const id: string = match[2] !== undefined ? `${match[1]}.${match[2]}` : match[1];
+        const migration: Migration|undefined = migrations.get(id);
+        // the URL's own path would otherwise be mistaken for a bare ID below
+        const end: number = match.index + match[0].length;
+        if (migration === undefined || isCovered(match.index, end)) { continue; }
+        edits.push({ end: end, migration: migration, newText: match[0].endsWith('/') ? `${migration.replacement.url}/` : migration.replacement.url, start: match.index });
+    }
+    idRegex.lastIndex = 0;
+    while ((match = idRegex.exec(text)) !== null) {
+        const migration: Migration|undefined = migrations.get(match[0].replace('/', '.'));
+        const end: number = match.index + match[0].length;
+        if (migration === undefined || !isWholeId(text, match.index, end) || isCovered(match.index, end)) { continue; }
+        const newText: string = match[0].includes('/') ? migration.replacement.id.replace('.', '/') : migration.replacement.id;
+        edits.push({ end: end, migration: migration, newText: newText, start: match.index });
+    }
+    return edits.sort((a: MigrationEdit, b: MigrationEdit) => { return a.start - b.start; });
+}
+
+/*
+    Convert character offsets into positions, given the offset every line starts at
+*/
+function getPosition(lineStarts: Array<number>, offset: number): vscode.Position {
+    // find the last line starting at or before the offset
+    let low = 0;
+    let high: number = lineStarts.length - 1;
+    while (low < high) {
+        const middle: number = Math.ceil((low + high) / 2);
+        if (lineStarts[middle] <= offset) { low = middle; }
+        else { high = middle - 1; }
+    }
+    return new vscode.Position(low, offset - lineStarts[low]);
+}
+
+/*
+    Scan the workspace for revoked technique IDs and let the user review replacing them with their replacements
+*/
+export async function migrateRevokedTechniques(techniques: Array<Technique>): Promise<boolean> {
+    if (vscode.workspace.workspaceFolders === undefined) {
+        vscode.window.showWarningMessage('ATT&CK: Open a folder to migrate revoked techniques.');
+        return false;
+    }
+    const migrations: Map<string, Migration> = buildMigrations(techniques);
+    if (debug) { log(`migrateRevokedTechniques: ${migrations.size} revoked techniques have a replacement`); }
+    const edit: vscode.WorkspaceEdit = new vscode.WorkspaceEdit();
+    let editCount = 0;
+    const cancelled: boolean = await vscode.window.withProgress({cancellable: true, location: vscode.ProgressLocation.Notification, title: 'ATT&CK: Searching for revoked techniques'}, async (_progress: vscode.Progress<unknown>, token: vscode.CancellationToken) => {
+        await forEachWorkspaceFile((fileUri: vscode.Uri, contents: string) => {
+            const edits: Array<MigrationEdit> = findMigrationEdits(contents, migrations);
+            if (edits.length === 0) { return; }
+            const lineStarts: Array<number> = [0];
+            for (let i = 0; i < contents.length; i++) {
+                if (contents.charAt(i) === '\n') { lineStarts.push(i + 1); }
+            }
+            edits.forEach((migrationEdit: MigrationEdit) => {
+                const range: vscode.Range = new vscode.Range(getPosition(lineStarts, migrationEdit.start), getPosition(lineStarts, migrationEdit.end));
+                // edits are grouped by label in the refactoring preview, so each revoked technique can be reviewed on its own
+                edit.replace(fileUri, range, migrationEdit.newText, {
+                    description: `${migrationEdit.migration.revoked.name} was replaced by ${migrationEdit.migration.replacement.name}`,
+                    label: `${migrationEdit.migration.revoked.id} to ${migrationEdit.migration.replacement.id}`,
+                    needsConfirmation: true,
+                });
+            });
+            editCount += edits.length;
+        }, token);
+        return token.isCancellationRequested;
+    });
+    if (cancelled) {
+        if (debug) { log('migrateRevokedTechniques: Search cancelled'); }
+        return false;
+    }
+    if (editCount === 0) {
+        vscode.window.showInformationMessage('ATT&CK: No references to revoked techniques found in the workspace.');
+        return false;
+    }
+    log(`migrateRevokedTechniques: Found ${editCount} references to revoked techniques in ${edit.size} files`);
+    return vscode.workspace.applyEdit(edit);
+}
@@ -1,12 +1,12 @@
 import * as vscode from 'vscode';
-import { completionFormat, configSection, debug } from './configuration';
-import { minTermLength, log, mitigationRegex } from './helpers';
+import { additionalDomains, completionFormat, configSection, debug, domainSuffix } from './configuration';
+import { formatDomains, getAttackReference, getDomains, indexBy, log, lookupByLabel, minTermLength, mitigationRegex } from './helpers';
 
 /*
     Build a completion item's insertion text based on settings
     TODO: Generalize this across object types
 */
-function buildInsertionText(tool: Mitigation): string {
+export function buildInsertionText(tool: Mitigation): string {
     let insertionText: string = tool.id;
     if (completionFormat === 'id-name' || completionFormat === 'id-fullname') {
         insertionText = `${tool.id} ${tool.name}`;
@@ -26,7 +26,7 @@ function buildInsertionText(tool: Mitigation): string {
 function buildCompletionItem(label: string, mitigation: Mitigation): vscode.CompletionItem {
     const completionItem: vscode.CompletionItem = new vscode.CompletionItem(label, vscode.CompletionItemKind.Value);
     const insertionText: string = buildInsertionText(mitigation);
-    completionItem.detail = insertionText;
+    completionItem.detail = `${insertionText}${domainSuffix(mitigation.domains)}`;
     completionItem.insertText = insertionText;
     return completionItem;
 }
@@ -43,6 +43,8 @@ function buildMitigationDescription(mitigation: Mitigation, descriptionType: str
     // source link
     if (mitigation.url !== undefined) { mdBuilder.appendMarkdown(`[Source Link](${mitigation.url})\n\n`); }
     else { mdBuilder.appendMarkdown(`No source link available\n\n`); }
+    // domains, but only when more than one is loaded
+    if (additionalDomains.length > 0) { mdBuilder.appendMarkdown(`**Domain**: ${formatDomains(mitigation.domains)}\n\n`); }
     // description
     if (descriptionType && descriptionType === 'long') { mdBuilder.appendMarkdown(mitigation.description.long); }
     else if (descriptionType && descriptionType === 'short') { mdBuilder.appendMarkdown(mitigation.description.short); }
@@ -61,17 +63,17 @@ export async function init(attackData: AttackMap): Promise<Array<Mitigation>> {
                     short: description.split("\n")[0],
                     long: description
                 },
+                domains: getDomains(item),
                 id: '<unknown>',
                 name: item.name,
                 url: '<unknown>'
             };
-            item.external_references?.forEach((reference: ExternalReference) => {
-                if (reference.source_name === 'mitre-attack') {
-                    mitigation.id = reference.external_id;
-                    mitigation.url = reference.url;
-                    return; // found what we were looking for - no need to iterate over the rest
-                }
-            });
+            // custom objects may be identified by a source other than 'mitre-attack'
+            const reference: ExternalReference|undefined = getAttackReference(item);
+            if (reference !== undefined) {
+                mitigation.id = reference.external_id;
+                mitigation.url = reference.url;
+            }
             return mitigation;
         });
         // certain techniques have their own mitigation entry with an ID that matches their technique ID
@@ -84,6 +86,7 @@ export async function init(attackData: AttackMap): Promise<Array<Mitigation>> {
 
 export class MitigationHoverProvider implements vscode.HoverProvider {
     public mitigations: Array<Mitigation> = new Array<Mitigation>();
+    public mitigationsById: Map<string, Array<Mitigation>> = new Map<string, Array<Mitigation>>();
 
     public provideHover(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken): vscode.ProviderResult<vscode.Hover> {
         try {
@@ -98,10 +101,11 @@ export class MitigationHoverProvider implements vscode.HoverProvider {
                 hoverRange = document.getWordRangeAtPosition(position, mitigationRegex);
                 if (hoverRange !== undefined) {
                     const hoverTerm: string = document.getText(hoverRange);
-                    const currentMitigation: Mitigation | undefined = this.mitigations.find((g: Mitigation) => { return g.id === hoverTerm; });
-                    if (currentMitigation !== undefined) {
-                        if (debug) { log(`MitigationHoverProvider: Found exact Mitigation ID '${currentMitigation.id}'`); }
-                        hover = new vscode.Hover(buildMitigationDescription(currentMitigation), hoverRange);
+                    // the same ID can belong to different objects in different domains, so show every match
+                    const currentMitigations: Array<Mitigation> = this.mitigationsById.get(hoverTerm) || new Array<Mitigation>();
+                    if (currentMitigations.length > 0) {
+                        if (debug) { log(`MitigationHoverProvider: Found exact Mitigation ID '${hoverTerm}'`); }
+                        hover = new vscode.Hover(currentMitigations.map<vscode.MarkdownString>((g: Mitigation) => { return buildMitigationDescription(g); }), hoverRange);
                     }
                 }
                 resolve(hover);
@@ -114,6 +118,8 @@ export class MitigationHoverProvider implements vscode.HoverProvider {
 
 export class MitigationCompletionProvider implements vscode.CompletionItemProvider {
     public mitigations: Array<Mitigation> = new Array<Mitigation>();
+    public mitigationsById: Map<string, Array<Mitigation>> = new Map<string, Array<Mitigation>>();
+    public mitigationsByName: Map<string, Array<Mitigation>> = new Map<string, Array<Mitigation>>();
 
     public provideCompletionItems(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken): vscode.ProviderResult<vscode.CompletionItem[] | vscode.CompletionList> {
         try {
@@ -125,7 +131,8 @@ export class MitigationCompletionProvider implements vscode.CompletionItemProvid
                 });
                 let completionItems: Array<vscode.CompletionItem> = new Array<vscode.CompletionItem>();
                 let dbgMsg = '';
-                const completionRange: vscode.Range | undefined = document.getWordRangeAtPosition(position);
+                // custom IDs (e.g. 'RC-G0001') may contain characters that are not part of a regular word
+                const completionRange: vscode.Range | undefined = document.getWordRangeAtPosition(position, mitigationRegex) || document.getWordRangeAtPosition(position);
                 if (completionRange === undefined) {
                     if (debug) { log('MitigationCompletionProvider: No completion item range provided.'); }
                 }
@@ -133,11 +140,11 @@ export class MitigationCompletionProvider implements vscode.CompletionItemProvid
                     const completionTerm: string = document.getText(completionRange);
                     // only return everything if this is a "long" term
                     if (completionTerm.length >= minTermLength) {
-                        // if the user is trying to complete something that matches an exact mitigation ID, just return that one item
-                        const mitigation: Mitigation | undefined = this.mitigations.find((g: Mitigation) => { return g.id === completionTerm.toUpperCase(); });
-                        if (mitigation !== undefined) {
-                            if (debug) { log(`MitigationCompletionProvider: Found exact Mitigation ID '${mitigation.id}'`); }
-                            completionItems = [buildCompletionItem(mitigation.id, mitigation)];
+                        // if the user is trying to complete something that matches an exact mitigation ID, just return the matching item(s)
+                        const exactMitigations: Array<Mitigation> = this.mitigationsById.get(completionTerm.toUpperCase()) || new Array<Mitigation>();
+                        if (exactMitigations.length > 0) {
+                            if (debug) { log(`MitigationCompletionProvider: Found exact Mitigation ID '${completionTerm.toUpperCase()}'`); }
+                            completionItems = exactMitigations.map<vscode.CompletionItem>((g: Mitigation) => { return buildCompletionItem(g.id, g); });
                         }
                         else {
                             // if the user is trying to complete a piece of mitigation by name
@@ -170,8 +177,9 @@ export class MitigationCompletionProvider implements vscode.CompletionItemProvid
                 });
                 if (debug) { log(`MitigationCompletionProvider: Resolving completion item for '${item.label}'`); }
                 item.keepWhitespace = true;
-                const mitigation: Mitigation | undefined = this.mitigations.find((g: Mitigation) => {
-                    return (g.id === item.label) || (g.name === item.label);
+                const mitigation: Mitigation | undefined = lookupByLabel(item.label, this.mitigationsById, this.mitigationsByName).find((g: Mitigation) => {
+                    // the detail tells apart objects sharing an ID across domains
+                    return ((g.id === item.label) || (g.name === item.label)) && (item.detail === undefined || item.detail.endsWith(domainSuffix(g.domains)));
                 });
                 if (mitigation !== undefined) {
                     item.documentation = buildMitigationDescription(mitigation);
@@ -190,9 +198,12 @@ export function register(filters: vscode.DocumentSelector, mitigations: Array<Mi
     const mitigationHovers: MitigationHoverProvider = new MitigationHoverProvider();
     const mitigationHoverDisposable: vscode.Disposable = vscode.languages.registerHoverProvider(filters, mitigationHovers);
     mitigationHovers.mitigations = mitigations;
+    mitigationHovers.mitigationsById = indexBy(mitigations, (m: Mitigation) => { return [m.id]; });
     // completion provider
     const mitigationCompletions: MitigationCompletionProvider = new MitigationCompletionProvider();
     mitigationCompletions.mitigations = mitigations;
+    mitigationCompletions.mitigationsById = indexBy(mitigations, (m: Mitigation) => { return [m.id]; });
+    mitigationCompletions.mitigationsByName = indexBy(mitigations, (m: Mitigation) => { return [m.name]; });
     const mitigationCompletionDisposable: vscode.Disposable = vscode.languages.registerCompletionItemProvider(filters, mitigationCompletions);
     return [mitigationHoverDisposable, mitigationCompletionDisposable];
 }
@@ -0,0 +1,44 @@
+import * as vscode from 'vscode';
+import { configSection, debug, platforms } from './configuration';
+import { log } from './helpers';
+
+/*
+    Collect every platform the given techniques apply to, along with the platforms already in scope
+*/
+export function getPlatforms(techniques: Array<Technique>): Array<string> {
+    const result: Map<string, string> = new Map<string, string>();
+    platforms.forEach((p: string) => { result.set(p.toLowerCase(), p); });
+    techniques.forEach((t: Technique) => {
+        (t.platforms || []).forEach((p: string) => {
+            // prefer the spelling used in the data over whatever the user typed into their settings
+            result.set(p.toLowerCase(), p);
+        });
+    });
+    return Array.from(result.values()).sort((a: string, b: string) => { return a.localeCompare(b); });
+}
+
+/*
+    Ask the user which platforms to scope techniques to and save them to the current workspace
+    Returns the selected platforms (none means every platform), or undefined if the user cancelled
+*/
+export async function selectPlatforms(techniques: Array<Technique>): Promise<Array<string>|undefined> {
+    const scope: Array<string> = platforms.map<string>((p: string) => { return p.toLowerCase(); });
+    const items: Array<vscode.QuickPickItem> = getPlatforms(techniques).map<vscode.QuickPickItem>((p: string) => {
+        return { label: p, picked: scope.includes(p.toLowerCase()) };
+    });
+    const selection: Array<vscode.QuickPickItem>|undefined = await vscode.window.showQuickPick(items, {
+        canPickMany: true,
+        placeHolder: 'Select the platforms to scope techniques to, or none to include every platform'
+    });
+    if (selection === undefined) {
+        if (debug) { log('selectPlatforms: Platform selection cancelled'); }
+        return undefined;
+    }
+    const selected: Array<string> = selection.map<string>((item: vscode.QuickPickItem) => { return item.label; });
+    // scope per workspace where possible, but fall back to the user settings when no folder is open
+    const target: vscode.ConfigurationTarget = vscode.workspace.workspaceFolders !== undefined ? vscode.ConfigurationTarget.Workspace : vscode.ConfigurationTarget.Global;
+    // an empty scope means every platform, so remove the setting entirely instead of storing it
+    await vscode.workspace.getConfiguration(configSection).update('platforms', selected.length > 0 ? selected : undefined, target);
+    log(selected.length > 0 ? `selectPlatforms: Scoped techniques to ${selected.join(', ')}` : 'selectPlatforms: Including every platform');
+    return selected;
+}
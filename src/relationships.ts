@@ -0,0 +1,145 @@
+import { debug } from './configuration';
+import { getAttackReference, log } from './helpers';
+
+// the relationship graph of the currently loaded data, for the providers to query
+export let relationshipGraph: RelationshipGraph = emptyGraph();
+
+/*
+    Create a graph without any relationships
+*/
+function emptyGraph(): RelationshipGraph {
+    return { from: new Map<string, Array<Relationship>>(), ids: new Map<string, Array<string>>(), objects: new Map<string, RelatedObject>(), to: new Map<string, Array<Relationship>>() };
+}
+
+/*
+    Add a value to the list stored under a key, creating the list if needed
+*/
+function addToList<T>(index: Map<string, Array<T>>, key: string, value: T): void {
+    const values: Array<T>|undefined = index.get(key);
+    if (values === undefined) { index.set(key, [value]); }
+    else { values.push(value); }
+}
+
+/*
+    Build the graph of every relationship between objects in the given ATT&CK map
+    The graph is keyed by STIX ID, since several objects can share an ATT&CK ID (e.g. pre-v5 mitigations and techniques, or the same ID in two domains)
+    ... and queried by ATT&CK ID (e.g. T1059), or STIX ID for objects that do not have one (e.g. data components)
+*/
+export async function init(attackData: AttackMap): Promise<RelationshipGraph> {
+    const graph: RelationshipGraph = emptyGraph();
+    attackData.objects.forEach((obj: AttackObject) => {
+        if (obj.type === 'relationship') { return; }
+        const reference: ExternalReference|undefined = getAttackReference(obj);
+        const id: string = reference !== undefined && reference.external_id !== undefined ? reference.external_id : obj.id;
+        graph.objects.set(obj.id, { id: id, name: obj.name, stixId: obj.id, type: obj.type });
+        addToList(graph.ids, id, obj.id);
+    });
+    attackData.objects.forEach((obj: AttackObject) => {
+        // retired relationships are kept in the bundle, but no longer hold
+        if (obj.type !== 'relationship' || obj.revoked || obj.x_mitre_deprecated) { return; }
+        // relationships to objects from a domain that is not loaded cannot be resolved
+        if (!graph.objects.has(obj.source_ref) || !graph.objects.has(obj.target_ref)) { return; }
+        const relationship: Relationship = { source: obj.source_ref, target: obj.target_ref, type: obj.relationship_type };
+        addToList(graph.from, obj.source_ref, relationship);
+        addToList(graph.to, obj.target_ref, relationship);
+    });
+    if (debug) { log(`Built relationship graph of ${graph.objects.size} objects`); }
+    relationshipGraph = graph;
+    return graph;
+}
+
+/*
+    Get every object with the given ATT&CK ID, or the object with the given STIX ID
+*/
+function getObjects(graph: RelationshipGraph, id: string): Array<RelatedObject> {
+    const stixIds: Array<string> = graph.ids.get(id) || [id];
+    return stixIds.map<RelatedObject|undefined>((stixId: string) => { return graph.objects.get(stixId); }).filter((obj: RelatedObject|undefined): obj is RelatedObject => { return obj !== undefined; });
+}
+
+/*
+    Get the object with the given ATT&CK ID (or STIX ID), optionally only of the given STIX types
+*/
+export function getObject(graph: RelationshipGraph, id: string, objectTypes?: Array<string>): RelatedObject|undefined {
+    return getObjects(graph, id).find((obj: RelatedObject) => { return objectTypes === undefined || objectTypes.includes(obj.type); });
+}
+
+/*
+    Get the IDs of the objects related to an object by the given relationship type
+    'from' follows relationships where the object is the source (e.g. the techniques a group uses)
+    ... and 'to' the ones where it is the target (e.g. the groups that use a technique)
+*/
+export function getRelated(graph: RelationshipGraph, id: string, type: string, direction: 'from'|'to' = 'from', objectTypes?: Array<string>): Array<string> {
+    const related: Array<string> = new Array<string>();
+    getObjects(graph, id).forEach((obj: RelatedObject) => {
+        const relationships: Array<Relationship> = (direction === 'from' ? graph.from.get(obj.stixId) : graph.to.get(obj.stixId)) || [];
+        relationships.filter((r: Relationship) => { return r.type === type; }).forEach((r: Relationship) => {
+            const relatedObject: RelatedObject|undefined = graph.objects.get(direction === 'from' ? r.target : r.source);
+            if (relatedObject !== undefined && (objectTypes === undefined || objectTypes.includes(relatedObject.type))) { related.push(relatedObject.id); }
+        });
+    });
+    return [...new Set<string>(related)];
+}
+
+/*
+    Get the techniques a group or software uses
+*/
+export function getTechniquesUsedBy(graph: RelationshipGraph, id: string): Array<string> {
+    return getRelated(graph, id, 'uses', 'from', ['attack-pattern']);
+}
+
+/*
+    Get the groups and software that use a technique
+*/
+export function getUsersOf(graph: RelationshipGraph, techniqueId: string): Array<string> {
+    return getRelated(graph, techniqueId, 'uses', 'to', ['intrusion-set', 'malware', 'tool']);
+}
+
+/*
+    Get the software a group uses
+*/
+export function getSoftwareUsedBy(graph: RelationshipGraph, groupId: string): Array<string> {
+    return getRelated(graph, groupId, 'uses', 'from', ['malware', 'tool']);
+}
+
+/*
+    Get the techniques a mitigation mitigates
+*/
+export function getMitigatedTechniques(graph: RelationshipGraph, mitigationId: string): Array<string> {
+    return getRelated(graph, mitigationId, 'mitigates', 'from');
+}
+
+/*
+    Get the mitigations of a technique
+*/
+export function getMitigations(graph: RelationshipGraph, techniqueId: string): Array<string> {
+    return getRelated(graph, techniqueId, 'mitigates', 'to');
+}
+
+/*
+    Get the sub-techniques of a technique
+*/
+export function getSubtechniques(graph: RelationshipGraph, techniqueId: string): Array<string> {
+    return getRelated(graph, techniqueId, 'subtechnique-of', 'to');
+}
+
+/*
+    Get whatever detects a technique (e.g. data components)
+*/
+export function getDetections(graph: RelationshipGraph, techniqueId: string): Array<string> {
+    return getRelated(graph, techniqueId, 'detects', 'to');
+}
+
+/*
+    Get the groups a campaign is attributed to
+*/
+export function getAttributedGroups(graph: RelationshipGraph, campaignId: string): Array<string> {
+    return getRelated(graph, campaignId, 'attributed-to', 'from', ['intrusion-set']);
+}
+
+/*
+    Get the ID of the object that replaced a revoked object, if there is one
+*/
+export function getRevokedBy(graph: RelationshipGraph, id: string): string|undefined {
+    const replacements: Array<string> = getRelated(graph, id, 'revoked-by');
+    return replacements.length > 0 ? replacements[0] : undefined;
+}
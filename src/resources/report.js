@@ -0,0 +1,17 @@
+document.addEventListener('DOMContentLoaded', function() {
+    (function() {
+        const vscode = acquireVsCodeApi();
+        document.getElementById('export-report').addEventListener('click', function () {
+            vscode.postMessage({ command: 'export' });
+        });
+        // links to workspace files are opened in the editor rather than in the webview
+        document.querySelectorAll('a').forEach(function (link) {
+            const href = link.getAttribute('href');
+            if (href === null || /^[a-z]+:/i.test(href)) { return; }
+            link.addEventListener('click', function (event) {
+                event.preventDefault();
+                vscode.postMessage({ command: 'open', href: href });
+            });
+        });
+    }());
+});
@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
-import { debug } from './configuration';
-import { getCurrentTechniques, getRevokedTechniques, log, minTermLength } from './helpers';
+import { additionalDomains, debug, isInPlatformScope } from './configuration';
+import { formatDomains, getCurrentTechniques, getRevokedTechniques, log, minTermLength } from './helpers';
+import { buildPlatformScopeNote, buildTechniqueMetadata, getTechniqueSections } from './techniques';
 import markdownit from 'markdown-it';
 const md = markdownit('commonmark');
 
@@ -28,10 +29,18 @@ function buildTechnique(technique: Technique): string {
     }
     // ID
     mdBuilder.appendMarkdown(`**TID**: ${technique.id}\n\n`);
+    // domains
+    if (additionalDomains.length > 0) {
+        mdBuilder.appendMarkdown(`**Domain**: ${formatDomains(technique.domains)}\n\n`);
+    }
     // tactics
     if (technique.tactics?.length > 0) {
         mdBuilder.appendMarkdown(`**Tactics**: ${technique.tactics.join(', ')}\n\n`);
     }
+    // platforms, permissions and the like, as configured
+    const sections: Array<string> = getTechniqueSections();
+    mdBuilder.appendMarkdown(buildTechniqueMetadata(technique, sections));
+    mdBuilder.appendMarkdown(buildPlatformScopeNote(technique));
 
     // description
     mdBuilder.appendMarkdown(`#### Description\n\n`);
@@ -42,6 +51,10 @@ function buildTechnique(technique: Technique): string {
         technique.description.long = technique.description.long.replace('\\</code>', '\\\\</code>');
     }
     mdBuilder.appendMarkdown(technique.description.long);
+    // detection guidance
+    if (sections.includes('detection') && technique.detection !== undefined) {
+        mdBuilder.appendMarkdown(`\n\n#### Detection\n\n${technique.detection}`);
+    }
     return md.render(mdBuilder.value);
 }
 
@@ -143,10 +156,27 @@ export function doSearch(input: string, techniques: Array<Technique>): Array<Tec
             if (debug) { log(`Could not find technique matching '${input}'`); }
             vscode.window.showErrorMessage(`ATT&CK: Could not find technique matching '${input}'`);
         }
+        // techniques outside the platform scope are still shown, just after the ones in it
+        const inScope: Array<Technique> = results.filter((t: Technique) => { return isInPlatformScope(t); });
+        results = inScope.concat(results.filter((t: Technique) => { return !isInPlatformScope(t); }));
     }
     return results;
 }
 
+/*
+    Open the panel search results are shown in for a single technique, e.g. from a link to its ID
+    Prefers the current technique when a revoked one has the same ID
+*/
+export function showTechnique(id: string, techniques: Array<Technique>, extensionPath: string): vscode.WebviewPanel|undefined {
+    const matching: Array<Technique> = techniques.filter((t: Technique) => { return t.id === id; });
+    const technique: Technique|undefined = matching.find((t: Technique) => { return !t.revoked; }) || matching[0];
+    if (technique === undefined) {
+        vscode.window.showErrorMessage(`ATT&CK: Could not find technique '${id}'`);
+        return undefined;
+    }
+    return displayPanel([technique], extensionPath);
+}
+
 /*
     Control flow and asking for/understanding what to do with user input
 */
@@ -1,12 +1,12 @@
 import * as vscode from 'vscode';
-import { completionFormat, configSection, debug } from './configuration';
-import { minTermLength, log, softwareRegex } from './helpers';
+import { additionalDomains, completionFormat, configSection, debug, domainSuffix } from './configuration';
+import { formatDomains, getAttackReference, getDomains, indexBy, log, lookupByLabel, minTermLength, softwareRegex } from './helpers';
 
 /*
     Build a completion item's insertion text based on settings
     TODO: Generalize this across object types
 */
-function buildInsertionText(tool: Software): string {
+export function buildInsertionText(tool: Software): string {
     let insertionText: string = tool.id;
     if (completionFormat === 'id-name' || completionFormat === 'id-fullname') {
         insertionText = `${tool.id} ${tool.name}`;
@@ -26,7 +26,7 @@ function buildInsertionText(tool: Software): string {
 function buildCompletionItem(label: string, software: Software): vscode.CompletionItem {
     const completionItem: vscode.CompletionItem = new vscode.CompletionItem(label, vscode.CompletionItemKind.Value);
     const insertionText: string = buildInsertionText(software);
-    completionItem.detail = insertionText;
+    completionItem.detail = `${insertionText}${domainSuffix(software.domains)}`;
     completionItem.insertText = insertionText;
     return completionItem;
 }
@@ -43,6 +43,8 @@ function buildSoftwareDescription(software: Software, descriptionType: string|un
     // source link
     if (software.url !== undefined) { mdBuilder.appendMarkdown(`[Source Link](${software.url})\n\n`); }
     else { mdBuilder.appendMarkdown(`No source link available\n\n`); }
+    // domains, but only when more than one is loaded
+    if (additionalDomains.length > 0) { mdBuilder.appendMarkdown(`**Domain**: ${formatDomains(software.domains)}\n\n`); }
     // aliases
     if (software.aliases?.length === 1) { mdBuilder.appendMarkdown(`**Alias**: ${software.aliases.pop()}\n\n`); }
     else if (software.aliases?.length > 1) { mdBuilder.appendMarkdown(`**Aliases**: ${software.aliases.join(', ')}\n\n`); }
@@ -66,17 +68,17 @@ export async function init(attackData: AttackMap): Promise<Array<Software>> {
                     short: description.split("\n")[0],
                     long: description
                 },
+                domains: getDomains(item),
                 id: '<unknown>',
                 name: item.name,
                 url: '<unknown>'
             };
-            item.external_references?.forEach((reference: ExternalReference) => {
-                if (reference.source_name === 'mitre-attack') {
-                    software.id = reference.external_id;
-                    software.url = reference.url;
-                    return; // found what we were looking for - no need to iterate over the rest
-                }
-            });
+            // custom objects may be identified by a source other than 'mitre-attack'
+            const reference: ExternalReference|undefined = getAttackReference(item);
+            if (reference !== undefined) {
+                software.id = reference.external_id;
+                software.url = reference.url;
+            }
             return software;
         });
         if (debug) { log(`Parsed out ${softwares.length} softwares`); }
@@ -86,6 +88,7 @@ export async function init(attackData: AttackMap): Promise<Array<Software>> {
 
 export class SoftwareHoverProvider implements vscode.HoverProvider {
     public software: Array<Software> = new Array<Software>();
+    public softwareById: Map<string, Array<Software>> = new Map<string, Array<Software>>();
 
     public provideHover(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken): vscode.ProviderResult<vscode.Hover> {
         try {
@@ -100,10 +103,11 @@ export class SoftwareHoverProvider implements vscode.HoverProvider {
                 hoverRange = document.getWordRangeAtPosition(position, softwareRegex);
                 if (hoverRange !== undefined) {
                     const hoverTerm: string = document.getText(hoverRange);
-                    const currentSoftware: Software | undefined = this.software.find((g: Software) => { return g.id === hoverTerm; });
-                    if (currentSoftware !== undefined) {
-                        if (debug) { log(`SoftwareHoverProvider: Found exact Software ID '${currentSoftware.id}'`); }
-                        hover = new vscode.Hover(buildSoftwareDescription(currentSoftware), hoverRange);
+                    // the same ID can belong to different objects in different domains, so show every match
+                    const currentSoftwares: Array<Software> = this.softwareById.get(hoverTerm) || new Array<Software>();
+                    if (currentSoftwares.length > 0) {
+                        if (debug) { log(`SoftwareHoverProvider: Found exact Software ID '${hoverTerm}'`); }
+                        hover = new vscode.Hover(currentSoftwares.map<vscode.MarkdownString>((g: Software) => { return buildSoftwareDescription(g); }), hoverRange);
                     }
                 }
                 resolve(hover);
@@ -116,6 +120,8 @@ export class SoftwareHoverProvider implements vscode.HoverProvider {
 
 export class SoftwareCompletionProvider implements vscode.CompletionItemProvider {
     public software: Array<Software> = new Array<Software>();
+    public softwareById: Map<string, Array<Software>> = new Map<string, Array<Software>>();
+    public softwareByName: Map<string, Array<Software>> = new Map<string, Array<Software>>();
 
     public provideCompletionItems(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken): vscode.ProviderResult<vscode.CompletionItem[] | vscode.CompletionList> {
         try {
@@ -127,7 +133,8 @@ export class SoftwareCompletionProvider implements vscode.CompletionItemProvider
                 });
                 let completionItems: Array<vscode.CompletionItem> = new Array<vscode.CompletionItem>();
                 let dbgMsg = '';
-                const completionRange: vscode.Range | undefined = document.getWordRangeAtPosition(position);
+                // custom IDs (e.g. 'RC-G0001') may contain characters that are not part of a regular word
+                const completionRange: vscode.Range | undefined = document.getWordRangeAtPosition(position, softwareRegex) || document.getWordRangeAtPosition(position);
                 if (completionRange === undefined) {
                     if (debug) { log('SoftwareCompletionProvider: No completion item range provided.'); }
                 }
@@ -136,11 +143,11 @@ export class SoftwareCompletionProvider implements vscode.CompletionItemProvider
                     // only return everything if this is a "long" term
                     if (completionTerm.length >= minTermLength) {
                         if (debug) { log(`SoftwareCompletionProvider: Completion term: ${completionTerm}`); }
-                        // if the user is trying to complete something that matches an exact software ID, just return that one item
-                        const software: Software | undefined = this.software.find((g: Software) => { return g.id === completionTerm.toUpperCase(); });
-                        if (software !== undefined) {
-                            if (debug) { log(`SoftwareCompletionProvider: Found exact Software ID '${software.id}'`); }
-                            completionItems = [buildCompletionItem(software.id, software)];
+                        // if the user is trying to complete something that matches an exact software ID, just return the matching item(s)
+                        const exactSoftware: Array<Software> = this.softwareById.get(completionTerm.toUpperCase()) || new Array<Software>();
+                        if (exactSoftware.length > 0) {
+                            if (debug) { log(`SoftwareCompletionProvider: Found exact Software ID '${completionTerm.toUpperCase()}'`); }
+                            completionItems = exactSoftware.map<vscode.CompletionItem>((g: Software) => { return buildCompletionItem(g.id, g); });
                         }
                         else {
                             // if the user is trying to complete a piece of software by name
@@ -172,8 +179,9 @@ export class SoftwareCompletionProvider implements vscode.CompletionItemProvider
                 });
                 if (debug) { log(`SoftwareCompletionProvider: Resolving completion item for '${item.label}'`); }
                 item.keepWhitespace = true;
-                const software: Software | undefined = this.software.find((g: Software) => {
-                    return (g.id === item.label) || (g.name === item.label);
+                const software: Software | undefined = lookupByLabel(item.label, this.softwareById, this.softwareByName).find((g: Software) => {
+                    // the detail tells apart objects sharing an ID across domains
+                    return ((g.id === item.label) || (g.name === item.label)) && (item.detail === undefined || item.detail.endsWith(domainSuffix(g.domains)));
                 });
                 if (software !== undefined) {
                     item.documentation = buildSoftwareDescription(software);
@@ -192,9 +200,12 @@ export function register(filters: vscode.DocumentSelector, tools: Array<Software
     const softwareHovers: SoftwareHoverProvider = new SoftwareHoverProvider();
     const softwareHoverDisposable: vscode.Disposable = vscode.languages.registerHoverProvider(filters, softwareHovers);
     softwareHovers.software = tools;
+    softwareHovers.softwareById = indexBy(tools, (s: Software) => { return [s.id]; });
     // completion provider
     const softwareCompletions: SoftwareCompletionProvider = new SoftwareCompletionProvider();
     softwareCompletions.software = tools;
+    softwareCompletions.softwareById = indexBy(tools, (s: Software) => { return [s.id]; });
+    softwareCompletions.softwareByName = indexBy(tools, (s: Software) => { return [s.name]; });
     const softwareCompletionDisposable: vscode.Disposable = vscode.languages.registerCompletionItemProvider(filters, softwareCompletions);
     return [softwareHoverDisposable, softwareCompletionDisposable];
 }
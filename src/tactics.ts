@@ -1,11 +1,11 @@
 import * as vscode from 'vscode';
-import { completionFormat, configSection, debug } from './configuration';
-import { minTermLength, log, tacticRegex } from './helpers';
+import { additionalDomains, completionFormat, configSection, debug, domainSuffix } from './configuration';
+import { formatDomains, getAttackReference, getDomains, indexBy, log, lookupByLabel, minTermLength, tacticRegex } from './helpers';
 
 /*
     Build a completion item's insertion text based on settings
 */
-function buildInsertionText(tactic: Tactic): string {
+export function buildInsertionText(tactic: Tactic): string {
     let insertionText: string = tactic.id;
     if (completionFormat === 'id-name' || completionFormat === 'id-fullname') {
         insertionText = `${tactic.id} ${tactic.name}`;
@@ -25,7 +25,7 @@ function buildInsertionText(tactic: Tactic): string {
 function buildCompletionItem(label: string, tactic: Tactic): vscode.CompletionItem {
     const completionItem: vscode.CompletionItem = new vscode.CompletionItem(label, vscode.CompletionItemKind.Value);
     const insertionText: string = buildInsertionText(tactic);
-    completionItem.detail = insertionText;
+    completionItem.detail = `${insertionText}${domainSuffix(tactic.domains)}`;
     completionItem.insertText = insertionText;
     return completionItem;
 }
@@ -41,6 +41,8 @@ function buildTacticDescription(tactic: Tactic, descriptionType: string|undefine
     // source link
     if (tactic.url !== undefined) { mdBuilder.appendMarkdown(`[Source Link](${tactic.url})\n\n`); }
     else { mdBuilder.appendMarkdown(`No source link available\n\n`); }
+    // domains, but only when more than one is loaded
+    if (additionalDomains.length > 0) { mdBuilder.appendMarkdown(`**Domain**: ${formatDomains(tactic.domains)}\n\n`); }
     // description
     mdBuilder.appendMarkdown(tactic.description.long);
     return mdBuilder;
@@ -58,17 +60,17 @@ export async function init(attackData: AttackMap): Promise<Tactic[]> {
                     short: description.split("\n")[0],
                     long: description
                 },
+                domains: getDomains(item),
                 id: '<unknown>',
                 name: item.name,
                 url: '<unknown>'
             };
-            item.external_references?.forEach((reference: ExternalReference) => {
-                if (reference.source_name === 'mitre-attack') {
-                    tactic.id = reference.external_id;
-                    tactic.url = reference.url;
-                    return; // found what we were looking for - no need to iterate over the rest
-                }
-            });
+            // custom objects may be identified by a source other than 'mitre-attack'
+            const reference: ExternalReference|undefined = getAttackReference(item);
+            if (reference !== undefined) {
+                tactic.id = reference.external_id;
+                tactic.url = reference.url;
+            }
             return tactic;
         });
         if (debug) { log(`Parsed out ${tactics.length} tactics`); }
@@ -78,6 +80,7 @@ export async function init(attackData: AttackMap): Promise<Tactic[]> {
 
 export class TacticHoverProvider implements vscode.HoverProvider {
     public tactics: Array<Tactic> = new Array<Tactic>();
+    public tacticsById: Map<string, Array<Tactic>> = new Map<string, Array<Tactic>>();
 
     public provideHover(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken): vscode.ProviderResult<vscode.Hover> {
         try {
@@ -93,10 +96,11 @@ export class TacticHoverProvider implements vscode.HoverProvider {
                 hoverRange = document.getWordRangeAtPosition(position, tacticRegex);
                 if (hoverRange !== undefined) {
                     const hoverTerm: string = document.getText(hoverRange);
-                    const currentTactic: Tactic | undefined = this.tactics.find((t: Tactic) => { return t.id === hoverTerm; });
-                    if (currentTactic !== undefined) {
-                        if (debug) { log(`TacticHoverProvider: Found exact Tactic ID '${currentTactic.id}'`); }
-                        hover = new vscode.Hover(buildTacticDescription(currentTactic), hoverRange);
+                    // the same ID can belong to different objects in different domains, so show every match
+                    const currentTactics: Array<Tactic> = this.tacticsById.get(hoverTerm) || new Array<Tactic>();
+                    if (currentTactics.length > 0) {
+                        if (debug) { log(`TacticHoverProvider: Found exact Tactic ID '${hoverTerm}'`); }
+                        hover = new vscode.Hover(currentTactics.map<vscode.MarkdownString>((t: Tactic) => { return buildTacticDescription(t); }), hoverRange);
                     }
                 }
                 resolve(hover);
@@ -109,6 +113,8 @@ export class TacticHoverProvider implements vscode.HoverProvider {
 
 export class TacticCompletionProvider implements vscode.CompletionItemProvider {
     public tactics: Array<Tactic> = new Array<Tactic>();
+    public tacticsById: Map<string, Array<Tactic>> = new Map<string, Array<Tactic>>();
+    public tacticsByName: Map<string, Array<Tactic>> = new Map<string, Array<Tactic>>();
 
     public provideCompletionItems(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken): vscode.ProviderResult<vscode.CompletionItem[] | vscode.CompletionList> {
         try {
@@ -120,7 +126,8 @@ export class TacticCompletionProvider implements vscode.CompletionItemProvider {
                 });
                 let completionItems: Array<vscode.CompletionItem> = new Array<vscode.CompletionItem>();
                 let dbgMsg = '';
-                const completionRange: vscode.Range | undefined = document.getWordRangeAtPosition(position);
+                // custom IDs (e.g. 'RC-G0001') may contain characters that are not part of a regular word
+                const completionRange: vscode.Range | undefined = document.getWordRangeAtPosition(position, tacticRegex) || document.getWordRangeAtPosition(position);
                 if (completionRange === undefined) {
                     if (debug) { log('TacticCompletionProvider: No completion item range provided.'); }
                 }
@@ -128,11 +135,11 @@ export class TacticCompletionProvider implements vscode.CompletionItemProvider {
                     const completionTerm: string = document.getText(completionRange);
                     // only return everything if this is a "long" term
                     if (completionTerm.length >= minTermLength) {
-                        // if the user is trying to complete something that matches an exact technique ID, just return that one item
-                        const tactic: Tactic | undefined = this.tactics.find((t: Tactic) => { return t.id === completionTerm.toUpperCase(); });
-                        if (tactic !== undefined) {
-                            if (debug) { log(`TacticCompletionProvider: Found exact Tactic ID '${tactic.id}'`); }
-                            completionItems = [buildCompletionItem(tactic.id, tactic)];
+                        // if the user is trying to complete something that matches an exact technique ID, just return the matching item(s)
+                        const exactTactics: Array<Tactic> = this.tacticsById.get(completionTerm.toUpperCase()) || new Array<Tactic>();
+                        if (exactTactics.length > 0) {
+                            if (debug) { log(`TacticCompletionProvider: Found exact Tactic ID '${completionTerm.toUpperCase()}'`); }
+                            completionItems = exactTactics.map<vscode.CompletionItem>((t: Tactic) => { return buildCompletionItem(t.id, t); });
                         }
                         else {
                             // if the user is trying to complete a technique by name
@@ -165,8 +172,9 @@ export class TacticCompletionProvider implements vscode.CompletionItemProvider {
                 });
                 if (debug) { log(`TacticCompletionProvider: Resolving completion item for '${item.label}'`); }
                 item.keepWhitespace = true;
-                const tactic: Tactic | undefined = this.tactics.find((t: Tactic) => {
-                    return (t.id === item.label) || (t.name === item.label);
+                const tactic: Tactic | undefined = lookupByLabel(item.label, this.tacticsById, this.tacticsByName).find((t: Tactic) => {
+                    // the detail tells apart objects sharing an ID across domains
+                    return ((t.id === item.label) || (t.name === item.label)) && (item.detail === undefined || item.detail.endsWith(domainSuffix(t.domains)));
                 });
                 if (tactic !== undefined) {
                     item.documentation = buildTacticDescription(tactic);
@@ -188,9 +196,12 @@ export function register(filters: vscode.DocumentSelector, tactics: Array<Tactic
     const tacticHovers: TacticHoverProvider = new TacticHoverProvider();
     const tacticHoverDisposable: vscode.Disposable = vscode.languages.registerHoverProvider(filters, tacticHovers);
     tacticHovers.tactics = tactics;
+    tacticHovers.tacticsById = indexBy(tactics, (t: Tactic) => { return [t.id]; });
     // completion provider
     const tacticCompletions: TacticCompletionProvider = new TacticCompletionProvider();
     tacticCompletions.tactics = tactics;
+    tacticCompletions.tacticsById = indexBy(tactics, (t: Tactic) => { return [t.id]; });
+    tacticCompletions.tacticsByName = indexBy(tactics, (t: Tactic) => { return [t.name]; });
     const tacticCompletionDisposable: vscode.Disposable = vscode.languages.registerCompletionItemProvider(filters, tacticCompletions);
     return [tacticHoverDisposable, tacticCompletionDisposable];
 }
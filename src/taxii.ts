@@ -0,0 +1,251 @@
+import { StringDecoder } from 'string_decoder';
+import * as vscode from 'vscode';
+import { debug } from './configuration';
+import { log, writeFileAtomic } from './helpers';
+import { HttpResponse, httpGet } from './network';
+
+// generic TAXII 2.1 resources - not specific to ATT&CK, so they are left out of the interfaces module
+interface TaxiiDiscovery {
+    title: string;
+    default?: string;
+    api_roots?: Array<string>;
+}
+export interface TaxiiCollection {
+    id: string;
+    title: string;
+    description?: string;
+    can_read: boolean;
+    can_write: boolean;
+}
+interface TaxiiCollections {
+    collections?: Array<TaxiiCollection>;
+}
+interface TaxiiEnvelope {
+    more?: boolean;
+    next?: string;
+    objects?: Array<AttackObject>;
+}
+interface TaxiiResponse<T> {
+    body: T;
+    // value of the X-TAXII-Date-Added-Last header, if the server sent one
+    dateAddedLast: string|undefined;
+}
+// what we remember about a collection between requests, so only new objects need to be fetched
+interface TaxiiCacheMetadata {
+    collection: string;
+    dateAddedLast: string|undefined;
+    server: string;
+}
+
+const mediaType = 'application/taxii+json;version=2.1';
+// number of objects to request per page
+const pageSize = 1000;
+
+/*
+    Send a GET request to a TAXII server and parse the JSON response
+*/
+async function taxiiGet<T>(url: string): Promise<TaxiiResponse<T>> {
+    const response: HttpResponse = await httpGet(url, { 'Accept': mediaType });
+    if (response.statusCode !== 200) {
+        throw new Error(`TAXII server responded with HTTP ${response.statusCode} for ${url}`);
+    }
+    try {
+        const header: string|string[]|undefined = response.headers['x-taxii-date-added-last'];
+        return {
+            body: JSON.parse(response.body) as T,
+            dateAddedLast: header instanceof Array ? header[0] : header,
+        };
+    } catch (err) {
+        throw new Error(`TAXII server returned invalid JSON for ${url}: ${err}`);
+    }
+}
+
+/*
+    Make sure a TAXII URL ends in a slash, since every TAXII endpoint does
+*/
+function withTrailingSlash(url: string): string {
+    return url.endsWith('/') ? url : `${url}/`;
+}
+
+/*
+    Find the API root to use on a TAXII server, given its discovery URL (e.g. https://example.com/taxii2/)
+    Uses the server's default API root, or the first one listed if it has no default
+*/
+export async function discoverApiRoot(discoveryUrl: string): Promise<string> {
+    const response: TaxiiResponse<TaxiiDiscovery> = await taxiiGet<TaxiiDiscovery>(withTrailingSlash(discoveryUrl));
+    let apiRoot: string|undefined = response.body.default;
+    if (apiRoot === undefined && response.body.api_roots !== undefined) {
+        apiRoot = response.body.api_roots[0];
+    }
+    if (apiRoot === undefined) {
+        throw new Error(`TAXII server at ${discoveryUrl} does not advertise any API roots`);
+    }
+    return withTrailingSlash(resolveUrl(apiRoot, withTrailingSlash(discoveryUrl)));
+}
+
+/*
+    Resolve a URL the server gave us relative to the URL it was retrieved from
+*/
+function resolveUrl(url: string, base: string): string {
+    if (/^https?:\/\//i.test(url)) {
+        return url;
+    }
+    // server-relative URL (e.g. /api/v21/), so keep only the scheme and host of the base URL
+    const origin: RegExpMatchArray|null = base.match(/^https?:\/\/[^/]+/i);
+    if (url.startsWith('/') && origin !== null) {
+        return `${origin[0]}${url}`;
+    }
+    return `${base}${url}`;
+}
+
+/*
+    List the collections available in an API root
+*/
+export async function getCollections(apiRoot: string): Promise<Array<TaxiiCollection>> {
+    const response: TaxiiResponse<TaxiiCollections> = await taxiiGet<TaxiiCollections>(`${withTrailingSlash(apiRoot)}collections/`);
+    return response.body.collections !== undefined ? response.body.collections : new Array<TaxiiCollection>();
+}
+
+/*
+    Find a collection by its ID or title (case insensitive)
+*/
+export function findCollection(collections: Array<TaxiiCollection>, collection: string): TaxiiCollection|undefined {
+    return collections.find((c: TaxiiCollection) => {
+        return c.id === collection || c.title.toLowerCase() === collection.toLowerCase();
+    });
+}
+
+/*
+    Retrieve every object in a collection, following the server's pagination
+    If addedAfter is given, only objects added to the collection after that timestamp are retrieved
+*/
+export async function getObjects(apiRoot: string, collectionId: string, addedAfter?: string): Promise<{objects: Array<AttackObject>, dateAddedLast: string|undefined}> {
+    let objects: Array<AttackObject> = new Array<AttackObject>();
+    let dateAddedLast: string|undefined = addedAfter;
+    let next: string|undefined = undefined;
+    let more = true;
+    while (more) {
+        const query: Array<string> = [`limit=${pageSize}`];
+        if (addedAfter !== undefined) { query.push(`added_after=${encodeURIComponent(addedAfter)}`); }
+        if (next !== undefined) { query.push(`next=${encodeURIComponent(next)}`); }
+        const url = `${withTrailingSlash(apiRoot)}collections/${encodeURIComponent(collectionId)}/objects/?${query.join('&')}`;
+        const response: TaxiiResponse<TaxiiEnvelope> = await taxiiGet<TaxiiEnvelope>(url);
+        if (response.body.objects !== undefined) {
+            objects = objects.concat(response.body.objects);
+        }
+        if (response.dateAddedLast !== undefined) { dateAddedLast = response.dateAddedLast; }
+        more = response.body.more === true && response.body.next !== undefined;
+        next = response.body.next;
+        if (debug) { log(`TAXII: Retrieved ${objects.length} objects from collection ${collectionId}`); }
+    }
+    return { objects: objects, dateAddedLast: dateAddedLast };
+}
+
+/*
+    Apply newly retrieved objects on top of the cached ones, keeping the newest version of each object
+*/
+export function mergeObjects(cached: Array<AttackObject>, updates: Array<AttackObject>): Array<AttackObject> {
+    const merged: Map<string, AttackObject> = new Map<string, AttackObject>();
+    cached.forEach((obj: AttackObject) => { merged.set(obj.id, obj); });
+    updates.forEach((obj: AttackObject) => {
+        const existing: AttackObject|undefined = merged.get(obj.id);
+        if (existing === undefined || existing.modified === undefined || obj.modified === undefined || new Date(existing.modified) <= new Date(obj.modified)) {
+            merged.set(obj.id, obj);
+        }
+    });
+    return Array.from(merged.values());
+}
+
+/*
+    Get the cache paths of a TAXII collection's objects and metadata
+*/
+export function getTaxiiCachePaths(storageUri: vscode.Uri, collectionId: string): {data: vscode.Uri, metadata: vscode.Uri} {
+    const taxiiDir: vscode.Uri = vscode.Uri.joinPath(storageUri, 'taxii');
+    return {
+        data: vscode.Uri.joinPath(taxiiDir, `${collectionId}.json`),
+        metadata: vscode.Uri.joinPath(taxiiDir, `${collectionId}.meta.json`),
+    };
+}
+
+/*
+    Read a JSON file from the cache, returning undefined if it does not exist or cannot be parsed
+*/
+async function readCacheFile<T>(fileUri: vscode.Uri): Promise<T|undefined> {
+    try {
+        const contents: Uint8Array = await vscode.workspace.fs.readFile(fileUri);
+        return JSON.parse(new StringDecoder('utf8').end(Buffer.from(contents))) as T;
+    } catch (err) {
+        return undefined;
+    }
+}
+
+/*
+    Download a collection from a TAXII 2.1 server as an ATT&CK map and cache it
+    Collections that were downloaded before are updated incrementally using added_after
+    If the server cannot be reached, the cached copy of the collection is returned instead, flagged as cached
+    Returns undefined if the server has no such collection, leaving it up to the caller to tell the user
+*/
+export async function downloadTaxiiCollection(storageUri: vscode.Uri, discoveryUrl: string, collection: string): Promise<{data: AttackMap, cached: boolean}|undefined> {
+    let objects: Array<AttackObject>|undefined = undefined;
+    let collectionId: string|undefined = undefined;
+    try {
+        const apiRoot: string = await discoverApiRoot(discoveryUrl);
+        if (debug) { log(`TAXII: Using API root ${apiRoot}`); }
+        const match: TaxiiCollection|undefined = findCollection(await getCollections(apiRoot), collection);
+        if (match === undefined || !match.can_read) {
+            log(`TAXII: Could not find a readable collection '${collection}' at ${apiRoot}`);
+            return undefined;
+        }
+        collectionId = match.id;
+        const paths = getTaxiiCachePaths(storageUri, collectionId);
+        const cachedData: AttackMap|undefined = await readCacheFile<AttackMap>(paths.data);
+        const metadata: TaxiiCacheMetadata|undefined = await readCacheFile<TaxiiCacheMetadata>(paths.metadata);
+        // only ask for new objects when the cache is known to come from the same server and collection
+        const addedAfter: string|undefined = cachedData !== undefined && metadata !== undefined && metadata.server === discoveryUrl ? metadata.dateAddedLast : undefined;
+        log(addedAfter !== undefined ? `TAXII: Retrieving objects added to '${match.title}' after ${addedAfter}` : `TAXII: Retrieving all objects in '${match.title}'`);
+        const response = await getObjects(apiRoot, collectionId, addedAfter);
+        objects = addedAfter !== undefined && cachedData !== undefined ? mergeObjects(cachedData.objects, response.objects) : response.objects;
+        // cache the collection for incremental updates and offline use
+        // ... the data is written first, so an interrupted update never leaves metadata that claims objects the data is missing
+        const attackData: AttackMap = { type: 'bundle', id: `bundle--taxii-${collectionId}`, spec_version: '2.1', objects: objects };
+        await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(storageUri, 'taxii'));
+        await writeFileAtomic(paths.data, Buffer.from(JSON.stringify(attackData), 'utf-8'));
+        const newMetadata: TaxiiCacheMetadata = { collection: collectionId, dateAddedLast: response.dateAddedLast, server: discoveryUrl };
+        await writeFileAtomic(paths.metadata, Buffer.from(JSON.stringify(newMetadata), 'utf-8'));
+        log(`TAXII: Cached ${objects.length} objects from '${match.title}' @ '${paths.data}'`);
+        return {data: attackData, cached: false};
+    } catch (err) {
+        log(`TAXII: Could not retrieve collection '${collection}' from ${discoveryUrl}: ${err}`);
+    }
+    // the server is unreachable, so fall back to the last copy we have of this collection
+    const cachedData: AttackMap|undefined = await getCachedTaxiiCollection(storageUri, collectionId !== undefined ? collectionId : collection);
+    return cachedData !== undefined ? {data: cachedData, cached: true} : undefined;
+}
+
+/*
+    Find the cached copy of a TAXII collection by its ID or title
+*/
+export async function getCachedTaxiiCollection(storageUri: vscode.Uri, collection: string): Promise<AttackMap|undefined> {
+    const taxiiDir: vscode.Uri = vscode.Uri.joinPath(storageUri, 'taxii');
+    let entries: [string, vscode.FileType][] = [];
+    try {
+        entries = await vscode.workspace.fs.readDirectory(taxiiDir);
+    } catch (err) {
+        return undefined;
+    }
+    // the cache is keyed by collection ID, so check each collection's metadata for a matching title
+    for (const [name, fileType] of entries) {
+        if (fileType !== vscode.FileType.File || !name.endsWith('.json') || name.endsWith('.meta.json')) { continue; }
+        const collectionId: string = name.replace(/\.json$/, '');
+        const paths = getTaxiiCachePaths(storageUri, collectionId);
+        const cachedData: AttackMap|undefined = await readCacheFile<AttackMap>(paths.data);
+        if (cachedData === undefined) { continue; }
+        if (collectionId === collection || cachedData.objects.some((obj: AttackObject) => {
+            return obj.type === 'x-mitre-collection' && obj.name.toLowerCase() === collection.toLowerCase();
+        })) {
+            log(`TAXII: Using cached copy of collection '${collection}' @ '${paths.data}'`);
+            return cachedData;
+        }
+    }
+    return undefined;
+}
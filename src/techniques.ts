@@ -1,13 +1,14 @@
 import * as vscode from 'vscode';
-import { completionFormat, configSection, debug } from './configuration';
-import { minTermLength, log, techniqueRegex } from './helpers';
+import { additionalDomains, completionFormat, configSection, debug, domainSuffix, isInPlatformScope, platforms } from './configuration';
+import { formatDomains, getAttackReference, getDomains, indexBy, log, lookupByLabel, minTermLength, techniqueRegex } from './helpers';
+import { getRevokedBy, relationshipGraph } from './relationships';
 
 let techniqueCompletionItems: Array<vscode.CompletionItem> = new Array<vscode.CompletionItem>();
 
 /*
     Build a completion item's insertion text based on settings
 */
-function buildInsertionText(technique: Technique): string {
+export function buildInsertionText(technique: Technique): string {
     let insertionText: string = technique.id;
     if (completionFormat === 'id-name') {
         insertionText = `${technique.id} ${technique.name}`;
@@ -48,15 +49,85 @@ function buildCompletionItem(label: string, technique: Technique): vscode.Comple
     const completionItem: vscode.CompletionItem = new vscode.CompletionItem(label, vscode.CompletionItemKind.Value);
     const insertionText: string = buildInsertionText(technique);
     if (technique.deprecated || technique.revoked) { completionItem.tags = [vscode.CompletionItemTag.Deprecated]; }
-    completionItem.detail = insertionText;
+    completionItem.detail = `${insertionText}${domainSuffix(technique.domains)}`;
     completionItem.insertText = insertionText;
+    demoteOutOfScope(completionItem, label, technique);
+    return completionItem;
+}
+
+/*
+    Sort techniques outside the platform scope after the ones in it, rather than hiding them
+*/
+function demoteOutOfScope(completionItem: vscode.CompletionItem, label: string, technique: Technique): void {
+    if (!isInPlatformScope(technique)) { completionItem.sortText = `~${label}`; }
+}
+
+/*
+    Get the sections of technique metadata the user wants to see in hovers and search results
+*/
+export function getTechniqueSections(): Array<string> {
+    return vscode.workspace.getConfiguration(configSection).get('techniqueSections') || [];
+}
+
+/*
+    Build the enabled metadata sections of a technique as Markdown, e.g. '**Platforms**: Linux, macOS, Windows'
+    Detection guidance is left to the caller, since it is too long to share a line with the rest
+*/
+export function buildTechniqueMetadata(technique: Technique, sections: Array<string>): string {
+    let metadata = '';
+    const addSection = (section: string, label: string, values: Array<string>): void => {
+        if (sections.includes(section) && values.length > 0) { metadata += `**${label}**: ${values.join(', ')}\n\n`; }
+    };
+    addSection('platforms', 'Platforms', technique.platforms);
+    addSection('permissionsRequired', 'Permissions Required', technique.permissionsRequired);
+    addSection('defenseBypassed', 'Defense Bypassed', technique.defenseBypassed);
+    addSection('dataSources', 'Data Sources', technique.dataSources);
+    addSection('version', 'Version', technique.version !== undefined ? [technique.version] : []);
+    return metadata;
+}
+
+/*
+    Point out that a technique does not apply to any of the platforms in the platform scope
+*/
+export function buildPlatformScopeNote(technique: Technique): string {
+    if (isInPlatformScope(technique)) { return ''; }
+    return `**Platform Scope**: Outside of ${platforms.join(', ')}\n\n`;
+}
+
+/*
+    Find the current technique that replaced a revoked one, following the revocations of its replacements too
+*/
+export function getReplacement(technique: Technique, techniquesById: Map<string, Array<Technique>>): Technique|undefined {
+    const seen: Set<string> = new Set<string>([technique.id]);
+    let replacementId: string|undefined = getRevokedBy(relationshipGraph, technique.id);
+    while (replacementId !== undefined && !seen.has(replacementId)) {
+        const replacement: Technique|undefined = (techniquesById.get(replacementId) || new Array<Technique>()).find((t: Technique) => { return !t.revoked; });
+        if (replacement !== undefined) { return replacement; }
+        seen.add(replacementId);
+        replacementId = getRevokedBy(relationshipGraph, replacementId);
+    }
+    return undefined;
+}
+
+/*
+    Build a completion item that replaces a revoked technique ID with the technique that replaced it
+*/
+function buildReplacementItem(revokedId: string, replacement: Technique): vscode.CompletionItem {
+    const completionItem: vscode.CompletionItem = buildCompletionItem(replacement.id, replacement);
+    // the typed ID is the revoked one, so the item has to match it to be shown at all
+    completionItem.filterText = revokedId;
+    completionItem.preselect = true;
+    completionItem.sortText = '0';
+    const documentation: vscode.MarkdownString = new vscode.MarkdownString(`Replaces revoked technique **${revokedId.toUpperCase()}**\n\n`);
+    documentation.appendMarkdown(buildTechniqueDescription(replacement).value);
+    completionItem.documentation = documentation;
     return completionItem;
 }
 
 /*
     Build a technique's description based on settings
 */
-function buildTechniqueDescription(technique: Technique, descriptionType: string|undefined = undefined): vscode.MarkdownString {
+function buildTechniqueDescription(technique: Technique, descriptionType: string|undefined = undefined, replacement: Technique|undefined = undefined): vscode.MarkdownString {
     // currently, completion items that result from searching the technique description manually set the descriptionType to 'long'
     // ... but every other type of completion item should derive this value from the extension configuration
     if (descriptionType === undefined) { descriptionType = vscode.workspace.getConfiguration(configSection).get('description'); }
@@ -67,15 +138,31 @@ function buildTechniqueDescription(technique: Technique, descriptionType: string
     else { title = `${technique.name}`; }
     if (technique.revoked) { title += ' (REVOKED)'; }
     mdBuilder.appendMarkdown(`### ${title}\n`);
+    // what to use instead of a revoked technique
+    if (replacement !== undefined) {
+        const replacementName: string = replacement.parent !== undefined ? `${replacement.parent.name}: ${replacement.name}` : replacement.name;
+        mdBuilder.appendMarkdown(`**Revoked by**: [${replacement.id} ${replacementName}](${replacement.url})\n\n`);
+    }
     // source link
     if (technique.url !== undefined) { mdBuilder.appendMarkdown(`[Source Link](${technique.url})\n\n`); }
     else { mdBuilder.appendMarkdown(`No source link available\n\n`); }
+    // domains, but only when more than one is loaded
+    if (additionalDomains.length > 0) { mdBuilder.appendMarkdown(`**Domain**: ${formatDomains(technique.domains)}\n\n`); }
     // tactics
     if (technique.tactics?.length === 1) { mdBuilder.appendMarkdown(`**Tactic**: ${technique.tactics.pop()}\n\n`); }
     else if (technique.tactics?.length > 1) { mdBuilder.appendMarkdown(`**Tactics**: ${technique.tactics.join(', ')}\n\n`); }
+    // platforms, permissions and the like, as configured
+    const sections: Array<string> = getTechniqueSections();
+    mdBuilder.appendMarkdown(buildTechniqueMetadata(technique, sections));
+    mdBuilder.appendMarkdown(buildPlatformScopeNote(technique));
     // description
     if (descriptionType && descriptionType === 'long') { mdBuilder.appendMarkdown(technique.description.long); }
     else if (descriptionType && descriptionType === 'short') { mdBuilder.appendMarkdown(technique.description.short); }
+    // detection guidance, which is as long as the description, so it follows the same setting
+    if (sections.includes('detection') && technique.detection !== undefined && descriptionType !== 'link') {
+        const detection: string = descriptionType === 'long' ? technique.detection : technique.detection.split('\n')[0];
+        mdBuilder.appendMarkdown(`\n\n**Detection**: ${detection}`);
+    }
     return mdBuilder;
 }
 
@@ -89,18 +176,20 @@ function generateCompletionItems(currentTechniques: Array<Technique>): void {
         const insertionText: string = buildInsertionText(t);
         // first create completion item for name => TID
         let completionItem: vscode.CompletionItem = new vscode.CompletionItem(t.name, vscode.CompletionItemKind.Value);
-        completionItem.detail = insertionText;
+        completionItem.detail = `${insertionText}${domainSuffix(t.domains)}`;
         completionItem.insertText = insertionText;
         // if technique has a parent then use that for the filter text, otherwise just use the name + TID
         const filterText: string = t.parent !== undefined ? `${t.parent?.name}: ${t.name}` : `${t.name}`;
         completionItem.filterText = filterText;
         if (t.deprecated || t.revoked) { completionItem.tags = [vscode.CompletionItemTag.Deprecated]; }
+        demoteOutOfScope(completionItem, t.name, t);
         techniqueCompletionItems.push(completionItem);
         // then create completion item for TID => TID
         completionItem = new vscode.CompletionItem(t.id, vscode.CompletionItemKind.Value);
-        completionItem.detail = insertionText;
+        completionItem.detail = `${insertionText}${domainSuffix(t.domains)}`;
         completionItem.insertText = insertionText;
         if (t.deprecated || t.revoked) { completionItem.tags = [vscode.CompletionItemTag.Deprecated]; }
+        demoteOutOfScope(completionItem, t.id, t);
         return completionItem;
     });
 }
@@ -117,37 +206,47 @@ export async function init(attackData: AttackMap): Promise<Technique[]> {
         }).map<Technique>((item: AttackObject) => {
             const description: string = item.description !== undefined ? item.description : 'No description available.';
             const technique: Technique = {
+                dataSources: item.x_mitre_data_sources || [],
+                defenseBypassed: item.x_mitre_defense_bypassed || [],
                 description: {
                     short: description.split("\n")[0],
                     long: description
                 },
+                detection: item.x_mitre_detection,
+                domains: getDomains(item),
                 id: '<unknown>',
                 name: item.name,
                 parent: undefined,
+                permissionsRequired: item.x_mitre_permissions_required || [],
+                platforms: item.x_mitre_platforms || [],
                 revoked: item.revoked,
                 deprecated: item.x_mitre_deprecated,
                 subtechnique: item.x_mitre_is_subtechnique,
                 tactics: [],
-                url: '<unknown>'
+                url: '<unknown>',
+                version: item.x_mitre_version
             };
-            item.external_references?.forEach((reference: ExternalReference) => {
-                if (reference.source_name === 'mitre-attack') {
-                    technique.id = reference.external_id;
-                    technique.url = reference.url;
-                    return; // found what we were looking for - no need to iterate over the rest
-                }
-            });
+            // custom objects may be identified by a source other than 'mitre-attack'
+            const reference: ExternalReference|undefined = getAttackReference(item);
+            if (reference !== undefined) {
+                technique.id = reference.external_id;
+                technique.url = reference.url;
+            }
             technique.tactics = item.kill_chain_phases?.filter((phase: KillChainPhase) => {
                 return phase.kill_chain_name === 'mitre-attack';
             }).map<string>((phase: KillChainPhase) => { return phase.phase_name; });
             return technique;
         });
         // now that all the techniques are parsed we can generate the parent relationships for subtechniques
+        const techniquesById: Map<string, Array<Technique>> = indexBy(techniques, (t: Technique) => { return [t.id]; });
         techniques.forEach((technique: Technique) => {
             if (technique.subtechnique) {
                 const parentTID: string | undefined = technique.id.split('.').shift()?.toString();
                 if (parentTID !== undefined) {
-                    const parent: Technique | undefined = techniques.find((t: Technique) => { return t.id === parentTID; });
+                    // prefer a parent from the same domain, in case the ID is reused elsewhere
+                    const parent: Technique | undefined = (techniquesById.get(parentTID) || new Array<Technique>()).find((t: Technique) => {
+                        return t.domains.some((domain: string) => { return technique.domains.includes(domain); });
+                    });
                     if (parent !== undefined) {
                         technique.parent = parent;
                     }
@@ -161,6 +260,7 @@ export async function init(attackData: AttackMap): Promise<Technique[]> {
 
 export class TechniqueHoverProvider implements vscode.HoverProvider {
     public techniques: Array<Technique> = new Array<Technique>();
+    public techniquesById: Map<string, Array<Technique>> = new Map<string, Array<Technique>>();
 
     public provideHover(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken): vscode.ProviderResult<vscode.Hover> {
         try {
@@ -176,10 +276,13 @@ export class TechniqueHoverProvider implements vscode.HoverProvider {
                 hoverRange = document.getWordRangeAtPosition(position, techniqueRegex);
                 if (hoverRange !== undefined) {
                     const hoverTerm: string = document.getText(hoverRange);
-                    const currentTechnique: Technique | undefined = this.techniques.find((t: Technique) => { return t.id === hoverTerm; });
-                    if (currentTechnique !== undefined) {
-                        if (debug) { log(`TechniqueHoverProvider: Found exact Technique ID '${currentTechnique.id}'`); }
-                        hover = new vscode.Hover(buildTechniqueDescription(currentTechnique), hoverRange);
+                    // the same ID can belong to different objects in different domains, so show every match
+                    const currentTechniques: Array<Technique> = this.techniquesById.get(hoverTerm) || new Array<Technique>();
+                    if (currentTechniques.length > 0) {
+                        if (debug) { log(`TechniqueHoverProvider: Found exact Technique ID '${hoverTerm}'`); }
+                        hover = new vscode.Hover(currentTechniques.map<vscode.MarkdownString>((t: Technique) => {
+                            return buildTechniqueDescription(t, undefined, t.revoked ? getReplacement(t, this.techniquesById) : undefined);
+                        }), hoverRange);
                     }
                 }
                 resolve(hover);
@@ -194,6 +297,9 @@ export class TechniqueCompletionProvider implements vscode.CompletionItemProvide
     private maxDescriptionItems = 3;
     public techniques: Array<Technique> = new Array<Technique>();
     public revokedTechniques: Array<Technique> = new Array<Technique>();
+    public techniquesById: Map<string, Array<Technique>> = new Map<string, Array<Technique>>();
+    public techniquesByName: Map<string, Array<Technique>> = new Map<string, Array<Technique>>();
+    public revokedTechniquesById: Map<string, Array<Technique>> = new Map<string, Array<Technique>>();
 
     public provideCompletionItems(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken, context: vscode.CompletionContext): vscode.ProviderResult<vscode.CompletionItem[] | vscode.CompletionList> {
         try {
@@ -219,16 +325,21 @@ export class TechniqueCompletionProvider implements vscode.CompletionItemProvide
                         completionItems = techniqueCompletionItems;
                     }
                     // do not search technique descriptions if the TID matches a revoked technique
-                    else if (this.revokedTechniques.find((t: Technique) => { return t.id === completionTerm.toUpperCase(); })) {
+                    // ... but offer whatever replaced it instead
+                    else if (this.revokedTechniquesById.has(completionTerm.toUpperCase())) {
                         if (debug) { log(`TechniqueCompletionProvider: Completion term '${completionTerm}' found in revoked techniques`); }
-                        completionItems = new Array<vscode.CompletionItem>();
+                        completionItems = (this.revokedTechniquesById.get(completionTerm.toUpperCase()) || new Array<Technique>()).map<Technique|undefined>((t: Technique) => {
+                            return getReplacement(t, this.techniquesById);
+                        }).filter((t: Technique|undefined): t is Technique => { return t !== undefined; }).map<vscode.CompletionItem>((t: Technique) => {
+                            return buildReplacementItem(completionTerm, t);
+                        });
                     }
-                    // if the user is trying to complete something that matches an exact technique ID, just return that one item
+                    // if the user is trying to complete something that matches an exact technique ID, just return the matching item(s)
                     else {
-                        const technique: Technique | undefined = this.techniques.find((t: Technique) => { return t.id === completionTerm.toUpperCase(); });
-                        if (technique !== undefined) {
-                            if (debug) { log(`TechniqueCompletionProvider: Found exact Technique ID '${technique.id}'`); }
-                            completionItems = [buildCompletionItem(technique.id, technique)];
+                        const exactTechniques: Array<Technique> = this.techniquesById.get(completionTerm.toUpperCase()) || new Array<Technique>();
+                        if (exactTechniques.length > 0) {
+                            if (debug) { log(`TechniqueCompletionProvider: Found exact Technique ID '${completionTerm.toUpperCase()}'`); }
+                            completionItems = exactTechniques.map<vscode.CompletionItem>((t: Technique) => { return buildCompletionItem(t.id, t); });
                         }
                         else {
                             // if the user is trying to complete a technique by name
@@ -292,7 +403,7 @@ export class TechniqueCompletionProvider implements vscode.CompletionItemProvide
                 // some items will already have documentation filled out at creation time
                 // ... such as technique description items, because we cannot correlate them back to a technique at resolution
                 if (item.documentation === undefined) {
-                    const technique: Technique | undefined = this.techniques.filter((t: Technique) => {
+                    const technique: Technique | undefined = lookupByLabel(item.label, this.techniquesById, this.techniquesByName).filter((t: Technique) => {
                         if (item.tags?.includes(vscode.CompletionItemTag.Deprecated)) {
                             return t.revoked || t.deprecated;
                         }
@@ -301,7 +412,8 @@ export class TechniqueCompletionProvider implements vscode.CompletionItemProvide
                             return !t.revoked && !t.deprecated;
                         }
                     }).find((t: Technique) => {
-                        return (t.id === item.label) || (t.name === item.label);
+                        // the detail tells apart techniques sharing an ID across domains
+                        return ((t.id === item.label) || (t.name === item.label)) && (item.detail === undefined || item.detail.endsWith(domainSuffix(t.domains)));
                     });
                     if (technique !== undefined) {
                         item.documentation = buildTechniqueDescription(technique);
@@ -321,11 +433,15 @@ export function register(filters: vscode.DocumentSelector, techniques: Array<Tec
     // hover provider
     const techniqueHovers: TechniqueHoverProvider = new TechniqueHoverProvider();
     techniqueHovers.techniques = techniques;
+    techniqueHovers.techniquesById = indexBy(techniques, (t: Technique) => { return [t.id]; });
     const techniqueHoverDisposable: vscode.Disposable = vscode.languages.registerHoverProvider(filters, techniqueHovers);
     // completion provider
     const techniqueCompletions: TechniqueCompletionProvider = new TechniqueCompletionProvider();
     techniqueCompletions.techniques = techniques.filter((technique: Technique) => { return technique.revoked !== true; });
     techniqueCompletions.revokedTechniques = techniques.filter((technique: Technique) => { return technique.revoked === true; });
+    techniqueCompletions.techniquesById = indexBy(techniqueCompletions.techniques, (t: Technique) => { return [t.id]; });
+    techniqueCompletions.techniquesByName = indexBy(techniqueCompletions.techniques, (t: Technique) => { return [t.name]; });
+    techniqueCompletions.revokedTechniquesById = indexBy(techniqueCompletions.revokedTechniques, (t: Technique) => { return [t.id]; });
     const techniqueCompletionDisposable: vscode.Disposable = vscode.languages.registerCompletionItemProvider(filters, techniqueCompletions);
     // only complete non-revoked items
     generateCompletionItems(techniques.filter((technique: Technique) => { return technique.revoked !== true; }));
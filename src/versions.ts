@@ -0,0 +1,85 @@
+import * as vscode from 'vscode';
+import { configSection, debug } from './configuration';
+import { compareVersions, getCachedVersions, getVersions, log } from './helpers';
+
+// quick pick entry for following the newest ATT&CK release instead of pinning one
+const latestLabel = 'Latest';
+
+interface VersionQuickPickItem extends vscode.QuickPickItem {
+    version: string;
+}
+
+/*
+    Build the list of versions to display, marking where each version is available
+*/
+export function buildVersionItems(cachedVersions: Array<string>, onlineVersions: Array<string>, pinnedVersion: string): Array<VersionQuickPickItem> {
+    const versions: Array<string> = [...new Set<string>([...cachedVersions, ...onlineVersions])].sort(compareVersions).reverse();
+    const items: Array<VersionQuickPickItem> = versions.map<VersionQuickPickItem>((version: string) => {
+        const locations: Array<string> = new Array<string>();
+        if (cachedVersions.includes(version)) { locations.push('cached'); }
+        if (onlineVersions.includes(version)) { locations.push('available online'); }
+        return {
+            description: version === pinnedVersion ? `$(pinned) ${locations.join(', ')}` : locations.join(', '),
+            label: `v${version}`,
+            version: version
+        };
+    });
+    // always give the user a way to stop pinning a version
+    items.unshift({
+        description: pinnedVersion === '' ? '$(pinned) always use the newest version' : 'always use the newest version',
+        label: latestLabel,
+        version: ''
+    });
+    return items;
+}
+
+/*
+    Work out what to store in the version setting at the given scope for the selected version ('' for latest)
+    ... following the latest version normally removes the setting, but a version pinned in the user settings would then apply
+    ... so the workspace overrides it with an empty string instead
+*/
+export function getVersionSetting(version: string, target: vscode.ConfigurationTarget, globalVersion: string|undefined): string|undefined {
+    if (version !== '') { return version; }
+    const pinnedGlobally: boolean = globalVersion !== undefined && globalVersion.trim().length > 0;
+    return target === vscode.ConfigurationTarget.Workspace && pinnedGlobally ? '' : undefined;
+}
+
+/*
+    Ask the user which ATT&CK version to use and pin it to the current workspace
+    Returns the selected version ('' for latest), or undefined if the user cancelled
+*/
+export async function selectVersion(storageUri: vscode.Uri): Promise<string|undefined> {
+    const configuration: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration(configSection);
+    const pinnedVersion: string = configuration.get('version') || '';
+    const cachedVersions: Array<string> = await getCachedVersions(storageUri);
+    let onlineVersions: Array<string> = new Array<string>();
+    // data sources other than GitHub have no concept of versions to pick from
+    const dataSource: string = configuration.get('dataSource') || '';
+    const taxiiServer: string = configuration.get('taxiiServer') || '';
+    if (dataSource.trim().length === 0 && taxiiServer.trim().length === 0) {
+        try {
+            onlineVersions = await getVersions();
+        } catch (err) {
+            // still let the user choose from whatever is cached
+            log(`selectVersion: Could not retrieve online versions: ${err}`);
+        }
+    }
+    else if (dataSource.trim().length > 0) {
+        vscode.window.showWarningMessage(`ATT&CK: A local data source is configured, so the selected version will only be used once 'vscode-attack.dataSource' is cleared.`);
+    }
+    else {
+        vscode.window.showWarningMessage(`ATT&CK: A TAXII server is configured, so the selected version will only be used once 'vscode-attack.taxiiServer' is cleared.`);
+    }
+    const items: Array<VersionQuickPickItem> = buildVersionItems(cachedVersions, onlineVersions, pinnedVersion);
+    const selection: VersionQuickPickItem|undefined = await vscode.window.showQuickPick(items, {placeHolder: 'Select the ATT&CK version to use in this workspace'});
+    if (selection === undefined) {
+        if (debug) { log('selectVersion: Version selection cancelled'); }
+        return undefined;
+    }
+    // pin per workspace where possible, but fall back to the user settings when no folder is open
+    const target: vscode.ConfigurationTarget = vscode.workspace.workspaceFolders !== undefined ? vscode.ConfigurationTarget.Workspace : vscode.ConfigurationTarget.Global;
+    const inspected: {globalValue?: string}|undefined = configuration.inspect<string>('version');
+    await configuration.update('version', getVersionSetting(selection.version, target, inspected !== undefined ? inspected.globalValue : undefined), target);
+    log(selection.version === '' ? 'selectVersion: Following the latest ATT&CK version' : `selectVersion: Pinned ATT&CK version ${selection.version}`);
+    return selection.version;
+}
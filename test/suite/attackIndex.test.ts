@@ -0,0 +1,142 @@
+import * as assert from 'assert';
+import * as os from 'os';
+import { performance } from 'perf_hooks';
+import { StringDecoder } from 'string_decoder';
+import * as vscode from 'vscode';
+import { buildIndex, getIndexPath, indexToAttackMap, readIndex } from '../../src/attackIndex';
+import * as helpers from '../../src/helpers';
+import { init as initTechniques } from '../../src/techniques';
+import { consoleLogger, extensionID, fileArtifacts, ignoreConsoleLogs, resetState } from './testHelpers';
+
+const attack7Uri: vscode.Uri = vscode.Uri.file(`${__dirname}/../../../test/files/attack7.json`);
+const testUri: vscode.Uri = vscode.Uri.file(`${__dirname}/../../../test/files/test.md`);
+
+/*
+    Copy the v7 ATT&CK map into a fresh cache directory
+*/
+async function createCache(name: string): Promise<{cacheUri: vscode.Uri, fileUri: vscode.Uri}> {
+    const cacheUri: vscode.Uri = vscode.Uri.joinPath(vscode.Uri.file(os.tmpdir()), name);
+    const fileUri: vscode.Uri = vscode.Uri.joinPath(cacheUri, 'enterprise-attack.7.2.json');
+    await vscode.workspace.fs.createDirectory(cacheUri);
+    fileArtifacts.push(cacheUri);
+    await vscode.workspace.fs.copy(attack7Uri, fileUri, {overwrite: true});
+    return {cacheUri: cacheUri, fileUri: fileUri};
+}
+
+/*
+    Time how long the given function takes in milliseconds
+*/
+async function measure(fn: () => Promise<unknown>|unknown): Promise<number> {
+    const start: number = performance.now();
+    await fn();
+    return performance.now() - start;
+}
+
+describe('ATT&CK Index', function () {
+    this.timeout(30000);
+    let attackMap: AttackMap;
+
+    before(async function () {
+        const contents: Uint8Array = await vscode.workspace.fs.readFile(attack7Uri);
+        attackMap = JSON.parse(new StringDecoder('utf8').end(Buffer.from(contents))) as AttackMap;
+    });
+    beforeEach(ignoreConsoleLogs);
+    afterEach(resetState);
+    it('should keep every object and current relationship', function () {
+        const index: AttackIndex = buildIndex(attackMap, {mtime: 0, size: 0});
+        const current: Array<AttackObject> = attackMap.objects.filter((obj: AttackObject) => { return obj.type !== 'relationship' || (!obj.revoked && !obj.x_mitre_deprecated); });
+        assert.deepStrictEqual(index.objects.map((obj: AttackObject) => { return obj.id; }), current.map((obj: AttackObject) => { return obj.id; }));
+        const subtechniqueOf: AttackObject|undefined = index.objects.find((obj: AttackObject) => { return obj.relationship_type === 'subtechnique-of'; });
+        assert.ok(subtechniqueOf?.source_ref.startsWith('attack-pattern--') && subtechniqueOf?.target_ref.startsWith('attack-pattern--'));
+    });
+    it('should only keep the fields the extension reads', function () {
+        const index: AttackIndex = buildIndex(attackMap, {mtime: 0, size: 0});
+        const technique: AttackObject|undefined = index.objects.find((obj: AttackObject) => { return obj.type === 'attack-pattern' && obj.external_references?.[0].external_id === 'T1059'; });
+        assert.strictEqual(technique?.external_references.length, 1);
+        assert.strictEqual(technique?.external_references[0].source_name, 'mitre-attack');
+        assert.ok(JSON.stringify(index).length < JSON.stringify(attackMap).length / 2);
+    });
+    it('should parse to the same techniques as the raw ATT&CK map', async function () {
+        const rawTechniques: Array<Technique> = await initTechniques(attackMap);
+        const indexedTechniques: Array<Technique> = await initTechniques(indexToAttackMap(buildIndex(attackMap, {mtime: 0, size: 0})));
+        assert.deepStrictEqual(indexedTechniques.map((t: Technique) => { return t.id; }).sort(), rawTechniques.map((t: Technique) => { return t.id; }).sort());
+        assert.deepStrictEqual(indexedTechniques.find((t: Technique) => { return t.id === 'T1059.001'; })?.parent?.name, 'Command and Scripting Interpreter');
+    });
+    it('should build the index on the first read and use it afterwards', async function () {
+        const cache = await createCache('attackIndexTest1');
+        assert.strictEqual(await readIndex(cache.cacheUri, cache.fileUri), undefined);
+        await helpers.readCachedAttackMap(cache.cacheUri, cache.fileUri);
+        assert.ok(await readIndex(cache.cacheUri, cache.fileUri) !== undefined);
+        const indexedMap: AttackMap|undefined = await helpers.readCachedAttackMap(cache.cacheUri, cache.fileUri);
+        assert.strictEqual(indexedMap?.id, 'bundle--indexed');
+    });
+    it('should rebuild the index when the raw ATT&CK map changes', async function () {
+        const cache = await createCache('attackIndexTest2');
+        await helpers.readCachedAttackMap(cache.cacheUri, cache.fileUri);
+        // re-serializing changes the size of the file, like replacing it with a different copy would
+        await vscode.workspace.fs.writeFile(cache.fileUri, Buffer.from(JSON.stringify(attackMap, undefined, 1), 'utf-8'));
+        assert.strictEqual(await readIndex(cache.cacheUri, cache.fileUri), undefined);
+        await helpers.readCachedAttackMap(cache.cacheUri, cache.fileUri);
+        assert.ok(await readIndex(cache.cacheUri, cache.fileUri) !== undefined);
+        assert.ok((await vscode.workspace.fs.stat(getIndexPath(cache.cacheUri, cache.fileUri))).size > 0);
+    });
+    it('should read the index instead of parsing the raw ATT&CK map', async function () {
+        const cache = await createCache('attackIndexTest3');
+        let rawMap: AttackMap|undefined = undefined;
+        const rawTime: number = await measure(async () => { rawMap = await helpers.readCachedAttackMap(cache.cacheUri, cache.fileUri); });
+        const index: AttackIndex|undefined = await readIndex(cache.cacheUri, cache.fileUri);
+        assert.ok(rawMap !== undefined && index !== undefined);
+        // record everything parsed during the second read, which should include the index but no raw ATT&CK map
+        const parse = JSON.parse;
+        const parsed: Array<unknown> = new Array<unknown>();
+        JSON.parse = function (text: string, reviver?: (this: unknown, key: string, value: unknown) => unknown): unknown {
+            const result: unknown = parse(text, reviver);
+            parsed.push(result);
+            return result;
+        };
+        let indexedMap: AttackMap|undefined = undefined;
+        let indexedTime = 0;
+        try {
+            indexedTime = await measure(async () => { indexedMap = await helpers.readCachedAttackMap(cache.cacheUri, cache.fileUri); });
+        } finally {
+            JSON.parse = parse;
+        }
+        consoleLogger(`      startup: raw map loaded in ${rawTime.toFixed(1)}ms, indexed map in ${indexedTime.toFixed(1)}ms`);
+        // timings vary too much between machines for a strict comparison, but skipping the raw map should never be much slower
+        assert.ok(indexedTime < rawTime * 2, `${indexedTime}ms >= 2 * ${rawTime}ms`);
+        assert.ok(parsed.some((data: unknown) => { return data instanceof Object && (data as AttackIndex).format === index.format; }));
+        assert.ok(!parsed.some((data: unknown) => { return data instanceof Object && (data as AttackMap).type === 'bundle'; }));
+        // the index round-trips to the same map and techniques as the raw file
+        assert.deepStrictEqual(indexedMap, indexToAttackMap(index));
+        const rawTechniques: Array<Technique> = await initTechniques(rawMap as AttackMap);
+        const indexedTechniques: Array<Technique> = await initTechniques(indexedMap as AttackMap);
+        assert.deepStrictEqual(indexedTechniques.map((t: Technique) => { return t.id; }).sort(), rawTechniques.map((t: Technique) => { return t.id; }).sort());
+    });
+    it('should look up the same techniques by ID as scanning them', async function () {
+        const techniques: Array<Technique> = await initTechniques(attackMap);
+        const techniquesById: Map<string, Array<Technique>> = helpers.indexBy(techniques, (t: Technique) => { return [t.id]; });
+        const ids: Array<string> = techniques.map((t: Technique) => { return t.id; });
+        const scanned: Array<Array<Technique>> = new Array<Array<Technique>>();
+        const looked: Array<Array<Technique>|undefined> = new Array<Array<Technique>|undefined>();
+        const scanTime: number = await measure(() => {
+            ids.forEach((id: string) => { scanned.push(techniques.filter((t: Technique) => { return t.id === id; })); });
+        });
+        const lookupTime: number = await measure(() => {
+            ids.forEach((id: string) => { looked.push(techniquesById.get(id)); });
+        });
+        consoleLogger(`      hover: ${ids.length} lookups took ${scanTime.toFixed(1)}ms scanning, ${lookupTime.toFixed(1)}ms indexed`);
+        assert.deepStrictEqual(looked, scanned);
+    });
+    it('should provide hovers from the loaded data', async function () {
+        const ext: vscode.Extension<unknown> | undefined = vscode.extensions.getExtension(extensionID);
+        await ext?.activate();
+        const position: vscode.Position = new vscode.Position(0, 'T1059'.length);
+        let results: unknown = undefined;
+        const hoverTime: number = await measure(async () => { results = await vscode.commands.executeCommand('vscode.executeHoverProvider', testUri, position); });
+        consoleLogger(`      hover: ${hoverTime.toFixed(1)}ms, including opening the document`);
+        assert.ok(results instanceof Array);
+        assert.strictEqual(results.length, 1);
+        const contents: vscode.MarkdownString = results[0].contents[0] as vscode.MarkdownString;
+        assert.ok(contents.value.includes('Command and Scripting Interpreter'));
+    });
+});
@@ -0,0 +1,83 @@
+import * as assert from 'assert';
+import * as os from 'os';
+import { StringDecoder } from 'string_decoder';
+import * as vscode from 'vscode';
+import { CacheEntry, formatSize, getBundleDomain, importBundle, listCacheEntries, pruneCache, purgeCache } from '../../src/cache';
+import * as helpers from '../../src/helpers';
+import { extensionID, fileArtifacts, ignoreConsoleLogs, resetState } from './testHelpers';
+
+/*
+    Create a cache directory containing placeholder files for the given cache file names
+*/
+async function createCache(name: string, files: Array<string>): Promise<vscode.Uri> {
+    const tmpDir: vscode.Uri = vscode.Uri.joinPath(vscode.Uri.file(os.tmpdir()), name);
+    await vscode.workspace.fs.createDirectory(tmpDir);
+    fileArtifacts.push(tmpDir);
+    for (const file of files) {
+        await vscode.workspace.fs.writeFile(vscode.Uri.joinPath(tmpDir, file), Buffer.from(file, 'utf-8'));
+    }
+    return tmpDir;
+}
+
+describe('Command: manageCache', function () {
+    const manageCacheCommand = 'vscode-attack.manageCache';
+    const attack7Uri: vscode.Uri = vscode.Uri.file(`${__dirname}/../../../test/files/attack7.json`);
+    let ext: vscode.Extension<unknown> | undefined;
+
+    before(async function () {
+        ext = vscode.extensions.getExtension(extensionID);
+        await ext?.activate();
+    });
+    beforeEach(ignoreConsoleLogs);
+    afterEach(resetState);
+    it('manage cache command should exist', async function () {
+        const commands: Array<string> = await vscode.commands.getCommands(true);
+        assert.ok(commands.includes(manageCacheCommand), `No '${manageCacheCommand}' exists.`);
+    });
+    it('should format file sizes', function () {
+        assert.strictEqual(formatSize(512), '512 B');
+        assert.strictEqual(formatSize(41943040), '40.0 MB');
+    });
+    it('should list cached versions of every domain, newest first', async function () {
+        const tmpDir: vscode.Uri = await createCache('manageCacheTest1', ['enterprise-attack.9.0.json', 'enterprise-attack.10.0.json', 'mobile-attack.9.0.json', 'enterprise-attack.10.0.json.tmp']);
+        const entries: Array<CacheEntry> = await listCacheEntries(tmpDir);
+        assert.deepStrictEqual(entries.map<string>((entry: CacheEntry) => { return `${entry.domain} ${entry.version}`; }), ['enterprise-attack 10.0', 'enterprise-attack 9.0', 'mobile-attack 9.0']);
+        assert.strictEqual(entries[0].size, 'enterprise-attack.10.0.json'.length);
+    });
+    it('should keep only the newest versions of each domain', async function () {
+        const tmpDir: vscode.Uri = await createCache('manageCacheTest2', ['enterprise-attack.8.0.json', 'enterprise-attack.9.0.json', 'enterprise-attack.10.0.json', 'ics-attack.9.0.json']);
+        const deleted: Array<CacheEntry> = await pruneCache(tmpDir, 1);
+        assert.deepStrictEqual(deleted.map<string>((entry: CacheEntry) => { return entry.version; }), ['9.0', '8.0']);
+        assert.deepStrictEqual(await helpers.getCachedVersions(tmpDir), ['10.0']);
+        assert.deepStrictEqual(await helpers.getCachedVersions(tmpDir, 'ics-attack'), ['9.0']);
+    });
+    it('should purge every cached file', async function () {
+        const tmpDir: vscode.Uri = await createCache('manageCacheTest3', ['enterprise-attack.9.0.json', 'mobile-attack.9.0.json']);
+        await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(tmpDir, 'local'));
+        await purgeCache(tmpDir);
+        const entries: [string, vscode.FileType][] = await vscode.workspace.fs.readDirectory(tmpDir);
+        assert.strictEqual(entries.length, 0);
+    });
+    it('should determine the domain of a bundle from its matrix', async function () {
+        const contents: Uint8Array = await vscode.workspace.fs.readFile(attack7Uri);
+        const attackMap: AttackMap = JSON.parse(new StringDecoder('utf8').end(Buffer.from(contents))) as AttackMap;
+        assert.strictEqual(getBundleDomain(attackMap), 'enterprise-attack');
+        assert.strictEqual(getBundleDomain({ ...attackMap, objects: [] }), undefined);
+    });
+    it('should import a bundle from disk into the cache', async function () {
+        const tmpDir: vscode.Uri = await createCache('manageCacheTest4', []);
+        // v7 does not say which version it is, so that has to be given
+        assert.strictEqual(await importBundle(tmpDir, attack7Uri), undefined);
+        const entry: CacheEntry|undefined = await importBundle(tmpDir, attack7Uri, '7.2');
+        assert.strictEqual(entry?.domain, 'enterprise-attack');
+        assert.deepStrictEqual(await helpers.getCachedVersions(tmpDir), ['7.2']);
+    });
+    it('should refuse to import files that are not ATT&CK releases', async function () {
+        const tmpDir: vscode.Uri = await createCache('manageCacheTest5', []);
+        const customUri: vscode.Uri = vscode.Uri.file(`${__dirname}/../../../test/files/custom.json`);
+        await assert.rejects(importBundle(tmpDir, customUri, '1.0', 'enterprise-attack'), /Not an ATT&CK release/);
+        await assert.rejects(importBundle(tmpDir, attack7Uri, 'v9', 'enterprise-attack'), /not an ATT&CK version/);
+        await assert.rejects(importBundle(tmpDir, attack7Uri, '9', 'enterprise-attack'), /not an ATT&CK version/);
+        assert.deepStrictEqual(await helpers.getCachedVersions(tmpDir), []);
+    });
+});
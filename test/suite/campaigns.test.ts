@@ -0,0 +1,65 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { CampaignHoverProvider, formatSeenDate, init } from '../../src/campaigns';
+import { campaignRegex, indexBy } from '../../src/helpers';
+import { ATTACKExtensionAPI, extensionID, ignoreConsoleLogs, resetState } from './testHelpers';
+
+const testData: AttackMap = {
+    type: 'bundle',
+    id: 'bundle--test',
+    spec_version: '2.0',
+    objects: [
+        {
+            aliases: ['Operation Dream Job', 'Operation North Star'],
+            description: 'Operation Dream Job was a cyber espionage operation.\nMore details.',
+            external_references: [{ source_name: 'mitre-attack', external_id: 'C0022', url: 'https://attack.mitre.org/campaigns/C0022' }],
+            first_seen: '2019-09-01T04:00:00.000Z',
+            id: 'campaign--dream-job',
+            last_seen: '2020-08-01T04:00:00.000Z',
+            name: 'Operation Dream Job',
+            type: 'campaign',
+        } as AttackObject,
+    ],
+};
+
+describe('Campaigns', function () {
+    let campaigns: Array<Campaign>;
+    let exports: ATTACKExtensionAPI;
+
+    before(async function () {
+        const ext: vscode.Extension<unknown> | undefined = vscode.extensions.getExtension(extensionID);
+        await ext?.activate();
+        exports = ext?.exports as ATTACKExtensionAPI;
+        campaigns = await init(testData);
+    });
+    beforeEach(ignoreConsoleLogs);
+    afterEach(resetState);
+    it('regex should match campaign ID', function () {
+        assert.ok(campaignRegex.test('C0022'));
+    });
+    it('should parse campaigns', function () {
+        assert.strictEqual(campaigns.length, 1);
+        assert.strictEqual(campaigns[0].id, 'C0022');
+        assert.strictEqual(campaigns[0].firstSeen, '2019-09-01T04:00:00.000Z');
+        assert.deepStrictEqual(campaigns[0].aliases, ['Operation Dream Job', 'Operation North Star']);
+    });
+    it('should format first and last seen dates like the ATT&CK site', function () {
+        assert.strictEqual(formatSeenDate('2019-09-01T04:00:00.000Z'), 'September 2019');
+        assert.strictEqual(formatSeenDate('not a date'), 'not a date');
+    });
+    it('should provide a hover with the first and last seen dates', async function () {
+        const hovers: CampaignHoverProvider = new CampaignHoverProvider();
+        hovers.campaigns = campaigns;
+        hovers.campaignsById = indexBy(campaigns, (c: Campaign) => { return [c.id]; });
+        const document: vscode.TextDocument = await vscode.workspace.openTextDocument({ content: 'C0022', language: 'markdown' });
+        const hover = await hovers.provideHover(document, new vscode.Position(0, 2), new vscode.CancellationTokenSource().token);
+        assert.ok(hover instanceof vscode.Hover);
+        const contents: vscode.MarkdownString = hover.contents[0] as vscode.MarkdownString;
+        assert.ok(contents.value.includes('[Source Link](https://attack.mitre.org/campaigns/C0022)'));
+        assert.ok(contents.value.includes('**First Seen**: September 2019'));
+        assert.ok(contents.value.includes('**Last Seen**: August 2020'));
+    });
+    it('should expose campaigns through the extension API', function () {
+        assert.ok(exports.getCampaigns() instanceof Array);
+    });
+});
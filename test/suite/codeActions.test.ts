@@ -0,0 +1,74 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { AttackCodeActionProvider, findClosestObjects, fixAllKind, getEditDistance } from '../../src/codeActions';
+import { buildDiagnosticContext, findDiagnostics } from '../../src/diagnostics';
+import { ATTACKExtensionAPI, configSection, extensionID, ignoreConsoleLogs, resetState, setTestConfig } from './testHelpers';
+
+/*
+    Request the code actions for a range of a document, along with the diagnostics in that range
+*/
+function getActions(provider: AttackCodeActionProvider, document: vscode.TextDocument, range: vscode.Range, only?: vscode.CodeActionKind): Array<vscode.CodeAction> {
+    const diagnostics: Array<vscode.Diagnostic> = findDiagnostics(document, provider.context).filter((d: vscode.Diagnostic) => { return d.range.intersection(range) !== undefined; });
+    return provider.provideCodeActions(document, range, { diagnostics: diagnostics, only: only, triggerKind: vscode.CodeActionTriggerKind.Invoke });
+}
+
+describe('Code Actions', function () {
+    let provider: AttackCodeActionProvider;
+
+    before(async function () {
+        const ext: vscode.Extension<unknown> | undefined = vscode.extensions.getExtension(extensionID);
+        await ext?.activate();
+        const exports: ATTACKExtensionAPI = ext?.exports as ATTACKExtensionAPI;
+        provider = new AttackCodeActionProvider();
+        provider.context = buildDiagnosticContext(exports.getAllTechniques(), exports.getTactics(), [], [], []);
+    });
+    beforeEach(ignoreConsoleLogs);
+    afterEach(async function () {
+        await setTestConfig('markdownLinkStyle', undefined, vscode.workspace.getConfiguration(configSection));
+        resetState();
+    });
+    it('should measure the edit distance between IDs', function () {
+        assert.strictEqual(getEditDistance('T1059', 'T1059'), 0);
+        assert.strictEqual(getEditDistance('T1509', 'T1059'), 2);
+        assert.strictEqual(getEditDistance('T1059', 'T1059.001'), 4);
+    });
+    it('should suggest current techniques close to a typo', function () {
+        const closest: Array<AttackDataSource|Campaign|Group|Mitigation|Software|Tactic|Technique> = findClosestObjects('T1509', provider.context);
+        assert.ok(closest.length > 0 && closest.length <= 3);
+        assert.ok(closest.every((obj: AttackDataSource|Campaign|Group|Mitigation|Software|Tactic|Technique) => { return getEditDistance('T1509', obj.id) <= 2 && !(obj as Technique).revoked; }));
+    });
+    it('should replace revoked techniques and normalize the slash notation', async function () {
+        const document: vscode.TextDocument = await vscode.workspace.openTextDocument({ content: 'T1086 T1059/001', language: 'markdown' });
+        const revoked: Array<vscode.CodeAction> = getActions(provider, document, new vscode.Range(0, 0, 0, 5), vscode.CodeActionKind.QuickFix);
+        assert.strictEqual(revoked[0].title, 'Replace with T1059.001 (PowerShell)');
+        assert.ok(revoked[0].isPreferred);
+        const slash: Array<vscode.CodeAction> = getActions(provider, document, new vscode.Range(0, 6, 0, 15), vscode.CodeActionKind.QuickFix);
+        assert.strictEqual(slash[0].title, 'Change to T1059.001');
+        assert.deepStrictEqual(slash[0].edit?.get(document.uri).map((e: vscode.TextEdit) => { return e.newText; }), ['T1059.001']);
+    });
+    it('should convert a known ID into a Markdown link', async function () {
+        const document: vscode.TextDocument = await vscode.workspace.openTextDocument({ content: 'See T1059.001 and [T1059](https://attack.mitre.org/techniques/T1059)', language: 'markdown' });
+        const actions: Array<vscode.CodeAction> = getActions(provider, document, new vscode.Range(0, 6, 0, 6), vscode.CodeActionKind.RefactorRewrite);
+        const link: vscode.CodeAction|undefined = actions.find((a: vscode.CodeAction) => { return a.title === 'Convert T1059.001 to a link'; });
+        assert.deepStrictEqual(link?.edit?.get(document.uri).map((e: vscode.TextEdit) => { return e.newText; }), ['[T1059.001](https://attack.mitre.org/techniques/T1059/001)']);
+        // the text of an existing link should not be converted again
+        assert.deepStrictEqual(getActions(provider, document, new vscode.Range(0, 20, 0, 20), vscode.CodeActionKind.RefactorRewrite), []);
+    });
+    it('should convert a known ID into a reference-style link with a definition when configured', async function () {
+        await setTestConfig('markdownLinkStyle', 'reference', vscode.workspace.getConfiguration(configSection));
+        const document: vscode.TextDocument = await vscode.workspace.openTextDocument({ content: 'See T1059.001 and [T1059][T1059]\n\n[T1059]: https://attack.mitre.org/techniques/T1059\n', language: 'markdown' });
+        const actions: Array<vscode.CodeAction> = getActions(provider, document, new vscode.Range(0, 6, 0, 6), vscode.CodeActionKind.RefactorRewrite);
+        const link: vscode.CodeAction|undefined = actions.find((a: vscode.CodeAction) => { return a.title === 'Convert T1059.001 to a link'; });
+        assert.deepStrictEqual(link?.edit?.get(document.uri).map((e: vscode.TextEdit) => { return e.newText; }), [
+            '[T1059.001][T1059.001]',
+            '\n\n[T1059]: https://attack.mitre.org/techniques/T1059\n[T1059.001]: https://attack.mitre.org/techniques/T1059/001\n',
+        ]);
+        // the text of an existing reference should not be converted again
+        assert.deepStrictEqual(getActions(provider, document, new vscode.Range(0, 20, 0, 20), vscode.CodeActionKind.RefactorRewrite), []);
+    });
+    it('should only offer the fix all action when asked for source fixes', async function () {
+        const document: vscode.TextDocument = await vscode.workspace.openTextDocument({ content: 'T1059', language: 'markdown' });
+        const actions: Array<vscode.CodeAction> = getActions(provider, document, new vscode.Range(0, 0, 0, 0), fixAllKind);
+        assert.ok(actions.every((a: vscode.CodeAction) => { return a.kind !== undefined && fixAllKind.contains(a.kind); }));
+    });
+});
@@ -1,7 +1,9 @@
 import * as assert from 'assert';
 import * as vscode from 'vscode';
+import { isInPlatformScope, setPlatforms } from '../../src/configuration';
+import { generateLink } from '../../src/insertLink';
 import * as search from '../../src/search';
-import { extensionID, ignoreConsoleLogs, resetState } from './testHelpers';
+import { configSection, extensionID, ignoreConsoleLogs, resetState, setTestConfig } from './testHelpers';
 
 
 describe('Command: search', function () {
@@ -61,6 +63,18 @@ describe('Command: search', function () {
         const results: Array<Technique> = search.doSearch(term, exports.getAllTechniques());
         assert.strictEqual(results.length, 0);
     });
+    it('should list techniques outside the platform scope after the rest', async function () {
+        await setTestConfig('platforms', ['Linux'], vscode.workspace.getConfiguration(configSection));
+        setPlatforms();
+        const results: Array<Technique> = search.doSearch('Shell', exports.getAllTechniques());
+        const inScope: Array<boolean> = results.map<boolean>((t: Technique) => { return isInPlatformScope(t); });
+        await setTestConfig('platforms', undefined, vscode.workspace.getConfiguration(configSection));
+        setPlatforms();
+        assert.ok(results.some((t: Technique) => { return t.id === 'T1059.004'; }));
+        // once the first technique outside the scope shows up, no technique in it should follow
+        assert.ok(inScope.indexOf(false) > 0);
+        assert.ok(!inScope.slice(inScope.indexOf(false)).includes(true));
+    });
 });
 
 describe('Command: insertLink', function () {
@@ -70,18 +84,25 @@ describe('Command: insertLink', function () {
     let ext: vscode.Extension<unknown> | undefined;
     const attackObjects: Array<Group|Mitigation|Software|Tactic|Technique> = [
         {
+            dataSources: [],
+            defenseBypassed: [],
             deprecated: false,
             description: {
                 short: 'test description',
                 long: 'longer test description'
             },
+            detection: undefined,
+            domains: ['enterprise-attack'],
             id: 'T1059.001',
             name: 'PowerShell',
             parent: undefined,
+            permissionsRequired: [],
+            platforms: ['Windows'],
             revoked: false,
             subtechnique: true,
             tactics: [],
             url: 'https://attack.mitre.org/techniques/T1059/001',
+            version: '1.0',
         }
     ];
 
@@ -208,4 +229,24 @@ describe('Command: insertLink', function () {
             vscode.commands.executeCommand('vscode-attack.insertLink', editor, {techniques: attackObjects});
         });
     });
+    it('should generate links in the format of the document', function () {
+        const url: string = attackObjects[0].url;
+        assert.strictEqual(generateLink('T1059.001', url, 'restructuredtext'), `\`T1059.001 <${url}>\`__`);
+        assert.strictEqual(generateLink('T1059.001', url, 'asciidoc'), `${url}[T1059.001]`);
+        assert.strictEqual(generateLink('T1059.001', url, 'html'), `<a href="${url}">T1059.001</a>`);
+        assert.strictEqual(generateLink('T1059.001', url, 'org'), `[[${url}][T1059.001]]`);
+        assert.strictEqual(generateLink('T1059.001', url, 'latex'), `\\href{${url}}{T1059.001}`);
+        assert.strictEqual(generateLink('T1059.001', url, 'jira'), `[T1059.001|${url}]`);
+        // formats the extension doesn't know just get the URL
+        assert.strictEqual(generateLink('T1059.001', url, 'plaintext'), url);
+    });
+    it('should use the link template configured for the language', async function () {
+        const url: string = attackObjects[0].url;
+        await setTestConfig('linkFormats', { markdown: '<{url}> ({text})', plaintext: '{text}: {url}' }, vscode.workspace.getConfiguration(configSection));
+        const markdown: string|undefined = generateLink('T1059.001', url, 'markdown');
+        const plaintext: string|undefined = generateLink('T1059.001', url, 'plaintext');
+        await setTestConfig('linkFormats', undefined, vscode.workspace.getConfiguration(configSection));
+        assert.strictEqual(markdown, `<${url}> (T1059.001)`);
+        assert.strictEqual(plaintext, `T1059.001: ${url}`);
+    });
 });
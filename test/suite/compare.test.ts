@@ -0,0 +1,80 @@
+import * as assert from 'assert';
+import { StringDecoder } from 'string_decoder';
+import * as vscode from 'vscode';
+import { VersionChange, buildReport, diffAttackMaps } from '../../src/compare';
+import * as helpers from '../../src/helpers';
+import { extensionID, ignoreConsoleLogs, resetState } from './testHelpers';
+
+/*
+    Find an object in an ATT&CK map by its ATT&CK ID
+*/
+function findObject(attackMap: AttackMap, id: string): AttackObject {
+    return attackMap.objects.find((obj: AttackObject) => { return helpers.getAttackReference(obj)?.external_id === id; }) as AttackObject;
+}
+
+describe('Command: compareVersions', function () {
+    const compareVersionsCommand = 'vscode-attack.compareVersions';
+    const attack7Uri: vscode.Uri = vscode.Uri.file(`${__dirname}/../../../test/files/attack7.json`);
+    let attackMap: AttackMap;
+    let ext: vscode.Extension<unknown> | undefined;
+
+    before(async function () {
+        ext = vscode.extensions.getExtension(extensionID);
+        await ext?.activate();
+        const contents: Uint8Array = await vscode.workspace.fs.readFile(attack7Uri);
+        attackMap = JSON.parse(new StringDecoder('utf8').end(Buffer.from(contents))) as AttackMap;
+    });
+    beforeEach(ignoreConsoleLogs);
+    afterEach(resetState);
+    it('compare versions command should exist', async function () {
+        const commands: Array<string> = await vscode.commands.getCommands(true);
+        assert.ok(commands.includes(compareVersionsCommand), `No '${compareVersionsCommand}' exists.`);
+    });
+    it('should find no changes between identical versions', function () {
+        assert.deepStrictEqual(diffAttackMaps(attackMap, attackMap), []);
+    });
+    it('should find added, renamed, moved and changed techniques', function () {
+        const newMap: AttackMap = JSON.parse(JSON.stringify(attackMap)) as AttackMap;
+        const oldMap: AttackMap = { ...attackMap, objects: attackMap.objects.filter((obj: AttackObject) => { return obj !== findObject(attackMap, 'T1059.001'); }) };
+        findObject(newMap, 'T1059').name = 'Command Interpreter';
+        findObject(newMap, 'T1059').kill_chain_phases.push({ kill_chain_name: 'mitre-attack', phase_name: 'persistence' });
+        findObject(newMap, 'T1003').description += ' Updated.';
+        const changes: Array<VersionChange> = diffAttackMaps(oldMap, newMap);
+        const summary: Array<string> = changes.map<string>((c: VersionChange) => { return `${c.kind} ${c.id}`; });
+        assert.deepStrictEqual(summary, ['description T1003', 'renamed T1059', 'moved T1059', 'added T1059.001']);
+        assert.strictEqual(changes[1].details, `Previously 'Command and Scripting Interpreter'`);
+        assert.strictEqual(changes[2].details, 'Added to persistence');
+    });
+    it('should report revoked objects with their replacement', function () {
+        const newMap: AttackMap = JSON.parse(JSON.stringify(attackMap)) as AttackMap;
+        const revoked: AttackObject = findObject(newMap, 'T1086');
+        revoked.revoked = false;
+        const oldMap: AttackMap = JSON.parse(JSON.stringify(newMap)) as AttackMap;
+        revoked.revoked = true;
+        findObject(newMap, 'G0007').x_mitre_deprecated = true;
+        const changes: Array<VersionChange> = diffAttackMaps(oldMap, newMap);
+        assert.deepStrictEqual(changes.map<string>((c: VersionChange) => { return `${c.category} ${c.kind} ${c.id}`; }), ['Techniques revoked T1086', 'Groups deprecated G0007']);
+        assert.strictEqual(changes[0].details, 'Replaced by T1059.001');
+    });
+    it('should find sub-techniques that moved to another parent technique', function () {
+        const newMap: AttackMap = JSON.parse(JSON.stringify(attackMap)) as AttackMap;
+        const subtechnique: AttackObject = findObject(newMap, 'T1059.001');
+        const relationship: AttackObject = newMap.objects.find((obj: AttackObject) => { return obj.relationship_type === 'subtechnique-of' && obj.source_ref === subtechnique.id; }) as AttackObject;
+        relationship.target_ref = findObject(newMap, 'T1003').id;
+        const changes: Array<VersionChange> = diffAttackMaps(attackMap, newMap);
+        assert.deepStrictEqual(changes.map<string>((c: VersionChange) => { return `${c.kind} ${c.id}`; }), ['reparented T1059.001']);
+        assert.strictEqual(changes[0].details, 'Previously under T1059, now under T1003');
+    });
+    it('should build a Markdown report grouped by category and change', function () {
+        const changes: Array<VersionChange> = [
+            { category: 'Techniques', details: 'Replaced by T1059.001', id: 'T1086', kind: 'revoked', name: 'PowerShell' },
+            { category: 'Groups', details: '', id: 'G0099', kind: 'added', name: 'New Group' },
+        ];
+        const report: string = buildReport('7.2', '8.0', changes);
+        assert.ok(report.startsWith('# ATT&CK v7.2 to v8.0\n'));
+        assert.ok(report.indexOf('## Techniques') < report.indexOf('## Groups'));
+        assert.ok(report.includes('### Revoked (1)\n\n- **T1086** PowerShell - Replaced by T1059.001\n'));
+        assert.ok(report.includes('### Added (1)\n\n- **G0099** New Group\n'));
+        assert.strictEqual(buildReport('7.2', '7.2', []), '# ATT&CK v7.2 to v7.2\n\nNo changes found.\n');
+    });
+});
@@ -0,0 +1,68 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { DataSourceHoverProvider, init } from '../../src/dataSources';
+import { dataSourceRegex, indexBy } from '../../src/helpers';
+import { extensionID, ignoreConsoleLogs, resetState } from './testHelpers';
+
+// a data source with two of its data components, in the order ATT&CK publishes them
+const testData: AttackMap = {
+    type: 'bundle',
+    id: 'bundle--test',
+    spec_version: '2.0',
+    objects: [
+        {
+            description: 'Information about instances of computer programs that are being executed.\nMore details.',
+            external_references: [{ source_name: 'mitre-attack', external_id: 'DS0009', url: 'https://attack.mitre.org/datasources/DS0009' }],
+            id: 'x-mitre-data-source--process',
+            name: 'Process',
+            type: 'x-mitre-data-source',
+        } as AttackObject,
+        {
+            description: 'The initial construction of an executable managed by the OS.',
+            id: 'x-mitre-data-component--creation',
+            name: 'Process Creation',
+            type: 'x-mitre-data-component',
+            x_mitre_data_source_ref: 'x-mitre-data-source--process',
+        } as AttackObject,
+        {
+            description: 'Changes made to a process.',
+            id: 'x-mitre-data-component--modification',
+            name: 'OS API Execution',
+            type: 'x-mitre-data-component',
+            x_mitre_data_source_ref: 'x-mitre-data-source--process',
+        } as AttackObject,
+    ],
+};
+
+describe('Data Sources', function () {
+    let dataSources: Array<AttackDataSource>;
+
+    before(async function () {
+        const ext: vscode.Extension<unknown> | undefined = vscode.extensions.getExtension(extensionID);
+        await ext?.activate();
+        dataSources = await init(testData);
+    });
+    beforeEach(ignoreConsoleLogs);
+    afterEach(resetState);
+    it('regex should match data source ID', function () {
+        assert.ok(dataSourceRegex.test('DS0009'));
+    });
+    it('should parse data sources along with their data components', function () {
+        assert.strictEqual(dataSources.length, 1);
+        assert.strictEqual(dataSources[0].id, 'DS0009');
+        assert.strictEqual(dataSources[0].description.short, 'Information about instances of computer programs that are being executed.');
+        assert.deepStrictEqual(dataSources[0].components.map<string>((c: DataComponent) => { return c.name; }), ['OS API Execution', 'Process Creation']);
+        assert.strictEqual(dataSources[0].components[1].id, 'x-mitre-data-component--creation');
+    });
+    it('should provide a hover listing the data components of a data source', async function () {
+        const hovers: DataSourceHoverProvider = new DataSourceHoverProvider();
+        hovers.dataSources = dataSources;
+        hovers.dataSourcesById = indexBy(dataSources, (d: AttackDataSource) => { return [d.id]; });
+        const document: vscode.TextDocument = await vscode.workspace.openTextDocument({ content: 'DS0009', language: 'markdown' });
+        const hover = await hovers.provideHover(document, new vscode.Position(0, 2), new vscode.CancellationTokenSource().token);
+        assert.ok(hover instanceof vscode.Hover);
+        const contents: vscode.MarkdownString = hover.contents[0] as vscode.MarkdownString;
+        assert.ok(contents.value.includes('[Source Link](https://attack.mitre.org/datasources/DS0009)'));
+        assert.ok(contents.value.includes('- **Process Creation**: detects '));
+    });
+});
@@ -0,0 +1,62 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { setPlatforms } from '../../src/configuration';
+import { DiagnosticContext, buildDiagnosticContext, findDiagnostics } from '../../src/diagnostics';
+import { ATTACKExtensionAPI, configSection, extensionID, ignoreConsoleLogs, resetState, setTestConfig } from './testHelpers';
+
+/*
+    Summarize the diagnostics found in some Markdown text as 'code text' strings
+*/
+async function summarize(content: string, context: DiagnosticContext): Promise<Array<string>> {
+    const document: vscode.TextDocument = await vscode.workspace.openTextDocument({ content: content, language: 'markdown' });
+    return findDiagnostics(document, context).map<string>((d: vscode.Diagnostic) => { return `${d.code} ${document.getText(d.range)}`; });
+}
+
+describe('Diagnostics', function () {
+    let exports: ATTACKExtensionAPI;
+
+    before(async function () {
+        const ext: vscode.Extension<unknown> | undefined = vscode.extensions.getExtension(extensionID);
+        await ext?.activate();
+        exports = ext?.exports as ATTACKExtensionAPI;
+    });
+    beforeEach(ignoreConsoleLogs);
+    afterEach(async function () {
+        await setTestConfig('diagnostics', undefined, vscode.workspace.getConfiguration(configSection));
+        await setTestConfig('platforms', undefined, vscode.workspace.getConfiguration(configSection));
+        setPlatforms();
+        resetState();
+    });
+    it('should report revoked, unknown and slash notation technique IDs', async function () {
+        const context: DiagnosticContext = buildDiagnosticContext(exports.getAllTechniques(), exports.getTactics(), [], [], []);
+        const summary: Array<string> = await summarize('T1086 and T1509\nT1059/001, T1059.001 and TA0002', context);
+        assert.deepStrictEqual(summary, ['revoked T1086', 'unknown T1509', 'slashNotation T1059/001']);
+    });
+    it('should suggest the replacement of revoked techniques', async function () {
+        const context: DiagnosticContext = buildDiagnosticContext(exports.getAllTechniques(), exports.getTactics(), [], [], []);
+        const document: vscode.TextDocument = await vscode.workspace.openTextDocument({ content: 'T1086', language: 'markdown' });
+        const diagnostics: Array<vscode.Diagnostic> = findDiagnostics(document, context);
+        assert.strictEqual(diagnostics[0].severity, vscode.DiagnosticSeverity.Warning);
+        assert.ok(diagnostics[0].message.includes('Use T1059.001 (PowerShell) instead'), diagnostics[0].message);
+    });
+    it('should ignore parts of longer IDs and ATT&CK URLs', async function () {
+        const context: DiagnosticContext = buildDiagnosticContext(exports.getAllTechniques(), exports.getTactics(), [], [], []);
+        const summary: Array<string> = await summarize('RC-T1509, T15090, https://attack.mitre.org/techniques/T1086/', context);
+        assert.deepStrictEqual(summary, []);
+    });
+    it('should use the configured severities', async function () {
+        await setTestConfig('diagnostics', { slashNotation: 'off', unknown: 'hint' }, vscode.workspace.getConfiguration(configSection));
+        const context: DiagnosticContext = buildDiagnosticContext(exports.getAllTechniques(), exports.getTactics(), [], [], []);
+        const document: vscode.TextDocument = await vscode.workspace.openTextDocument({ content: 'T1059/001 T1509', language: 'markdown' });
+        const diagnostics: Array<vscode.Diagnostic> = findDiagnostics(document, context);
+        assert.strictEqual(diagnostics.length, 1);
+        assert.strictEqual(diagnostics[0].severity, vscode.DiagnosticSeverity.Hint);
+    });
+    it('should report techniques outside the platform scope', async function () {
+        await setTestConfig('platforms', ['Linux'], vscode.workspace.getConfiguration(configSection));
+        setPlatforms();
+        const context: DiagnosticContext = buildDiagnosticContext(exports.getAllTechniques(), exports.getTactics(), [], [], []);
+        const summary: Array<string> = await summarize('T1059.001 and T1059.004', context);
+        assert.deepStrictEqual(summary, ['outOfScope T1059.001']);
+    });
+});
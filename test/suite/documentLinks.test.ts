@@ -0,0 +1,44 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { buildDiagnosticContext } from '../../src/diagnostics';
+import { AttackDocumentLinkProvider, getVersionedUrl } from '../../src/documentLinks';
+import { ATTACKExtensionAPI, extensionID, ignoreConsoleLogs, resetState } from './testHelpers';
+
+describe('Document Links', function () {
+    let provider: AttackDocumentLinkProvider;
+
+    before(async function () {
+        const ext: vscode.Extension<unknown> | undefined = vscode.extensions.getExtension(extensionID);
+        await ext?.activate();
+        const exports: ATTACKExtensionAPI = ext?.exports as ATTACKExtensionAPI;
+        provider = new AttackDocumentLinkProvider();
+        provider.context = buildDiagnosticContext(exports.getAllTechniques(), exports.getTactics(), [], [], []);
+        provider.version = '8.2';
+    });
+    beforeEach(ignoreConsoleLogs);
+    afterEach(function () {
+        provider.target = 'website';
+        resetState();
+    });
+    it('should pin ATT&CK site URLs to a version', function () {
+        assert.strictEqual(getVersionedUrl('https://attack.mitre.org/techniques/T1059/001', '8.2'), 'https://attack.mitre.org/versions/v8/techniques/T1059/001');
+        assert.strictEqual(getVersionedUrl('https://attack.mitre.org/techniques/T1059/001', 'local'), 'https://attack.mitre.org/techniques/T1059/001');
+        assert.strictEqual(getVersionedUrl('https://example.com/techniques/RC-T0001', '8.2'), 'https://example.com/techniques/RC-T0001');
+    });
+    it('should link every known ID to the ATT&CK website', async function () {
+        const document: vscode.TextDocument = await vscode.workspace.openTextDocument({ content: 'T1059.001 in TA0002, but not T1509', language: 'markdown' });
+        const links: Array<vscode.DocumentLink> = provider.provideDocumentLinks(document, new vscode.CancellationTokenSource().token);
+        assert.deepStrictEqual(links.map<string>((link: vscode.DocumentLink) => { return document.getText(link.range); }), ['T1059.001', 'TA0002']);
+        assert.strictEqual(links[0].target?.toString(true), 'https://attack.mitre.org/techniques/T1059/001');
+    });
+    it('should link to the version of the loaded data or the technique panel when configured', async function () {
+        const document: vscode.TextDocument = await vscode.workspace.openTextDocument({ content: 'T1059.001', language: 'markdown' });
+        provider.target = 'version';
+        let links: Array<vscode.DocumentLink> = provider.provideDocumentLinks(document, new vscode.CancellationTokenSource().token);
+        assert.strictEqual(links[0].target?.toString(true), 'https://attack.mitre.org/versions/v8/techniques/T1059/001');
+        provider.target = 'panel';
+        links = provider.provideDocumentLinks(document, new vscode.CancellationTokenSource().token);
+        assert.strictEqual(links[0].target?.scheme, 'command');
+        assert.strictEqual(links[0].target?.path, 'vscode-attack.showTechnique');
+    });
+});
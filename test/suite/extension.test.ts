@@ -3,7 +3,9 @@ import * as os from 'os';
 import { StringDecoder } from 'string_decoder';
 import * as vscode from 'vscode';
 import * as extension from '../../src/extension';
+import { init as initGroups } from '../../src/groups';
 import * as helpers from '../../src/helpers';
+import { init as initTechniques } from '../../src/techniques';
 import { configSection, consoleLogger, extensionID, fileArtifacts, ignoreConsoleLogs, resetState, setTestConfig } from './testHelpers';
 
 
@@ -26,6 +28,25 @@ describe('Extension', function () {
         // ... and assert that the file was not modified
         assert.strictEqual(cachedFileStats.mtime, newFileStats.mtime, `${new Date(cachedFileStats.mtime).toUTCString()} !== ${new Date(newFileStats.mtime).toUTCString()}`);
     });
+    it('should not check for a new version when loading offline', async function () {
+        const tmpDir: vscode.Uri = vscode.Uri.joinPath(vscode.Uri.file(os.tmpdir()), 'offlineTest');
+        const tmpPath: vscode.Uri = vscode.Uri.joinPath(tmpDir, 'enterprise-attack.7.2.json');
+        const oldMapUri: vscode.Uri = vscode.Uri.file(`${__dirname}/../../../test/files/attack7.json`);
+        await vscode.workspace.fs.createDirectory(tmpDir);
+        fileArtifacts.push(tmpDir);
+        await vscode.workspace.fs.copy(oldMapUri, tmpPath, {overwrite: true});
+        // the outdated cached version is served as is, and nothing new is downloaded
+        const attackMap: AttackMap | undefined = await extension.cacheData(tmpDir, true);
+        assert.ok(attackMap !== undefined);
+        assert.deepStrictEqual(await helpers.getCachedVersions(tmpDir), ['7.2']);
+        assert.strictEqual(extension.currentDataSource?.kind, 'cache');
+    });
+    it('refresh data command should exist', async function () {
+        const ext: vscode.Extension<unknown> | undefined = vscode.extensions.getExtension(extensionID);
+        await ext?.activate();
+        const commands: Array<string> = await vscode.commands.getCommands(true);
+        assert.ok(commands.includes('vscode-attack.refreshData'), 'No \'vscode-attack.refreshData\' exists.');
+    });
     it('should download a new version of the ATT&CK map if none is cached', async function () {
         const tmpDir: vscode.Uri = vscode.Uri.file(os.tmpdir());
         // collect the current timestamp
@@ -60,6 +81,42 @@ describe('Extension', function () {
     it.skip('should use a cached version of the ATT&CK map if the online version could not be downloaded', async function () {
         // TODO
     });
+    it('should load the ATT&CK map from a local data source when one is configured', async function () {
+        const tmpDir: vscode.Uri = vscode.Uri.joinPath(vscode.Uri.file(os.tmpdir()), 'localDataSourceTest1');
+        const localMapUri: vscode.Uri = vscode.Uri.file(`${__dirname}/../../../test/files/attack7.json`);
+        const modifiedConfig: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration(configSection);
+        fileArtifacts.push(tmpDir);
+        await setTestConfig('dataSource', localMapUri.fsPath, modifiedConfig);
+        try {
+            const attackMap: AttackMap | undefined = await extension.cacheData(tmpDir);
+            assert.ok(attackMap !== undefined);
+            assert.strictEqual(extension.currentDataSource?.kind, 'local');
+            assert.strictEqual(extension.currentDataSource?.location, localMapUri.fsPath);
+            // nothing should have been downloaded into the versioned cache
+            assert.strictEqual(await helpers.getLatestCacheVersion(tmpDir), undefined);
+        } finally {
+            await setTestConfig('dataSource', undefined, modifiedConfig);
+        }
+    });
+    it('should fall back to the cached copy of a local data source that can no longer be read', async function () {
+        const tmpDir: vscode.Uri = vscode.Uri.joinPath(vscode.Uri.file(os.tmpdir()), 'localDataSourceTest2');
+        const localMapUri: vscode.Uri = vscode.Uri.file(`${__dirname}/../../../test/files/attack7.json`);
+        const invalidMapUri: vscode.Uri = vscode.Uri.file(`${__dirname}/../../../test/files/test.md`);
+        const modifiedConfig: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration(configSection);
+        fileArtifacts.push(tmpDir);
+        try {
+            // cache a good copy first
+            await setTestConfig('dataSource', localMapUri.fsPath, modifiedConfig);
+            await extension.cacheData(tmpDir);
+            // ... then point the setting at something that is not a STIX bundle
+            await setTestConfig('dataSource', invalidMapUri.fsPath, modifiedConfig);
+            const attackMap: AttackMap | undefined = await extension.cacheData(tmpDir);
+            assert.ok(attackMap !== undefined);
+            assert.strictEqual(extension.currentDataSource?.kind, 'cache');
+        } finally {
+            await setTestConfig('dataSource', undefined, modifiedConfig);
+        }
+    });
     it.skip('toggleStatusBar: should display to the user when a matching file is active', async function () {
         // TODO
     });
@@ -129,6 +186,114 @@ describe('Extension', function () {
         const result: vscode.Uri|undefined = await helpers.getLatestCacheVersion(tmpDir);
         assert.strictEqual(result, undefined);
     });
+    it('isAttackMap: should accept a STIX bundle containing techniques', async function () {
+        const fileUri: vscode.Uri = vscode.Uri.file(`${__dirname}/../../../test/files/attack7.json`);
+        const contents: Uint8Array = await vscode.workspace.fs.readFile(fileUri);
+        assert.strictEqual(helpers.isAttackMap(JSON.parse(new StringDecoder('utf8').end(Buffer.from(contents)))), true);
+    });
+    it('isAttackMap: should reject data that is not a STIX bundle', async function () {
+        assert.strictEqual(helpers.isAttackMap({ message: 'Not Found' }), false);
+        assert.strictEqual(helpers.isAttackMap({ type: 'bundle', objects: [] }), false);
+    });
+    it('validateAttackMap: should accept a complete ATT&CK release', async function () {
+        const fileUri: vscode.Uri = vscode.Uri.file(`${__dirname}/../../../test/files/attack7.json`);
+        const contents: Uint8Array = await vscode.workspace.fs.readFile(fileUri);
+        assert.strictEqual(helpers.validateAttackMap(JSON.parse(new StringDecoder('utf8').end(Buffer.from(contents)))), undefined);
+    });
+    it('validateAttackMap: should reject error pages, bundles without a matrix and truncated bundles', async function () {
+        const fileUri: vscode.Uri = vscode.Uri.file(`${__dirname}/../../../test/files/attack7.json`);
+        const contents: Uint8Array = await vscode.workspace.fs.readFile(fileUri);
+        const attackMap: AttackMap = JSON.parse(new StringDecoder('utf8').end(Buffer.from(contents))) as AttackMap;
+        const withoutMatrix: AttackMap = { ...attackMap, objects: attackMap.objects.filter((obj: AttackObject) => { return obj.type !== 'x-mitre-matrix'; }) };
+        const truncated: AttackMap = { ...attackMap, objects: attackMap.objects.filter((obj: AttackObject) => { return obj.type !== 'attack-pattern'; }).concat(attackMap.objects.filter((obj: AttackObject) => { return obj.type === 'attack-pattern'; }).slice(0, 10)) };
+        assert.strictEqual(helpers.validateAttackMap({ message: 'Not Found' }), 'not a STIX bundle');
+        assert.strictEqual(helpers.validateAttackMap(withoutMatrix), 'no x-mitre-matrix object');
+        assert.ok(helpers.validateAttackMap(truncated)?.startsWith('only 10 attack-pattern objects'));
+    });
+    it('readLatestCachedAttackMap: should quarantine a corrupt cache file and fall back to the previous version', async function () {
+        const tmpDir: vscode.Uri = vscode.Uri.joinPath(vscode.Uri.file(os.tmpdir()), 'quarantineTest1');
+        const goodPath: vscode.Uri = vscode.Uri.joinPath(tmpDir, 'enterprise-attack.7.2.json');
+        const corruptPath: vscode.Uri = vscode.Uri.joinPath(tmpDir, 'enterprise-attack.8.0.json');
+        await vscode.workspace.fs.createDirectory(tmpDir);
+        fileArtifacts.push(tmpDir);
+        await vscode.workspace.fs.copy(vscode.Uri.file(`${__dirname}/../../../test/files/attack7.json`), goodPath, {overwrite: true});
+        // simulate a download that was cut off halfway
+        await vscode.workspace.fs.writeFile(corruptPath, Buffer.from('{"type": "bundle", "objects": [{"type": "attack-pat', 'utf-8'));
+        const cached = await helpers.readLatestCachedAttackMap(tmpDir);
+        assert.strictEqual(cached?.version, '7.2');
+        assert.deepStrictEqual(await helpers.getCachedVersions(tmpDir), ['7.2']);
+        const quarantined: [string, vscode.FileType][] = await vscode.workspace.fs.readDirectory(vscode.Uri.joinPath(tmpDir, 'quarantine'));
+        assert.strictEqual(quarantined.length, 1);
+        assert.ok(quarantined[0][0].endsWith('enterprise-attack.8.0.json'));
+    });
+    it('writeFileAtomic: should not leave a temporary file behind', async function () {
+        const tmpDir: vscode.Uri = vscode.Uri.joinPath(vscode.Uri.file(os.tmpdir()), 'writeFileAtomicTest1');
+        const filePath: vscode.Uri = vscode.Uri.joinPath(tmpDir, 'enterprise-attack.9.0.json');
+        await vscode.workspace.fs.createDirectory(tmpDir);
+        fileArtifacts.push(tmpDir);
+        await helpers.writeFileAtomic(filePath, Buffer.from('first', 'utf-8'));
+        await helpers.writeFileAtomic(filePath, Buffer.from('second', 'utf-8'));
+        const entries: [string, vscode.FileType][] = await vscode.workspace.fs.readDirectory(tmpDir);
+        assert.deepStrictEqual(entries.map((entry: [string, vscode.FileType]) => { return entry[0]; }), ['enterprise-attack.9.0.json']);
+        assert.strictEqual(new StringDecoder('utf8').end(Buffer.from(await vscode.workspace.fs.readFile(filePath))), 'second');
+    });
+    it('resolveDataSourcePath: should use absolute paths as-is', async function () {
+        const expectedUri: vscode.Uri = vscode.Uri.file(`${__dirname}/../../../test/files/attack7.json`);
+        assert.strictEqual(helpers.resolveDataSourcePath(expectedUri.fsPath)?.fsPath, expectedUri.fsPath);
+    });
+    it('getLatestCacheVersion: should compare versions numerically', async function () {
+        const tmpDir: vscode.Uri = vscode.Uri.joinPath(vscode.Uri.file(os.tmpdir()), 'getLatestCacheVersionTest4');
+        fileArtifacts.push(tmpDir);
+        const fileUri: vscode.Uri = vscode.Uri.file(`${__dirname}/../../../test/files/attack7.json`);
+        await vscode.workspace.fs.copy(fileUri, vscode.Uri.joinPath(tmpDir, 'enterprise-attack.9.0.json'), {overwrite: true});
+        const expectedPath: vscode.Uri = vscode.Uri.joinPath(tmpDir, 'enterprise-attack.10.1.json');
+        await vscode.workspace.fs.copy(fileUri, expectedPath, {overwrite: true});
+        const result: vscode.Uri|undefined = await helpers.getLatestCacheVersion(tmpDir);
+        assert.strictEqual(result?.fsPath, expectedPath.fsPath);
+    });
+    it('getCachedVersions: should return every cached version, oldest first', async function () {
+        const tmpDir: vscode.Uri = vscode.Uri.joinPath(vscode.Uri.file(os.tmpdir()), 'getCachedVersionsTest1');
+        fileArtifacts.push(tmpDir);
+        const fileUri: vscode.Uri = vscode.Uri.file(`${__dirname}/../../../test/files/attack7.json`);
+        for (const version of ['10.0', '7.2', '8.0']) {
+            await vscode.workspace.fs.copy(fileUri, vscode.Uri.joinPath(tmpDir, `enterprise-attack.${version}.json`), {overwrite: true});
+        }
+        assert.deepStrictEqual(await helpers.getCachedVersions(tmpDir), ['7.2', '8.0', '10.0']);
+    });
+    it('getCachedVersions: should only return versions of the requested domain', async function () {
+        const tmpDir: vscode.Uri = vscode.Uri.joinPath(vscode.Uri.file(os.tmpdir()), 'getCachedVersionsTest2');
+        fileArtifacts.push(tmpDir);
+        const fileUri: vscode.Uri = vscode.Uri.file(`${__dirname}/../../../test/files/attack7.json`);
+        await vscode.workspace.fs.copy(fileUri, vscode.Uri.joinPath(tmpDir, 'enterprise-attack.8.0.json'), {overwrite: true});
+        await vscode.workspace.fs.copy(fileUri, vscode.Uri.joinPath(tmpDir, 'ics-attack.9.0.json'), {overwrite: true});
+        assert.deepStrictEqual(await helpers.getCachedVersions(tmpDir), ['8.0']);
+        assert.deepStrictEqual(await helpers.getCachedVersions(tmpDir, 'ics-attack'), ['9.0']);
+    });
+    it('extractAttackVersion: should parse the version of any domain', async function () {
+        assert.strictEqual(helpers.extractAttackVersion(vscode.Uri.file('/tmp/enterprise-attack.8.0.json')), '8.0');
+        assert.strictEqual(helpers.extractAttackVersion(vscode.Uri.file('/tmp/mobile-attack.10.1.json')), '10.1');
+        assert.strictEqual(helpers.extractAttackVersion(vscode.Uri.file('/tmp/ics-attack.9.0.json')), '9.0');
+    });
+    it('mergeAttackMaps: should keep objects shared between domains once', async function () {
+        const shared = { id: 'malware--1', type: 'malware', name: 'Shared' } as AttackObject;
+        const enterprise: AttackMap = { type: 'bundle', id: 'bundle--1', spec_version: '2.0', objects: [shared, { id: 'attack-pattern--1', type: 'attack-pattern' } as AttackObject] };
+        const mobile: AttackMap = { type: 'bundle', id: 'bundle--2', spec_version: '2.0', objects: [shared, { id: 'attack-pattern--2', type: 'attack-pattern' } as AttackObject] };
+        const merged: AttackMap = helpers.mergeAttackMaps(new Map<string, AttackMap>([['enterprise-attack', enterprise], ['mobile-attack', mobile]]));
+        assert.strictEqual(merged.objects.length, 3);
+        const mergedShared: AttackObject|undefined = merged.objects.find((obj: AttackObject) => { return obj.id === shared.id; });
+        assert.deepStrictEqual(mergedShared?.x_mitre_domains, ['enterprise-attack', 'mobile-attack']);
+        const mobileOnly: AttackObject|undefined = merged.objects.find((obj: AttackObject) => { return obj.id === 'attack-pattern--2'; });
+        assert.deepStrictEqual(mobileOnly?.x_mitre_domains, ['mobile-attack']);
+    });
+    it('formatDomains: should display human-readable domain names', async function () {
+        assert.strictEqual(helpers.formatDomains(['enterprise-attack', 'ics-attack']), 'Enterprise, ICS');
+    });
+    it('compareVersions: should order versions numerically', async function () {
+        assert.ok(helpers.compareVersions('9.0', '10.0') < 0);
+        assert.ok(helpers.compareVersions('10.1', '10.0') > 0);
+        assert.strictEqual(helpers.compareVersions('8.0', '8'), 0);
+        assert.strictEqual(helpers.getLatestVersion(['7.2', '10.0', '9.0']), '10.0');
+    });
     it('getModifiedTime: should return the modified time of an ATT&CK mapping', async function () {
         const fileUri: vscode.Uri = vscode.Uri.file(`${__dirname}/../../../test/files/attack7.json`);
         const expectedModifiedTime = '2020-07-02T14:18:03.651Z';
@@ -300,3 +465,55 @@ describe('Workspace Trust', function () {
         });
     });
 });
+
+describe('Custom Bundles', function () {
+    const customUri: vscode.Uri = vscode.Uri.file(`${__dirname}/../../../test/files/custom.json`);
+
+    beforeEach(ignoreConsoleLogs);
+    afterEach(function () {
+        helpers.setIdPatterns({});
+        resetState();
+    });
+    it('readAttackMap: should accept custom bundles without techniques only when asked to', async function () {
+        const groupsOnly: AttackMap|undefined = await helpers.readAttackMap(customUri, false);
+        assert.ok(groupsOnly !== undefined);
+        const invalidUri: vscode.Uri = vscode.Uri.file(`${__dirname}/../../../test/files/test.md`);
+        assert.strictEqual(await helpers.readAttackMap(invalidUri, false), undefined);
+    });
+    it('getAttackReference: should prefer the mitre-attack reference', async function () {
+        const item = {
+            external_references: [
+                { source_name: 'capec', external_id: 'CAPEC-1', url: 'https://capec.mitre.org/data/definitions/1.html' },
+                { source_name: 'mitre-attack', external_id: 'T1059', url: 'https://attack.mitre.org/techniques/T1059' },
+            ]
+        } as AttackObject;
+        assert.strictEqual(helpers.getAttackReference(item)?.external_id, 'T1059');
+    });
+    it('getAttackReference: should fall back to the first reference with an ID for custom objects', async function () {
+        const customMap: AttackMap|undefined = await helpers.readAttackMap(customUri, false);
+        assert.ok(customMap !== undefined);
+        assert.strictEqual(helpers.getAttackReference(customMap.objects[0])?.external_id, 'RC-T0001');
+    });
+    it('setIdPatterns: should recognize custom IDs in addition to the official ones', async function () {
+        helpers.setIdPatterns({ techniques: 'RC-T\\d{4}(\\.\\d{3})?', groups: 'RC-G\\d{4}' });
+        assert.strictEqual('see RC-T0001.001 here'.match(helpers.techniqueRegex)?.[0], 'RC-T0001.001');
+        assert.strictEqual('see T1059.001 here'.match(helpers.techniqueRegex)?.[0], 'T1059.001');
+        assert.strictEqual('see RC-G0001 here'.match(helpers.groupRegex)?.[0], 'RC-G0001');
+    });
+    it('setIdPatterns: should ignore invalid patterns', async function () {
+        helpers.setIdPatterns({ techniques: '(' });
+        assert.strictEqual('T1059'.match(helpers.techniqueRegex)?.[0], 'T1059');
+    });
+    it('should parse custom objects with the regular parsers', async function () {
+        const customMap: AttackMap|undefined = await helpers.readAttackMap(customUri, false);
+        assert.ok(customMap !== undefined);
+        const techniques: Array<Technique> = await initTechniques(customMap);
+        assert.strictEqual(techniques.length, 1);
+        assert.strictEqual(techniques[0].id, 'RC-T0001');
+        assert.strictEqual(techniques[0].url, 'https://example.com/techniques/RC-T0001');
+        assert.deepStrictEqual(techniques[0].tactics, ['execution']);
+        const groups: Array<Group> = await initGroups(customMap);
+        assert.strictEqual(groups.length, 1);
+        assert.strictEqual(groups[0].id, 'RC-G0001');
+    });
+});
@@ -0,0 +1,45 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { VersionChange } from '../../src/compare';
+import { ImpactedReference, buildImpactReport, findImpactedReferences } from '../../src/impact';
+import { extensionID, ignoreConsoleLogs, resetState } from './testHelpers';
+
+describe('Command: releaseImpact', function () {
+    const releaseImpactCommand = 'vscode-attack.releaseImpact';
+    const fileUri: vscode.Uri = vscode.Uri.file(`${__dirname}/../../../test/files/test.md`);
+    const revoked: VersionChange = { category: 'Techniques', details: 'Replaced by T1059.001', id: 'T1086', kind: 'revoked', name: 'PowerShell' };
+    const renamed: VersionChange = { category: 'Groups', details: `Previously 'APT28'`, id: 'G0007', kind: 'renamed', name: 'Fancy Bear' };
+    const changes: Map<string, Array<VersionChange>> = new Map<string, Array<VersionChange>>([['T1086', [revoked]], ['G0007', [renamed]]]);
+    let ext: vscode.Extension<unknown> | undefined;
+
+    before(async function () {
+        ext = vscode.extensions.getExtension(extensionID);
+        await ext?.activate();
+    });
+    beforeEach(ignoreConsoleLogs);
+    afterEach(resetState);
+    it('release impact command should exist', async function () {
+        const commands: Array<string> = await vscode.commands.getCommands(true);
+        assert.ok(commands.includes(releaseImpactCommand), `No '${releaseImpactCommand}' exists.`);
+    });
+    it('should find every line that references a changed object', function () {
+        const text = 'Detects T1086 and T1059\nNothing here\nAPT28 (G0007) uses T1086 too\r\nT1086 T1086';
+        const references: Array<ImpactedReference> = findImpactedReferences(text, fileUri, changes);
+        assert.deepStrictEqual(references.map<string>((r: ImpactedReference) => { return `${r.line} ${r.change.id}`; }), ['0 T1086', '2 G0007', '2 T1086', '3 T1086']);
+    });
+    it('should not mistake sub-techniques for their parent', function () {
+        const parentChanges: Map<string, Array<VersionChange>> = new Map<string, Array<VersionChange>>([['T1059', [{ ...revoked, id: 'T1059' }]]]);
+        assert.strictEqual(findImpactedReferences('T1059.001 and T1059/001', fileUri, parentChanges).length, 0);
+        assert.strictEqual(findImpactedReferences('T1086/001', fileUri, new Map<string, Array<VersionChange>>([['T1086.001', [revoked]]])).length, 1);
+    });
+    it('should not mistake parts of custom IDs or longer numbers for changed objects', function () {
+        assert.strictEqual(findImpactedReferences('RC-T1086, XT10860 and T10860', fileUri, changes).length, 0);
+    });
+    it('should link every affected line in the report', function () {
+        const report: string = buildImpactReport('7.2', '8.0', [{ change: revoked, line: 4, uri: fileUri }]);
+        const path: string = vscode.workspace.asRelativePath(fileUri, false);
+        assert.ok(report.includes('1 references to changed objects in 1 files.'));
+        assert.ok(report.includes(`- [Line 5](${encodeURI(path)}#L5): **T1086** PowerShell was revoked (Replaced by T1059.001)\n`));
+        assert.ok(buildImpactReport('7.2', '8.0', []).includes('No references'));
+    });
+});
@@ -0,0 +1,96 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { DiagnosticContext, buildDiagnosticContext } from '../../src/diagnostics';
+import { LinkEdit, buildDefinitionBlockEdit } from '../../src/insertLink';
+import { findLinkEdits, linkAll } from '../../src/linkAll';
+import { ATTACKExtensionAPI, extensionID, ignoreConsoleLogs, resetState } from './testHelpers';
+
+/*
+    Summarize the links that would be inserted into some Markdown text
+*/
+function summarize(text: string, context: DiagnosticContext, includeNames = false): Array<string> {
+    return findLinkEdits(text, context, 'markdown', includeNames).map<string>((edit: LinkEdit) => { return edit.newText; });
+}
+
+describe('Command: linkAll', function () {
+    let context: DiagnosticContext;
+    let exports: ATTACKExtensionAPI;
+
+    before(async function () {
+        const ext: vscode.Extension<unknown> | undefined = vscode.extensions.getExtension(extensionID);
+        await ext?.activate();
+        exports = ext?.exports as ATTACKExtensionAPI;
+        context = buildDiagnosticContext(exports.getCurrentTechniques(), exports.getTactics(), [], [], []);
+    });
+    beforeEach(ignoreConsoleLogs);
+    afterEach(resetState);
+    it('link all command should exist', async function () {
+        const commands: Array<string> = await vscode.commands.getCommands(true);
+        assert.ok(commands.includes('vscode-attack.linkAll'));
+    });
+    it('should link every known ID', function () {
+        assert.deepStrictEqual(summarize('T1059 and TA0002, but not T1509 or RC-T1059', context), [
+            '[T1059](https://attack.mitre.org/techniques/T1059)',
+            '[TA0002](https://attack.mitre.org/tactics/TA0002)',
+        ]);
+    });
+    it('should skip IDs inside links, code and URLs', function () {
+        const text = '[T1059](https://attack.mitre.org/techniques/T1059) `T1059`\n```\nT1059\n```\nhttps://attack.mitre.org/techniques/T1059/001';
+        assert.deepStrictEqual(summarize(text, context), []);
+    });
+    it('should not link IDs again that are already linked in the document format', function () {
+        ['asciidoc', 'confluence', 'html', 'jira', 'latex', 'markdown', 'org', 'restructuredtext'].forEach((languageId: string) => {
+            let text = 'See T1059 here';
+            findLinkEdits(text, context, languageId).reverse().forEach((edit: LinkEdit) => {
+                text = text.substring(0, edit.start) + edit.newText + text.substring(edit.end);
+            });
+            assert.notStrictEqual(text, 'See T1059 here', languageId);
+            assert.deepStrictEqual(findLinkEdits(text, context, languageId), [], languageId);
+        });
+    });
+    it('should only link exact names when asked to', function () {
+        assert.deepStrictEqual(summarize('PowerShell Profile', context), []);
+        assert.deepStrictEqual(summarize('PowerShell Profile', context, true), ['[PowerShell Profile](https://attack.mitre.org/techniques/T1546/013)']);
+    });
+    it('should keep the link definitions of reference-style links sorted and in use', function () {
+        const text = 'T1059 and [x][T1003]\n\n[mine]: https://example.com\n[T1003]: https://attack.mitre.org/techniques/T1003\n[T1059.001]: https://attack.mitre.org/techniques/T1059/001\n';
+        const edits: Array<LinkEdit> = findLinkEdits(text, context, 'markdown', false, true);
+        assert.deepStrictEqual(edits.map<string>((edit: LinkEdit) => { return edit.newText; }), ['[T1059][T1059]']);
+        const urlsById: Map<string, string> = new Map<string, string>([
+            ['T1003', 'https://attack.mitre.org/techniques/T1003'],
+            ['T1059', 'https://attack.mitre.org/techniques/T1059'],
+            ['T1059.001', 'https://attack.mitre.org/techniques/T1059/001'],
+        ]);
+        const definitionEdit: LinkEdit|undefined = buildDefinitionBlockEdit(text, edits, urlsById);
+        // the unused T1059.001 definition is removed, but the user's own definition stays
+        assert.strictEqual(definitionEdit?.newText, '\n\n[mine]: https://example.com\n[T1003]: https://attack.mitre.org/techniques/T1003\n[T1059]: https://attack.mitre.org/techniques/T1059\n');
+        assert.strictEqual(definitionEdit?.start, 'T1059 and [x][T1003]'.length);
+    });
+    it('should not count references inside code or task list check boxes as uses', function () {
+        const text = '- [x] done\n`[T1059]`\n```\n[T1003]\n```\n\n[T1003]: https://attack.mitre.org/techniques/T1003\n[T1059]: https://attack.mitre.org/techniques/T1059\n';
+        const urlsById: Map<string, string> = new Map<string, string>([
+            ['T1003', 'https://attack.mitre.org/techniques/T1003'],
+            ['T1059', 'https://attack.mitre.org/techniques/T1059'],
+            ['x', 'https://example.com'],
+        ]);
+        assert.deepStrictEqual(buildDefinitionBlockEdit(text, [], urlsById), { end: text.length, newText: '\n', start: '- [x] done\n`[T1059]`\n```\n[T1003]\n```'.length });
+    });
+    it('should only link the selected references', async function () {
+        const document: vscode.TextDocument = await vscode.workspace.openTextDocument({ content: 'T1059\nT1059.001\nTA0002', language: 'markdown' });
+        const editor: vscode.TextEditor = await vscode.window.showTextDocument(document);
+        editor.selections = [new vscode.Selection(0, 0, 0, 5), new vscode.Selection(2, 0, 2, 6)];
+        const count: number = await linkAll(editor, exports.getCurrentTechniques(), exports.getTactics(), [], [], [], [], []);
+        assert.strictEqual(count, 2);
+        assert.strictEqual(document.lineAt(1).text, 'T1059.001');
+        assert.strictEqual(document.lineAt(2).text, '[TA0002](https://attack.mitre.org/tactics/TA0002)');
+    });
+    it('should only link the references under each cursor', async function () {
+        const document: vscode.TextDocument = await vscode.workspace.openTextDocument({ content: 'T1059\nT1059.001\nTA0002', language: 'markdown' });
+        const editor: vscode.TextEditor = await vscode.window.showTextDocument(document);
+        editor.selections = [new vscode.Selection(0, 2, 0, 2), new vscode.Selection(2, 3, 2, 3)];
+        const count: number = await linkAll(editor, exports.getCurrentTechniques(), exports.getTactics(), [], [], [], [], []);
+        assert.strictEqual(count, 2);
+        assert.strictEqual(document.lineAt(0).text, '[T1059](https://attack.mitre.org/techniques/T1059)');
+        assert.strictEqual(document.lineAt(1).text, 'T1059.001');
+    });
+});
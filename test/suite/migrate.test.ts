@@ -0,0 +1,58 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { Migration, MigrationEdit, buildMigrations, findMigrationEdits } from '../../src/migrate';
+import { ATTACKExtensionAPI, extensionID, ignoreConsoleLogs, resetState } from './testHelpers';
+
+/*
+    Apply the edits found in some text, the same way the workspace edit would
+*/
+function applyEdits(text: string, edits: Array<MigrationEdit>): string {
+    let result = '';
+    let last = 0;
+    edits.forEach((edit: MigrationEdit) => {
+        result += text.slice(last, edit.start) + edit.newText;
+        last = edit.end;
+    });
+    return result + text.slice(last);
+}
+
+describe('Command: migrateRevokedTechniques', function () {
+    const migrateCommand = 'vscode-attack.migrateRevokedTechniques';
+    let migrations: Map<string, Migration>;
+
+    before(async function () {
+        const ext: vscode.Extension<unknown> | undefined = vscode.extensions.getExtension(extensionID);
+        await ext?.activate();
+        const exports: ATTACKExtensionAPI = ext?.exports as ATTACKExtensionAPI;
+        migrations = buildMigrations(exports.getAllTechniques());
+    });
+    beforeEach(ignoreConsoleLogs);
+    afterEach(resetState);
+    it('migrate revoked techniques command should exist', async function () {
+        const commands: Array<string> = await vscode.commands.getCommands(true);
+        assert.ok(commands.includes(migrateCommand), `No '${migrateCommand}' exists.`);
+    });
+    it('should map revoked techniques to their replacements', function () {
+        assert.strictEqual(migrations.get('T1086')?.replacement.id, 'T1059.001');
+        assert.ok([...migrations.values()].every((m: Migration) => { return !m.replacement.revoked; }));
+    });
+    it('should replace bare IDs, but not parts of other IDs', function () {
+        const text = 'technique: T1086\nids: [T1086, RC-T1086, T10860, t1086]';
+        assert.strictEqual(applyEdits(text, findMigrationEdits(text, migrations)), 'technique: T1059.001\nids: [T1059.001, RC-T1086, T10860, t1086]');
+    });
+    it('should leave IDs in paths alone, like diagnostics do', function () {
+        assert.deepStrictEqual(findMigrationEdits('see rules/T1086.yml', migrations), []);
+    });
+    it('should update the text and URL of generated links', function () {
+        const text = '[T1086](https://attack.mitre.org/techniques/T1086) and [PowerShell](https://attack.mitre.org/techniques/T1086)';
+        const expected = '[T1059.001](https://attack.mitre.org/techniques/T1059/001) and [PowerShell](https://attack.mitre.org/techniques/T1059/001)';
+        assert.strictEqual(applyEdits(text, findMigrationEdits(text, migrations)), expected);
+    });
+    it('should update bare ATT&CK URLs', function () {
+        const text = 'reference: https://attack.mitre.org/techniques/T1086/';
+        assert.strictEqual(applyEdits(text, findMigrationEdits(text, migrations)), 'reference: https://attack.mitre.org/techniques/T1059/001/');
+    });
+    it('should leave current techniques alone', function () {
+        assert.deepStrictEqual(findMigrationEdits('T1059.001 [T1059](https://attack.mitre.org/techniques/T1059)', migrations), []);
+    });
+});
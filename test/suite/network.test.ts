@@ -0,0 +1,144 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as os from 'os';
+import * as vscode from 'vscode';
+import { conditionalGet, defaultMirrorUrl, defaultTagsUrl, getMirrorUrl, getTagsUrl, httpGet, retryDelay, setHttpCacheLocation, setRetryDelay } from '../../src/network';
+import { configSection, fileArtifacts, ignoreConsoleLogs, resetState, setTestConfig } from './testHelpers';
+
+/*
+    Start an HTTP server that answers with the given status codes in order, then 200 for every request after that
+*/
+function startServer(statusCodes: Array<number>, requests: Array<http.IncomingMessage>): Promise<http.Server> {
+    return new Promise<http.Server>((resolve) => {
+        const server: http.Server = http.createServer((req: http.IncomingMessage, res: http.ServerResponse) => {
+            requests.push(req);
+            const statusCode: number|undefined = statusCodes.shift();
+            res.writeHead(statusCode !== undefined ? statusCode : 200);
+            res.end(`response to ${req.url}`);
+        });
+        server.listen(0, '127.0.0.1', () => { resolve(server); });
+    });
+}
+
+/*
+    Start an HTTP server that tags its only response with an ETag and answers 304 Not Modified when that ETag is sent back
+*/
+function startETagServer(requests: Array<http.IncomingMessage>): Promise<http.Server> {
+    return new Promise<http.Server>((resolve) => {
+        const server: http.Server = http.createServer((req: http.IncomingMessage, res: http.ServerResponse) => {
+            requests.push(req);
+            if (req.headers['if-none-match'] === '"v1"') {
+                res.writeHead(304);
+                res.end();
+            }
+            else {
+                res.writeHead(200, { 'ETag': '"v1"' });
+                res.end('[{"ref": "refs/tags/ATT&CK-v9.0"}]');
+            }
+        });
+        server.listen(0, '127.0.0.1', () => { resolve(server); });
+    });
+}
+
+function stopServer(server: http.Server): Promise<void> {
+    return new Promise<void>((resolve) => { server.close(() => { resolve(); }); });
+}
+
+describe('Network', function () {
+    const originalRetryDelay: number = retryDelay;
+    let configuration: vscode.WorkspaceConfiguration;
+    let requests: Array<http.IncomingMessage>;
+
+    before(function () {
+        // keep retries quick
+        setRetryDelay(1);
+    });
+    after(function () {
+        setRetryDelay(originalRetryDelay);
+    });
+    beforeEach(function () {
+        ignoreConsoleLogs();
+        configuration = vscode.workspace.getConfiguration(configSection);
+        requests = new Array<http.IncomingMessage>();
+    });
+    afterEach(async function () {
+        await setTestConfig('httpRetries', undefined, configuration);
+        await setTestConfig('httpTimeout', undefined, configuration);
+        await setTestConfig('mirrorTagsUrl', undefined, configuration);
+        await setTestConfig('mirrorUrl', undefined, configuration);
+        await vscode.workspace.getConfiguration('http').update('proxy', undefined, vscode.ConfigurationTarget.Global);
+        resetState();
+    });
+    it('should default to GitHub when no mirror is configured', function () {
+        assert.strictEqual(getMirrorUrl(), defaultMirrorUrl);
+        assert.strictEqual(getTagsUrl(), defaultTagsUrl);
+    });
+    it('should use the configured mirror without a trailing slash', async function () {
+        await setTestConfig('mirrorUrl', 'https://artifactory.example.com/mitre/cti/', configuration);
+        await setTestConfig('mirrorTagsUrl', 'https://github.example.com/api/v3/repos/mitre/cti/git/refs/tags', configuration);
+        assert.strictEqual(getMirrorUrl(), 'https://artifactory.example.com/mitre/cti');
+        assert.strictEqual(getTagsUrl(), 'https://github.example.com/api/v3/repos/mitre/cti/git/refs/tags');
+    });
+    it('should retry server errors until the request succeeds', async function () {
+        const server: http.Server = await startServer([500, 503], requests);
+        await setTestConfig('httpRetries', 2, configuration);
+        const response = await httpGet(`http://127.0.0.1:${(server.address() as AddressInfo).port}/data.json`);
+        await stopServer(server);
+        assert.strictEqual(response.statusCode, 200);
+        assert.strictEqual(requests.length, 3);
+    });
+    it('should return the last error response once retries run out', async function () {
+        const server: http.Server = await startServer([500, 500, 500], requests);
+        await setTestConfig('httpRetries', 1, configuration);
+        const response = await httpGet(`http://127.0.0.1:${(server.address() as AddressInfo).port}/data.json`);
+        await stopServer(server);
+        assert.strictEqual(response.statusCode, 500);
+        assert.strictEqual(requests.length, 2);
+    });
+    it('should not retry missing files', async function () {
+        const server: http.Server = await startServer([404], requests);
+        const response = await httpGet(`http://127.0.0.1:${(server.address() as AddressInfo).port}/missing.json`);
+        await stopServer(server);
+        assert.strictEqual(response.statusCode, 404);
+        assert.strictEqual(requests.length, 1);
+    });
+    it('should give up after the configured timeout', async function () {
+        // never respond to anything
+        const server: http.Server = http.createServer((req: http.IncomingMessage) => { requests.push(req); });
+        await new Promise<void>((resolve) => { server.listen(0, '127.0.0.1', () => { resolve(); }); });
+        await setTestConfig('httpTimeout', 50, configuration);
+        await setTestConfig('httpRetries', 0, configuration);
+        await assert.rejects(httpGet(`http://127.0.0.1:${(server.address() as AddressInfo).port}/slow.json`), /timed out/);
+        await stopServer(server);
+    });
+    it('should send requests through the configured proxy', async function () {
+        const proxy: http.Server = await startServer([], requests);
+        await vscode.workspace.getConfiguration('http').update('proxy', `http://127.0.0.1:${(proxy.address() as AddressInfo).port}`, vscode.ConfigurationTarget.Global);
+        const response = await httpGet('http://mirror.example.com/ATT%26CK-v9.0/enterprise-attack/enterprise-attack.json');
+        await stopServer(proxy);
+        assert.strictEqual(response.statusCode, 200);
+        assert.strictEqual(requests[0].url, 'http://mirror.example.com/ATT%26CK-v9.0/enterprise-attack/enterprise-attack.json');
+    });
+    it('should reject proxies that are not plain HTTP proxies without sending anything', async function () {
+        const server: http.Server = await startServer([], requests);
+        await vscode.workspace.getConfiguration('http').update('proxy', `https://127.0.0.1:${(server.address() as AddressInfo).port}`, vscode.ConfigurationTarget.Global);
+        await assert.rejects(httpGet('https://mirror.example.com/ATT%26CK-v9.0/enterprise-attack/enterprise-attack.json'), /only http:\/\/ proxies are supported/);
+        await stopServer(server);
+        assert.strictEqual(requests.length, 0);
+    });
+    it('should reuse the cached response when the server answers 304 Not Modified', async function () {
+        const cacheDir: vscode.Uri = vscode.Uri.joinPath(vscode.Uri.file(os.tmpdir()), 'networkTest1');
+        fileArtifacts.push(cacheDir);
+        setHttpCacheLocation(cacheDir);
+        const server: http.Server = await startETagServer(requests);
+        const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/tags`;
+        const first = await conditionalGet(url);
+        const second = await conditionalGet(url);
+        await stopServer(server);
+        assert.strictEqual(requests[0].headers['if-none-match'], undefined);
+        assert.strictEqual(requests[1].headers['if-none-match'], '"v1"');
+        assert.strictEqual(second.statusCode, 200);
+        assert.strictEqual(second.body, first.body);
+    });
+});
@@ -0,0 +1,76 @@
+import * as assert from 'assert';
+import { StringDecoder } from 'string_decoder';
+import * as vscode from 'vscode';
+import * as relationships from '../../src/relationships';
+import { ATTACKExtensionAPI, extensionID, ignoreConsoleLogs, resetState } from './testHelpers';
+
+describe('Relationships', function () {
+    const attack7Uri: vscode.Uri = vscode.Uri.file(`${__dirname}/../../../test/files/attack7.json`);
+    let graph: RelationshipGraph;
+    let exports: ATTACKExtensionAPI;
+
+    before(async function () {
+        const ext: vscode.Extension<unknown> | undefined = vscode.extensions.getExtension(extensionID);
+        await ext?.activate();
+        exports = ext?.exports;
+        const contents: Uint8Array = await vscode.workspace.fs.readFile(attack7Uri);
+        graph = await relationships.init(JSON.parse(new StringDecoder('utf8').end(Buffer.from(contents))) as AttackMap);
+    });
+    beforeEach(ignoreConsoleLogs);
+    afterEach(resetState);
+    it('should identify objects by their ATT&CK ID', function () {
+        assert.strictEqual(relationships.getObject(graph, 'G0016')?.name, 'APT29');
+        assert.strictEqual(relationships.getObject(graph, 'T1059.001')?.type, 'attack-pattern');
+    });
+    it('should find the techniques a group uses, and the groups using a technique', function () {
+        assert.ok(relationships.getTechniquesUsedBy(graph, 'G0016').includes('T1059.001'));
+        assert.ok(relationships.getUsersOf(graph, 'T1059.001').includes('G0016'));
+        assert.ok(relationships.getTechniquesUsedBy(graph, 'G0016').every((id: string) => { return relationships.getObject(graph, id, ['attack-pattern']) !== undefined; }));
+    });
+    it('should find the software a group uses', function () {
+        const software: Array<string> = relationships.getSoftwareUsedBy(graph, 'G0016');
+        assert.ok(software.length > 0);
+        assert.ok(software.every((id: string) => { return /^S\d{4}$/.test(id); }));
+    });
+    it('should find mitigated techniques in both directions', function () {
+        const mitigations: Array<string> = relationships.getMitigations(graph, 'T1059.001');
+        assert.ok(mitigations.length > 0);
+        mitigations.forEach((id: string) => {
+            assert.ok(relationships.getMitigatedTechniques(graph, id).includes('T1059.001'));
+        });
+    });
+    it('should find sub-techniques and the techniques that replaced revoked ones', function () {
+        assert.ok(relationships.getSubtechniques(graph, 'T1059').includes('T1059.001'));
+        assert.strictEqual(relationships.getRevokedBy(graph, 'T1086'), 'T1059.001');
+        assert.strictEqual(relationships.getRevokedBy(graph, 'T1059.001'), undefined);
+    });
+    it('should keep objects that share an ATT&CK ID apart', async function () {
+        const buildObject = (stixId: string, type: string, id: string, name: string): AttackObject => {
+            return { external_references: [{ external_id: id, source_name: 'mitre-attack' }], id: stixId, name: name, type: type } as AttackObject;
+        };
+        const buildRelationship = (source: string, type: string, target: string): AttackObject => {
+            return { id: `relationship--${source}-${target}`, relationship_type: type, source_ref: source, target_ref: target, type: 'relationship' } as AttackObject;
+        };
+        // pre-v5 mitigations were identified by the ID of the technique they mitigate
+        const shared: RelationshipGraph = await relationships.init({ id: 'bundle--test', objects: [
+            buildObject('attack-pattern--1', 'attack-pattern', 'T1086', 'PowerShell'),
+            buildObject('course-of-action--1', 'course-of-action', 'T1086', 'PowerShell Mitigation'),
+            buildObject('attack-pattern--2', 'attack-pattern', 'T1059', 'Command-Line Interface'),
+            buildObject('intrusion-set--1', 'intrusion-set', 'G0001', 'Group'),
+            buildRelationship('intrusion-set--1', 'uses', 'attack-pattern--1'),
+            buildRelationship('course-of-action--1', 'mitigates', 'attack-pattern--2'),
+        ], spec_version: '2.0', type: 'bundle' } as AttackMap);
+        // init() also replaces the graph served to the providers, so go back to the one the other tests use
+        await relationships.init(JSON.parse(new StringDecoder('utf8').end(Buffer.from(await vscode.workspace.fs.readFile(attack7Uri)))) as AttackMap);
+        assert.deepStrictEqual(relationships.getTechniquesUsedBy(shared, 'G0001'), ['T1086']);
+        assert.deepStrictEqual(relationships.getUsersOf(shared, 'T1086'), ['G0001']);
+        assert.deepStrictEqual(relationships.getMitigatedTechniques(shared, 'T1086'), ['T1059']);
+        assert.strictEqual(relationships.getObject(shared, 'T1086', ['attack-pattern'])?.name, 'PowerShell');
+        assert.strictEqual(relationships.getObject(shared, 'T1086', ['course-of-action'])?.name, 'PowerShell Mitigation');
+    });
+    it('should expose relationships through the extension API', function () {
+        assert.strictEqual(exports.getRevokedBy('T1086'), 'T1059.001');
+        assert.ok((exports.getTechniquesUsedBy('G0016') as Array<string>).length > 0);
+        assert.ok((exports.getRelated('T1059', 'subtechnique-of', 'to') as Array<string>).includes('T1059.001'));
+    });
+});
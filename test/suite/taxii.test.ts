@@ -0,0 +1,203 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as os from 'os';
+import * as vscode from 'vscode';
+import { discoverApiRoot, downloadTaxiiCollection, findCollection, getCachedTaxiiCollection, getCollections, getObjects, mergeObjects } from '../../src/taxii';
+import { ATTACKExtensionAPI, configSection, extensionID, fileArtifacts, ignoreConsoleLogs, resetState, setTestConfig } from './testHelpers';
+
+const collectionId = 'x-mitre-collection--1f5f1533-f617-4ca8-9ab4-6a02367fa019';
+
+// objects served by the mock server, along with when they were added to the collection
+interface MockObject {
+    added: string;
+    object: AttackObject;
+}
+
+function buildTechnique(id: string, name: string, modified: string): AttackObject {
+    return {
+        created: '2020-01-01T00:00:00.000Z',
+        description: `${name} description`,
+        external_references: [{ external_id: id, source_name: 'mitre-attack', url: `https://attack.mitre.org/techniques/${id}` }],
+        id: `attack-pattern--${id.toLowerCase()}`,
+        kill_chain_phases: [{ kill_chain_name: 'mitre-attack', phase_name: 'execution' }],
+        modified: modified,
+        name: name,
+        type: 'attack-pattern',
+    } as AttackObject;
+}
+
+/*
+    Minimal TAXII 2.1 server that serves one collection and supports pagination and added_after
+*/
+class MockTaxiiServer {
+    public objects: Array<MockObject> = new Array<MockObject>();
+    public requests: Array<http.IncomingMessage> = new Array<http.IncomingMessage>();
+    public url = '';
+    private server: http.Server = http.createServer((req: http.IncomingMessage, res: http.ServerResponse) => { this.handle(req, res); });
+
+    public start(): Promise<void> {
+        return new Promise<void>((resolve) => {
+            this.server.listen(0, '127.0.0.1', () => {
+                this.url = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+                resolve();
+            });
+        });
+    }
+
+    public stop(): Promise<void> {
+        return new Promise<void>((resolve) => { this.server.close(() => { resolve(); }); });
+    }
+
+    private send(res: http.ServerResponse, body: unknown, headers: http.OutgoingHttpHeaders = {}): void {
+        res.writeHead(200, { 'Content-Type': 'application/taxii+json;version=2.1', ...headers });
+        res.end(JSON.stringify(body));
+    }
+
+    private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+        this.requests.push(req);
+        const [path, queryString] = (req.url || '').split('?');
+        const query: Map<string, string> = new Map<string, string>();
+        (queryString || '').split('&').filter((pair: string) => { return pair.length > 0; }).forEach((pair: string) => {
+            const [key, value] = pair.split('=');
+            query.set(key, decodeURIComponent(value));
+        });
+        if (path === '/taxii2/') {
+            this.send(res, { title: 'Mock TAXII Server', default: '/api/v21/', api_roots: ['/api/v21/'] });
+        }
+        else if (path === '/api/v21/collections/') {
+            this.send(res, { collections: [{ id: collectionId, title: 'Enterprise ATT&CK', can_read: true, can_write: false }] });
+        }
+        else if (path === `/api/v21/collections/${collectionId}/objects/`) {
+            const addedAfter: string|undefined = query.get('added_after');
+            const matches: Array<MockObject> = this.objects.filter((o: MockObject) => { return addedAfter === undefined || o.added > addedAfter; });
+            const start: number = query.has('next') ? parseInt(query.get('next') as string) : 0;
+            const limit: number = query.has('limit') ? parseInt(query.get('limit') as string) : matches.length;
+            // serve at most 2 objects per page to exercise pagination
+            const page: Array<MockObject> = matches.slice(start, start + Math.min(limit, 2));
+            const more: boolean = start + page.length < matches.length;
+            const headers: http.OutgoingHttpHeaders = page.length > 0 ? { 'X-TAXII-Date-Added-Last': page[page.length - 1].added } : {};
+            this.send(res, {
+                more: more,
+                next: more ? `${start + page.length}` : undefined,
+                objects: page.length > 0 ? page.map<AttackObject>((o: MockObject) => { return o.object; }) : undefined,
+            }, headers);
+        }
+        else {
+            res.writeHead(404);
+            res.end();
+        }
+    }
+}
+
+describe('TAXII', function () {
+    let server: MockTaxiiServer;
+
+    beforeEach(async function () {
+        ignoreConsoleLogs();
+        server = new MockTaxiiServer();
+        server.objects = [
+            { added: '2021-01-01T00:00:00.000Z', object: { id: collectionId, name: 'Enterprise ATT&CK', type: 'x-mitre-collection', x_mitre_version: '9.0' } as AttackObject },
+            { added: '2021-01-01T00:00:01.000Z', object: buildTechnique('T0001', 'First Technique', '2021-01-01T00:00:00.000Z') },
+            { added: '2021-01-01T00:00:02.000Z', object: buildTechnique('T0002', 'Second Technique', '2021-01-01T00:00:00.000Z') },
+            { added: '2021-01-01T00:00:03.000Z', object: buildTechnique('T0003', 'Third Technique', '2021-01-01T00:00:00.000Z') },
+        ];
+        await server.start();
+    });
+    afterEach(async function () {
+        await server.stop();
+        resetState();
+    });
+    it('should discover the default API root', async function () {
+        const apiRoot: string = await discoverApiRoot(`${server.url}/taxii2/`);
+        assert.strictEqual(apiRoot, `${server.url}/api/v21/`);
+    });
+    it('should request the TAXII 2.1 media type', async function () {
+        await discoverApiRoot(`${server.url}/taxii2`);
+        assert.strictEqual(server.requests[0].headers['accept'], 'application/taxii+json;version=2.1');
+    });
+    it('should find collections by ID or title', async function () {
+        const collections = await getCollections(`${server.url}/api/v21/`);
+        assert.strictEqual(collections.length, 1);
+        assert.strictEqual(findCollection(collections, collectionId)?.id, collectionId);
+        assert.strictEqual(findCollection(collections, 'enterprise att&ck')?.id, collectionId);
+        assert.strictEqual(findCollection(collections, 'Mobile ATT&CK'), undefined);
+    });
+    it('should follow pagination until every object is retrieved', async function () {
+        const response = await getObjects(`${server.url}/api/v21/`, collectionId);
+        assert.strictEqual(response.objects.length, 4);
+        assert.strictEqual(response.dateAddedLast, '2021-01-01T00:00:03.000Z');
+        const objectRequests = server.requests.filter((req: http.IncomingMessage) => { return req.url?.includes('/objects/'); });
+        assert.strictEqual(objectRequests.length, 2);
+    });
+    it('should only retrieve objects added after the given timestamp', async function () {
+        const response = await getObjects(`${server.url}/api/v21/`, collectionId, '2021-01-01T00:00:01.000Z');
+        assert.deepStrictEqual(response.objects.map<string>((o: AttackObject) => { return o.name; }), ['Second Technique', 'Third Technique']);
+    });
+    it('should keep the newest version of updated objects', function () {
+        const cached: Array<AttackObject> = [buildTechnique('T0001', 'Old Name', '2021-01-01T00:00:00.000Z')];
+        const updates: Array<AttackObject> = [buildTechnique('T0001', 'New Name', '2021-06-01T00:00:00.000Z'), buildTechnique('T0002', 'Second Technique', '2021-01-01T00:00:00.000Z')];
+        const merged: Array<AttackObject> = mergeObjects(cached, updates);
+        assert.strictEqual(merged.length, 2);
+        assert.strictEqual(merged[0].name, 'New Name');
+        assert.strictEqual(mergeObjects(updates, cached)[0].name, 'New Name');
+    });
+    it('should download a collection as an ATT&CK map and update it incrementally', async function () {
+        const tmpDir: vscode.Uri = vscode.Uri.joinPath(vscode.Uri.file(os.tmpdir()), 'taxiiTest1');
+        fileArtifacts.push(tmpDir);
+        const initial: {data: AttackMap, cached: boolean}|undefined = await downloadTaxiiCollection(tmpDir, `${server.url}/taxii2/`, 'Enterprise ATT&CK');
+        assert.ok(initial !== undefined);
+        assert.strictEqual(initial?.cached, false);
+        assert.strictEqual(initial?.data.type, 'bundle');
+        assert.strictEqual(initial?.data.objects.length, 4);
+        // add a new technique and update an existing one
+        server.objects.push({ added: '2021-02-01T00:00:00.000Z', object: buildTechnique('T0004', 'Fourth Technique', '2021-02-01T00:00:00.000Z') });
+        server.objects.push({ added: '2021-02-01T00:00:01.000Z', object: buildTechnique('T0001', 'Renamed Technique', '2021-02-01T00:00:00.000Z') });
+        server.requests = [];
+        const updated: {data: AttackMap, cached: boolean}|undefined = await downloadTaxiiCollection(tmpDir, `${server.url}/taxii2/`, 'Enterprise ATT&CK');
+        assert.ok(server.requests.some((req: http.IncomingMessage) => { return req.url?.includes('added_after=2021-01-01T00%3A00%3A03.000Z'); }));
+        assert.strictEqual(updated?.data.objects.length, 5);
+        assert.ok(updated?.data.objects.some((o: AttackObject) => { return o.name === 'Renamed Technique'; }));
+        assert.ok(!updated?.data.objects.some((o: AttackObject) => { return o.name === 'First Technique'; }));
+    });
+    it('should fall back to the cached collection when the server is unreachable', async function () {
+        const tmpDir: vscode.Uri = vscode.Uri.joinPath(vscode.Uri.file(os.tmpdir()), 'taxiiTest2');
+        fileArtifacts.push(tmpDir);
+        const discoveryUrl = `${server.url}/taxii2/`;
+        await downloadTaxiiCollection(tmpDir, discoveryUrl, 'Enterprise ATT&CK');
+        await server.stop();
+        const cached: {data: AttackMap, cached: boolean}|undefined = await downloadTaxiiCollection(tmpDir, discoveryUrl, 'Enterprise ATT&CK');
+        assert.strictEqual(cached?.cached, true);
+        assert.strictEqual(cached?.data.objects.length, 4);
+        assert.strictEqual((await getCachedTaxiiCollection(tmpDir, collectionId))?.objects.length, 4);
+        // restart so the server can be stopped again after the test
+        server = new MockTaxiiServer();
+        await server.start();
+    });
+    it('should not fall back to the cache when the server has no such collection', async function () {
+        const tmpDir: vscode.Uri = vscode.Uri.joinPath(vscode.Uri.file(os.tmpdir()), 'taxiiTest3');
+        fileArtifacts.push(tmpDir);
+        assert.strictEqual(await downloadTaxiiCollection(tmpDir, `${server.url}/taxii2/`, 'Missing ATT&CK'), undefined);
+    });
+    it('should serve objects updated on the server after a refresh', async function () {
+        this.timeout(30000);
+        const ext: vscode.Extension<unknown> | undefined = vscode.extensions.getExtension(extensionID);
+        await ext?.activate();
+        const exports: ATTACKExtensionAPI = ext?.exports as ATTACKExtensionAPI;
+        const configuration: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration(configSection);
+        const getName = (id: string): string|undefined => { return exports.getAllTechniques().find((t: Technique) => { return t.id === id; })?.name; };
+        try {
+            await setTestConfig('taxiiServer', `${server.url}/taxii2/`, configuration);
+            await vscode.commands.executeCommand('vscode-attack.refreshData');
+            assert.strictEqual(getName('T0001'), 'First Technique');
+            // renaming an object keeps the number of objects, the location and the version the same
+            server.objects.push({ added: '2021-02-01T00:00:00.000Z', object: buildTechnique('T0001', 'Renamed Technique', '2021-02-01T00:00:00.000Z') });
+            await vscode.commands.executeCommand('vscode-attack.refreshData');
+            assert.strictEqual(getName('T0001'), 'Renamed Technique');
+        } finally {
+            await setTestConfig('taxiiServer', undefined, configuration);
+            // go back to the data every other test expects
+            await vscode.commands.executeCommand('vscode-attack.refreshData');
+        }
+    });
+});
@@ -1,6 +1,7 @@
 import * as assert from 'assert';
 import * as vscode from 'vscode';
 import { techniqueRegex } from '../../src/helpers';
+import { buildTechniqueMetadata } from '../../src/techniques';
 import { ATTACKExtensionAPI, configSection, extensionID, ignoreConsoleLogs, resetState, setTestConfig } from './testHelpers';
 
 const testUri: vscode.Uri = vscode.Uri.file(`${__dirname}/../../../test/files/test.md`);
@@ -119,16 +120,19 @@ describe('Techniques', function () {
         const position: vscode.Position = new vscode.Position(5, 4);
         const results = await vscode.commands.executeCommand('vscode.executeCompletionItemProvider', testUri, position);
         assert.ok(results instanceof vscode.CompletionList);
-        // if none of the results are of the CompletionItemKind that we use, then VSCode auto-filled
-        // the results based on other terms in the document, and our provider did not search descriptions
-        assert.ok(!results.items.some((item: vscode.CompletionItem) => { return item.kind === vscode.CompletionItemKind.Value; }));
+        // description matches are labeled as such, while the replacement technique is labeled by its ID
+        assert.ok(!results.items.some((item: vscode.CompletionItem) => { return item.label.toString().includes('technique description'); }));
     });
-    it('should not provide techniques marked as revoked', async function () {
+    it('should offer the replacement of a revoked technique instead of the revoked technique', async function () {
         // line 5: T1086
         const position: vscode.Position = new vscode.Position(5, 4);
         const results = await vscode.commands.executeCommand('vscode.executeCompletionItemProvider', testUri, position);
         assert.ok(results instanceof vscode.CompletionList);
-        assert.ok(!results.items.some((item: vscode.CompletionItem) => { return item.kind === vscode.CompletionItemKind.Value; }));
+        const techniqueItems: Array<vscode.CompletionItem> = results.items.filter((item: vscode.CompletionItem) => { return item.kind === vscode.CompletionItemKind.Value; });
+        assert.strictEqual(techniqueItems.length, 1);
+        assert.strictEqual(techniqueItems[0].label, 'T1059.001');
+        assert.strictEqual(techniqueItems[0].preselect, true);
+        assert.ok((techniqueItems[0].documentation as vscode.MarkdownString).value.includes('Replaces revoked technique **T1086**'));
     });
     it('should add a Deprecated tag for techniques marked as x_mitre_deprecated', async function () {
         const expectedTID = 'T1064';
@@ -167,6 +171,13 @@ describe('Techniques', function () {
         assert.deepStrictEqual(results[0].range, expectedRange);
         const contents: vscode.MarkdownString = results[0].contents[0] as vscode.MarkdownString;
         assert.ok(contents.value.includes(expectedTitle));
+        assert.ok(contents.value.includes('**Revoked by**: [T1059.001 Command and Scripting Interpreter: PowerShell](https://attack.mitre.org/techniques/T1059/001)'));
+    });
+    it('should build only the selected technique metadata sections', function () {
+        const technique: Technique = exports.getCurrentTechniques().find((t: Technique) => { return t.id === 'T1059.001'; });
+        assert.ok(technique.platforms.includes('Windows'));
+        assert.strictEqual(buildTechniqueMetadata(technique, ['platforms']), `**Platforms**: ${technique.platforms.join(', ')}\n\n`);
+        assert.strictEqual(buildTechniqueMetadata(technique, []), '');
     });
     it('should not provide a hover to terms that do not match TIDs', async function () {
         const term = 'the';
@@ -203,6 +214,7 @@ describe('Technique Settings', function () {
         await setTestConfig('techniques', undefined, modifiedConfig);
         await setTestConfig('completionFormat', undefined, modifiedConfig);
         await setTestConfig('description', undefined, modifiedConfig);
+        await setTestConfig('techniqueSections', undefined, modifiedConfig);
     });
     it('completionFormat: should show only a TID when set to id', async function () {
         const tid = 'T1059.001';
@@ -270,6 +282,20 @@ describe('Technique Settings', function () {
         assert.ok(results.items[0] instanceof vscode.CompletionItem);
         assert.strictEqual(results.items[0].detail, expectedDetail);
     });
+    it('techniqueSections: should show the selected metadata in hovers', async function () {
+        const position: vscode.Position = new vscode.Position(0, 'T1059'.length);
+        let results = await vscode.commands.executeCommand('vscode.executeHoverProvider', testUri, position);
+        assert.ok(results instanceof Array && results[0] instanceof vscode.Hover);
+        let contents: vscode.MarkdownString = results[0].contents[0] as vscode.MarkdownString;
+        assert.ok(contents.value.includes('**Platforms**: '));
+        assert.ok(!contents.value.includes('**Detection**: '));
+        await setTestConfig('techniqueSections', ['detection'], modifiedConfig);
+        results = await vscode.commands.executeCommand('vscode.executeHoverProvider', testUri, position);
+        assert.ok(results instanceof Array && results[0] instanceof vscode.Hover);
+        contents = results[0].contents[0] as vscode.MarkdownString;
+        assert.ok(!contents.value.includes('**Platforms**: '));
+        assert.ok(contents.value.includes('**Detection**: '));
+    });
     it('should enable the Technique providers when set to true', async function () {
         const expectedSID = 'T1059';
         await setTestConfig('techniques', true, modifiedConfig);
@@ -11,9 +11,16 @@ export let disposables: vscode.Disposable[] = [];
 // to make Typescript shut up about functions it thinks aren't available
 export interface ATTACKExtensionAPI {
     getAllTechniques: Function;
+    getDataSource: Function;
     getCurrentTechniques: Function;
     getRevokedTechniques: Function;
     getTactics: Function;
+    getCampaigns: Function;
+    getRelated: Function;
+    getTechniquesUsedBy: Function;
+    getMitigatedTechniques: Function;
+    getRevokedBy: Function;
+    registerLinkFormatter: Function;
 }
 
 // ignore messages logged to the console
@@ -0,0 +1,43 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { buildVersionItems, getVersionSetting } from '../../src/versions';
+import { extensionID, ignoreConsoleLogs, resetState } from './testHelpers';
+
+
+describe('Command: selectVersion', function () {
+    const selectVersionCommand = 'vscode-attack.selectVersion';
+    let ext: vscode.Extension<unknown> | undefined;
+
+    before(async function () {
+        ext = vscode.extensions.getExtension(extensionID);
+        await ext?.activate();
+    });
+    beforeEach(ignoreConsoleLogs);
+    afterEach(resetState);
+    it('select version command should exist', async function () {
+        const commands: Array<string> = await vscode.commands.getCommands(true);
+        assert.ok(commands.includes(selectVersionCommand), `No '${selectVersionCommand}' exists.`);
+    });
+    it('should list the newest versions first, after the option to follow the latest version', function () {
+        const items: Array<vscode.QuickPickItem> = buildVersionItems(['8.0', '9.0'], ['9.0', '10.0'], '');
+        const labels: Array<string> = items.map<string>((item: vscode.QuickPickItem) => { return item.label; });
+        assert.deepStrictEqual(labels, ['Latest', 'v10.0', 'v9.0', 'v8.0']);
+    });
+    it('should describe where each version is available', function () {
+        const items: Array<vscode.QuickPickItem> = buildVersionItems(['8.0', '9.0'], ['9.0', '10.0'], '');
+        assert.strictEqual(items[1].description, 'available online');
+        assert.strictEqual(items[2].description, 'cached, available online');
+        assert.strictEqual(items[3].description, 'cached');
+    });
+    it('should mark the pinned version', function () {
+        const items: Array<vscode.QuickPickItem> = buildVersionItems(['8.0'], [], '8.0');
+        assert.ok(items[1].description?.startsWith('$(pinned)'));
+        assert.ok(!items[0].description?.startsWith('$(pinned)'));
+    });
+    it('should override a version pinned in the user settings when following the latest version in a workspace', function () {
+        assert.strictEqual(getVersionSetting('8.0', vscode.ConfigurationTarget.Workspace, '9.0'), '8.0');
+        assert.strictEqual(getVersionSetting('', vscode.ConfigurationTarget.Workspace, '9.0'), '');
+        assert.strictEqual(getVersionSetting('', vscode.ConfigurationTarget.Workspace, undefined), undefined);
+        assert.strictEqual(getVersionSetting('', vscode.ConfigurationTarget.Global, '9.0'), undefined);
+    });
+});
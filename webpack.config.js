@@ -26,6 +26,9 @@ const webExtensionConfig = {
         buffer: false,
         http: false,
         https: false,
+        net: false,
+        tls: false,
+        url: false,
     }
   },
   module: {